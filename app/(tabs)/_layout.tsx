@@ -2,56 +2,178 @@
  * Tabs Layout - Main app navigation with Inbox tab.
  */
 
+import { ConfirmationModal, Toast } from "@/components/ui";
 import { Colors } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
-import { getLoggedInUser, uploadMultipleFiles } from "@/services";
+import {
+  checkFileContent,
+  decodeFileName,
+  describeContentMismatch,
+  enqueueUploads,
+  findDuplicateUploads,
+  getCurrentFolderId,
+  getLoggedInUser,
+  loadUploadPolicy,
+  purgeExpiredTrash,
+  restoreDownloads,
+  resumeUploadQueue,
+  validateUploadBatch,
+  type DuplicateAction,
+  type UploadRequest,
+} from "@/services";
 import { Ionicons } from "@expo/vector-icons";
 import * as DocumentPicker from "expo-document-picker";
 import { Tabs, useRouter } from "expo-router";
-import { useCallback } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ActivityIndicator, Modal, StyleSheet, Text, View } from "react-native";
+
+// Pre-upload question shown in the confirmation modal
+interface UploadPrompt {
+  title: string;
+  message: string;
+  confirmText: string;
+  cancelText: string;
+  secondaryText?: string;
+}
+
+type PromptChoice = "confirm" | "secondary" | "cancel";
+
+const DUPLICATE_ACTIONS: Record<PromptChoice, DuplicateAction> = {
+  confirm: "upload",
+  secondary: "replace",
+  cancel: "skip",
+};
 
 export default function TabsLayout() {
   const colorScheme = useColorScheme();
   const router = useRouter();
+  const [prompt, setPrompt] = useState<UploadPrompt | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Picked files being hashed for the duplicate check
+  const [checkingFiles, setCheckingFiles] = useState<{
+    checked: number;
+    total: number;
+  } | null>(null);
+  const promptResolverRef = useRef<((choice: PromptChoice) => void) | null>(
+    null,
+  );
+
+  // Resume uploads and downloads left unfinished by a previous session
+  useEffect(() => {
+    resumeUploadQueue();
+    restoreDownloads();
+    loadUploadPolicy();
+    // Files past the trash retention period
+    purgeExpiredTrash().catch((err) =>
+      console.warn("⚠️ Could not purge expired trash:", err),
+    );
+  }, []);
+
+  // Show a question and wait for the user's answer
+  const askUser = useCallback(
+    (question: UploadPrompt) =>
+      new Promise<PromptChoice>((resolve) => {
+        promptResolverRef.current = resolve;
+        setPrompt(question);
+      }),
+    [],
+  );
+
+  function resolvePrompt(choice: PromptChoice) {
+    promptResolverRef.current?.(choice);
+    promptResolverRef.current = null;
+    setPrompt(null);
+  }
 
   const performUpload = useCallback(
     async (
       assets: DocumentPicker.DocumentPickerAsset[],
       userIdParam: number,
     ) => {
+      // Upload into the folder open on the dashboard when the pick started
+      const folderId = getCurrentFolderId();
       try {
-        // Create a fake result object for uploadMultipleFiles
-        const fakeResult = {
+        // Enforce size/type limits before any bytes are sent
+        const { accepted, rejected } = validateUploadBatch(
           assets,
-          canceled: false,
-        };
+          await loadUploadPolicy(),
+        );
 
-        const { saved, failed } = await uploadMultipleFiles(
-          fakeResult as any,
+        // Compare content hashes with the user's files before uploading
+        setCheckingFiles({ checked: 0, total: accepted.length });
+        const checks = await findDuplicateUploads(
+          accepted,
           userIdParam,
-        );
+          (checked, total) => setCheckingFiles({ checked, total }),
+        ).finally(() => setCheckingFiles(null));
+        const uploads: UploadRequest[] = [];
+        for (const check of checks) {
+          const fileName = decodeFileName(check.asset.name);
+
+          // Warn when the extension does not match the file's content
+          const content = await checkFileContent(
+            check.asset.uri,
+            fileName,
+            check.asset.mimeType,
+          );
+          const mismatch = describeContentMismatch(content, fileName);
+          if (mismatch) {
+            const choice = await askUser({
+              title: "File Type Mismatch",
+              message: `${mismatch} Upload it anyway?`,
+              confirmText: "Upload Anyway",
+              cancelText: "Skip",
+            });
+            if (choice === "cancel") {
+              console.log("⏭️ Skipping mismatched file:", fileName);
+              continue;
+            }
+          }
+
+          const action = check.existingFile
+            ? DUPLICATE_ACTIONS[
+                await askUser({
+                  title: "Duplicate File",
+                  message: `"${fileName}" has the same content as "${check.existingFile.fileName}", which is already in your files.`,
+                  confirmText: "Upload Anyway",
+                  secondaryText: "Replace Existing",
+                  cancelText: "Skip",
+                })
+              ]
+            : "upload";
+          if (action === "skip") {
+            console.log("⏭️ Skipping duplicate:", fileName);
+            continue;
+          }
+          uploads.push({
+            asset: check.asset,
+            contentHash: check.contentHash,
+            replacesFileId:
+              action === "replace" && check.existingFile
+                ? String(check.existingFile.id)
+                : null,
+          });
+        }
 
-        console.log(
-          "Upload result - Saved:",
-          saved.length,
-          "Failed:",
-          failed.length,
+        // Rejected files are recorded as failed so the reason is shown
+        rejected.forEach(({ asset, error }) =>
+          uploads.push({ asset, rejection: error }),
         );
 
-        // Navigate to dashboard and pass result params
-        router.push({
-          pathname: "/(tabs)/dashboard",
-          params: {
-            uploadDone: Date.now().toString(),
-            savedCount: saved.length.toString(),
-            failedCount: failed.length.toString(),
-          },
-        });
-      } catch (error) {
-        console.error("Error uploading files:", error);
+        if (uploads.length === 0) {
+          console.log("All picked files were skipped");
+          return;
+        }
+
+        // Queue files durably; the dashboard subscribes to queue progress
+        await enqueueUploads(uploads, userIdParam, folderId);
+        router.push("/(tabs)/dashboard");
+      } catch (error: any) {
+        console.error("Error queueing files for upload:", error);
+        setUploadError(error.message || "Could not upload the selected files");
       }
     },
-    [router],
+    [router, askUser],
   );
 
   const handleUploadPress = useCallback(async () => {
@@ -92,12 +214,12 @@ export default function TabsLayout() {
         return;
       }
 
-      // Directly upload files without duplicate validation
+      // Duplicate check and upload
       await performUpload(result.assets, userIdNum);
     } catch (error) {
       console.error("Error uploading files:", error);
     }
-  }, [router]);
+  }, [router, performUpload]);
 
   return (
     <>
@@ -198,6 +320,61 @@ export default function TabsLayout() {
           }}
         />
       </Tabs>
+
+      <Modal visible={!!checkingFiles} transparent animationType="fade">
+        <View style={styles.checkingOverlay}>
+          <View style={styles.checkingBox}>
+            <ActivityIndicator size="large" color={Colors.primary} />
+            <Text style={styles.checkingText}>
+              Checking files...
+              {checkingFiles && checkingFiles.total > 1
+                ? ` (${checkingFiles.checked + 1} of ${checkingFiles.total})`
+                : ""}
+            </Text>
+          </View>
+        </View>
+      </Modal>
+
+      <Toast
+        visible={!!uploadError}
+        message={uploadError ?? ""}
+        type="error"
+        onDismiss={() => setUploadError(null)}
+      />
+
+      <ConfirmationModal
+        visible={!!prompt}
+        title={prompt?.title ?? ""}
+        message={prompt?.message ?? ""}
+        confirmText={prompt?.confirmText}
+        secondaryText={prompt?.secondaryText}
+        cancelText={prompt?.cancelText}
+        onConfirm={() => resolvePrompt("confirm")}
+        onSecondary={() => resolvePrompt("secondary")}
+        onCancel={() => resolvePrompt("cancel")}
+        type="warning"
+      />
     </>
   );
 }
+
+const styles = StyleSheet.create({
+  checkingOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  checkingBox: {
+    backgroundColor: Colors.backgroundWhite,
+    borderRadius: 16,
+    paddingVertical: 24,
+    paddingHorizontal: 32,
+    alignItems: "center",
+  },
+  checkingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+});
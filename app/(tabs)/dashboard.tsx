@@ -1,37 +1,127 @@
 /**
- * Dashboard Screen - My uploaded files from backend.
+ * Dashboard Screen - My uploaded files from backend, organized in folders.
  */
 
-import { FileItem, LoadingSpinner, Toast } from "@/components/ui";
+import {
+  ConfirmationModal,
+  FileItem,
+  FolderItem,
+  FolderPickerModal,
+  LoadingSpinner,
+  NamePromptModal,
+  SelectionBar,
+  Toast,
+  UploadProgressSheet,
+  UserPickerModal,
+} from "@/components/ui";
 import { Colors } from "@/constants/theme";
-import { getMyFiles, isLoggedIn } from "@/services";
+import { useFileTransfer } from "@/hooks/use-file-transfer";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import {
+  bulkDownload,
+  bulkMoveToTrash,
+  bulkRestoreFromTrash,
+  bulkShare,
+  bulkTag,
+  cancelAllUploads,
+  cancelUpload,
+  clearFinishedUploads,
+  createFolder,
+  deleteFolder,
+  describeBulkResult,
+  describeTransferResult,
+  getFileCategory,
+  getFolderPath,
+  getFolders,
+  getFolderTreeIds,
+  getMyFiles,
+  isLoggedIn,
+  pauseAllUploads,
+  pauseUpload,
+  renameFolder,
+  resumeAllUploads,
+  resumeUpload,
+  resumeUploadQueue,
+  retryFailedUploads,
+  setCurrentFolderId,
+  subscribeToFileChanges,
+  validateTag,
+  type BulkAction,
+  type BulkActionResult,
+  type FileTransferMode,
+  type Folder,
+  type User,
+} from "@/services";
 import type { FileMetadata } from "@/services/file-service";
 import { Ionicons } from "@expo/vector-icons";
-import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
+import { router, useFocusEffect } from "expo-router";
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
+  BackHandler,
   FlatList,
   Modal,
   RefreshControl,
+  ScrollView,
   StyleSheet,
   Text,
   TouchableOpacity,
   View,
 } from "react-native";
 
+// Rows of the list: the current folder's subfolders, then its files
+type DashboardRow =
+  { type: "folder"; folder: Folder } | { type: "file"; file: FileMetadata };
+
+// Create / rename prompt
+type FolderPrompt = { mode: "create" } | { mode: "rename"; folder: Folder };
+
+// Bulk actions that ask something first
+type BulkPrompt = "delete" | "share" | "tag";
+
+// How long the "Moved to the trash" toast stays up with its Undo button
+const UNDO_TOAST_DURATION = 5000;
+
 export default function DashboardScreen() {
-  const params = useLocalSearchParams();
-  const lastUploadIdRef = useRef<string | null>(null);
+  const uploadQueue = useUploadQueue();
+  const lastUploadBatchRef = useRef<string | null>(null);
+  const lastActiveBatchRef = useRef<string | null>(null);
 
   const [files, setFiles] = useState<FileMetadata[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [openFolderId, setOpenFolderId] = useState<string | null>(null);
+  const [folderPrompt, setFolderPrompt] = useState<FolderPrompt | null>(null);
+  const [folderPromptError, setFolderPromptError] = useState<string | null>(
+    null,
+  );
+  const [savingFolder, setSavingFolder] = useState(false);
+  const [folderOptions, setFolderOptions] = useState<Folder | null>(null);
+  const [folderToDelete, setFolderToDelete] = useState<Folder | null>(null);
+  // Multi-select (long-press a file to start)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [transferPicker, setTransferPicker] = useState<FileTransferMode | null>(
+    null,
+  );
+  const fileTransfer = useFileTransfer();
+  const [bulkPrompt, setBulkPrompt] = useState<BulkPrompt | null>(null);
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [tagError, setTagError] = useState<string | null>(null);
+  // Set while a bulk action runs, so per-file change events stay quiet
+  const bulkRunningRef = useRef(false);
+  const selecting = selectedIds.size > 0;
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [selectedFilter, setSelectedFilter] = useState("all");
   const [showFilterModal, setShowFilterModal] = useState(false);
-  const [toast, setToast] = useState({
+  const [showUploadSheet, setShowUploadSheet] = useState(false);
+  const [toast, setToast] = useState<{
+    visible: boolean;
+    message: string;
+    type: "success" | "error" | "info";
+    undoFiles?: FileMetadata[]; // Just moved to the trash; the toast offers Undo
+  }>({
     visible: false,
     message: "",
-    type: "success" as "success" | "error",
+    type: "success",
   });
 
   const filterOptions = [
@@ -43,34 +133,6 @@ export default function DashboardScreen() {
     { key: "others", label: "Others" },
   ];
 
-  function getFileType(fileName: string): string {
-    const extension = fileName.split(".").pop()?.toLowerCase() || "";
-    const docs = [
-      "pdf",
-      "doc",
-      "docx",
-      "xls",
-      "xlsx",
-      "ppt",
-      "pptx",
-      "txt",
-      "csv",
-    ];
-    const images = ["jpg", "jpeg", "png", "gif", "webp", "bmp"];
-    const videos = ["mp4", "mkv", "avi", "mov", "webm"];
-    const audio = ["mp3", "wav", "aac", "m4a", "ogg"];
-    if (docs.includes(extension)) return "documents";
-    if (images.includes(extension)) return "images";
-    if (videos.includes(extension)) return "videos";
-    if (audio.includes(extension)) return "audio";
-    return "others";
-  }
-
-  // Extract specific params to avoid dependency array issues
-  const uploadDone = (params.uploadDone as string) || null;
-  const savedCount = parseInt((params.savedCount as string) || "0", 10);
-  const failedCount = parseInt((params.failedCount as string) || "0", 10);
-
   // Check auth and load files on mount
   useEffect(() => {
     checkAuthAndLoadData();
@@ -83,18 +145,91 @@ export default function DashboardScreen() {
     }, []),
   );
 
-  // Show toast / reload when upload completes and params are passed
+  // Uploads started from the Upload tab go into the open folder
+  useEffect(() => {
+    setCurrentFolderId(openFolderId);
+  }, [openFolderId]);
+
+  // Selection only covers the files of the open folder
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [openFolderId]);
+
+  // Back ends the selection, then goes up one folder before leaving the app
+  const parentFolderId =
+    folders.find((folder) => folder.id === openFolderId)?.parentId ?? null;
+  useFocusEffect(
+    useCallback(() => {
+      if (!openFolderId && !selecting) return;
+      const subscription = BackHandler.addEventListener(
+        "hardwareBackPress",
+        () => {
+          if (selecting) {
+            setSelectedIds(new Set());
+          } else {
+            setOpenFolderId(parentFolderId);
+          }
+          return true;
+        },
+      );
+      return () => subscription.remove();
+    }, [openFolderId, parentFolderId, selecting]),
+  );
+
+  // Show renames made in the file viewer right away (reverted if they fail),
+  // and offer Undo when a file is moved to the trash
+  useEffect(
+    () =>
+      subscribeToFileChanges((change) => {
+        if (change.type === "restored") {
+          if (!bulkRunningRef.current) loadFiles();
+          return;
+        }
+        if (change.type === "trashed") {
+          setFiles((current) =>
+            current.filter((file) => String(file.id) !== change.fileId),
+          );
+          if (!bulkRunningRef.current) {
+            setToast({
+              visible: true,
+              message: `Moved "${change.fileName}" to the trash`,
+              type: "info",
+              undoFiles: [change.file],
+            });
+          }
+          return;
+        }
+        setFiles((current) =>
+          current.map((file) =>
+            String(file.id) === change.fileId
+              ? { ...file, fileName: change.fileName }
+              : file,
+          ),
+        );
+      }),
+    [],
+  );
+
+  // Show toast / reload when a queued upload batch completes
+  const completedBatch = uploadQueue.lastCompletedBatch;
   useEffect(() => {
-    if (!uploadDone) return;
+    if (!completedBatch) return;
 
-    // Prevent processing the same upload multiple times
-    if (lastUploadIdRef.current === uploadDone) return;
-    lastUploadIdRef.current = uploadDone;
+    // Prevent processing the same batch multiple times
+    if (lastUploadBatchRef.current === completedBatch.batchId) return;
+    lastUploadBatchRef.current = completedBatch.batchId;
 
     // Trigger reload
     loadFiles();
 
-    if (savedCount > 0 && failedCount === 0) {
+    const { savedCount, failedCount, cancelledCount } = completedBatch;
+    if (savedCount === 0 && failedCount === 0 && cancelledCount > 0) {
+      setToast({
+        visible: true,
+        message: `Cancelled ${cancelledCount} upload(s).`,
+        type: "info",
+      });
+    } else if (savedCount > 0 && failedCount === 0) {
       setToast({
         visible: true,
         message:
@@ -109,6 +244,13 @@ export default function DashboardScreen() {
         message: `${savedCount} file(s) uploaded. ${failedCount} failed.`,
         type: "success",
       });
+    } else if (failedCount === 1) {
+      const [failure] = completedBatch.failures;
+      setToast({
+        visible: true,
+        message: `Failed to upload ${failure.name}: ${failure.error}`,
+        type: "error",
+      });
     } else if (failedCount > 0) {
       setToast({
         visible: true,
@@ -116,7 +258,48 @@ export default function DashboardScreen() {
         type: "error",
       });
     }
-  }, [uploadDone, savedCount, failedCount]);
+  }, [completedBatch]);
+
+  // Progress of the batches that still have files waiting to upload
+  const activeBatchIds = new Set(
+    uploadQueue.items
+      .filter(
+        (item) =>
+          item.state === "queued" ||
+          item.state === "uploading" ||
+          item.state === "paused",
+      )
+      .map((item) => item.batchId),
+  );
+  const activeUploads = uploadQueue.items.filter((item) =>
+    activeBatchIds.has(item.batchId),
+  );
+  const finishedUploads = activeUploads.filter(
+    (item) =>
+      item.state === "done" ||
+      item.state === "failed" ||
+      item.state === "cancelled",
+  ).length;
+  const allActivePaused = activeUploads.every(
+    (item) => item.state !== "queued" && item.state !== "uploading",
+  );
+  const failedUploads = uploadQueue.counts.failed;
+
+  // Open the progress sheet whenever a new batch starts uploading
+  const newestActiveBatch = activeUploads[activeUploads.length - 1]?.batchId;
+  useEffect(() => {
+    if (!newestActiveBatch) return;
+    if (lastActiveBatchRef.current === newestActiveBatch) return;
+    lastActiveBatchRef.current = newestActiveBatch;
+    setShowUploadSheet(true);
+  }, [newestActiveBatch]);
+
+  // Close it once the batch is done; the completion toast takes over
+  useEffect(() => {
+    if (activeUploads.length === 0) {
+      setShowUploadSheet(false);
+    }
+  }, [activeUploads.length]);
 
   async function checkAuthAndLoadData() {
     try {
@@ -132,15 +315,60 @@ export default function DashboardScreen() {
     }
   }
 
+  async function handleUndoTrash(trashed: FileMetadata[]) {
+    // Drop the Undo button so it cannot be pressed twice
+    setToast((current) => ({
+      ...current,
+      message: "Restoring...",
+      undoFiles: undefined,
+    }));
+    bulkRunningRef.current = true;
+    try {
+      const result = await bulkRestoreFromTrash(trashed);
+      setToast({
+        visible: true,
+        message:
+          trashed.length === 1 && result.failed.length === 0
+            ? `Restored "${trashed[0].fileName}"`
+            : describeBulkResult(result, "restore"),
+        type: result.failed.length > 0 ? "error" : "success",
+      });
+    } catch (error: any) {
+      console.error("Failed to restore files:", error);
+      if (error.status === 401) {
+        showSessionExpired();
+        return;
+      }
+      setToast({
+        visible: true,
+        message: error.message || "Failed to restore file",
+        type: "error",
+      });
+    } finally {
+      bulkRunningRef.current = false;
+    }
+    await loadFiles();
+  }
+
   async function loadFiles() {
     try {
-      const allFiles = await getMyFiles();
+      const [allFiles, allFolders] = await Promise.all([
+        getMyFiles(),
+        getFolders(),
+      ]);
       // Sort by timestamp descending (newest first)
       const sorted = allFiles.sort(
         (a: FileMetadata, b: FileMetadata) =>
           new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
       );
       setFiles(sorted);
+      setFolders(allFolders);
+      // The open folder may have been deleted meanwhile
+      setOpenFolderId((current) =>
+        current && allFolders.some((folder) => folder.id === current)
+          ? current
+          : null,
+      );
     } catch (error: any) {
       console.error("Failed to load files:", error);
 
@@ -163,7 +391,10 @@ export default function DashboardScreen() {
 
       setToast({
         visible: true,
-        message: error.message || "Failed to load files",
+        message:
+          error.attempts > 1
+            ? `Server is not responding (tried ${error.attempts} times). Pull to refresh to try again.`
+            : error.message || "Failed to load files",
         type: "error",
       });
     } finally {
@@ -177,14 +408,294 @@ export default function DashboardScreen() {
     setRefreshing(false);
   }
 
+  // Files in unknown folders (e.g. folders not loaded) show at the top level
+  const folderIds = new Set(folders.map((folder) => folder.id));
+  function getParentFolderId(file: FileMetadata): string | null {
+    return file.folderId && folderIds.has(file.folderId) ? file.folderId : null;
+  }
+
+  const folderPath = getFolderPath(folders, openFolderId);
+  const openFolder = folderPath[folderPath.length - 1] ?? null;
+  const subfolders = folders
+    .filter((folder) => folder.parentId === openFolderId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const folderFiles = files.filter(
+    (f) => getParentFolderId(f) === openFolderId,
+  );
   const filteredFiles =
     selectedFilter === "all"
-      ? files
-      : files.filter(
-          (file) => getFileType(file.fileName ?? "") === selectedFilter,
+      ? folderFiles
+      : folderFiles.filter(
+          (f) => getFileCategory(f.fileType, f.fileName) === selectedFilter,
+        );
+  const rows: DashboardRow[] = [
+    ...subfolders.map((folder) => ({ type: "folder" as const, folder })),
+    ...filteredFiles.map((file) => ({ type: "file" as const, file })),
+  ];
+
+  function countFolderItems(folderId: string): number {
+    return (
+      folders.filter((folder) => folder.parentId === folderId).length +
+      files.filter((file) => getParentFolderId(file) === folderId).length
+    );
+  }
+
+  // Files (trashed) and folders (removed) at any depth in a deleted folder
+  function getFolderContents(folder: Folder) {
+    const treeIds = getFolderTreeIds(folders, folder.id);
+    return {
+      treeIds,
+      folderFiles: files.filter((file) => {
+        const parentId = getParentFolderId(file);
+        return parentId !== null && treeIds.has(parentId);
+      }),
+      folderCount: treeIds.size - 1,
+    };
+  }
+
+  function showSessionExpired() {
+    setToast({
+      visible: true,
+      message: "Session expired. Please log in again.",
+      type: "error",
+    });
+    setTimeout(() => {
+      router.replace("/");
+    }, 2000);
+  }
+
+  function openFolderPrompt(prompt: FolderPrompt) {
+    setFolderOptions(null);
+    setFolderPromptError(null);
+    setFolderPrompt(prompt);
+  }
+
+  async function handleSubmitFolderName(name: string) {
+    if (!folderPrompt) return;
+    setSavingFolder(true);
+    setFolderPromptError(null);
+    try {
+      if (folderPrompt.mode === "create") {
+        const folder = await createFolder(name, openFolderId);
+        setFolders((current) => [...current, folder]);
+      } else {
+        const updated = await renameFolder(folderPrompt.folder, name);
+        setFolders((current) =>
+          current.map((folder) =>
+            folder.id === updated.id ? updated : folder,
+          ),
         );
+      }
+      setFolderPrompt(null);
+    } catch (error: any) {
+      console.error("Failed to save folder:", error);
+      if (error.status === 401) {
+        setFolderPrompt(null);
+        showSessionExpired();
+        return;
+      }
+      setFolderPromptError(error.message || "Failed to save folder");
+    } finally {
+      setSavingFolder(false);
+    }
+  }
+
+  async function confirmDeleteFolder() {
+    const folder = folderToDelete;
+    if (!folder) return;
+    setFolderToDelete(null);
+    const { treeIds, folderFiles } = getFolderContents(folder);
+    if (folderFiles.length > 0) {
+      setToast({
+        visible: true,
+        message: `Moving ${folderFiles.length === 1 ? "1 file" : `${folderFiles.length} files`} to the trash...`,
+        type: "info",
+      });
+    }
+    bulkRunningRef.current = true;
+    try {
+      // Trashed files leave the list through the file change listener
+      const result = await deleteFolder(folder.id, folderFiles);
+      if (!result.deleted) {
+        setToast({
+          visible: true,
+          message: `${result.failed.length === 1 ? "1 file" : `${result.failed.length} files`} could not be moved to the trash, so "${folder.name}" was kept.`,
+          type: "error",
+          undoFiles: result.trashed.length > 0 ? result.trashed : undefined,
+        });
+        return;
+      }
+      setFolders((current) => current.filter((f) => !treeIds.has(f.id)));
+      setToast({
+        visible: true,
+        message:
+          result.trashed.length > 0
+            ? `Deleted "${folder.name}" and moved ${result.trashed.length === 1 ? "1 file" : `${result.trashed.length} files`} to the trash`
+            : `Deleted "${folder.name}"`,
+        type: "success",
+        undoFiles: result.trashed.length > 0 ? result.trashed : undefined,
+      });
+    } catch (error: any) {
+      console.error("Failed to delete folder:", error);
+      if (error.status === 401) {
+        showSessionExpired();
+        return;
+      }
+      setToast({
+        visible: true,
+        message: error.message || "Failed to delete folder",
+        type: "error",
+      });
+    } finally {
+      bulkRunningRef.current = false;
+    }
+  }
+
+  function describeFolderDeletion(folder: Folder): string {
+    const { folderFiles, folderCount } = getFolderContents(folder);
+    const folderPart =
+      folderCount > 0
+        ? ` and ${folderCount === 1 ? "the folder" : `the ${folderCount} folders`} in it`
+        : "";
+    const filesPart =
+      folderFiles.length > 0
+        ? ` ${folderFiles.length === 1 ? "Its file is" : `Its ${folderFiles.length} files are`} moved to the trash; restored files go back to My Files.`
+        : "";
+    return `Are you sure you want to delete "${folder.name}"${folderPart}?${filesPart}`;
+  }
+
+  function toggleSelected(file: FileMetadata) {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      const id = String(file.id);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }
+
+  async function handleTransferSelected(folder: Folder | null) {
+    const mode = transferPicker;
+    setTransferPicker(null);
+    if (!mode) return;
+    const selectedFiles = files.filter((file) =>
+      selectedIds.has(String(file.id)),
+    );
+    bulkRunningRef.current = true;
+    try {
+      const result = await fileTransfer.transfer(
+        selectedFiles,
+        folder?.id ?? null,
+        mode,
+      );
+      setSelectedIds(new Set());
+      setToast({
+        visible: true,
+        message: describeTransferResult(
+          result,
+          mode,
+          folder?.name ?? "My Files",
+        ),
+        type:
+          result.failed.length > 0
+            ? "error"
+            : result.transferred.length > 0
+              ? "success"
+              : "info",
+      });
+      await loadFiles();
+    } catch (error: any) {
+      console.error("Failed to move or copy files:", error);
+      if (error.status === 401) {
+        showSessionExpired();
+        return;
+      }
+      setToast({
+        visible: true,
+        message: error.message || `Failed to ${mode} files`,
+        type: "error",
+      });
+    } finally {
+      bulkRunningRef.current = false;
+    }
+  }
+
+  // Run a bulk action on the selected files and report once for all of them
+  async function runBulkAction(
+    action: BulkAction,
+    run: (selected: FileMetadata[]) => Promise<BulkActionResult>,
+    target = "",
+  ) {
+    const selectedFiles = files.filter((file) =>
+      selectedIds.has(String(file.id)),
+    );
+    setBulkAction(action);
+    bulkRunningRef.current = true;
+    try {
+      const result = await run(selectedFiles);
+      setSelectedIds(new Set());
+      if (action === "tag") {
+        const updated = new Map(
+          result.succeeded.map((file) => [String(file.id), file]),
+        );
+        setFiles((current) =>
+          current.map((file) => updated.get(String(file.id)) ?? file),
+        );
+      }
+      setToast({
+        visible: true,
+        message: describeBulkResult(result, action, target),
+        type: result.failed.length > 0 ? "error" : "success",
+        // Everything trashed here comes back with one Undo
+        undoFiles:
+          action === "delete" && result.succeeded.length > 0
+            ? result.succeeded
+            : undefined,
+      });
+    } catch (error: any) {
+      console.error(`Bulk ${action} failed:`, error);
+      if (error.status === 401) {
+        showSessionExpired();
+        return;
+      }
+      setToast({
+        visible: true,
+        message: error.message || "Something went wrong",
+        type: "error",
+      });
+    } finally {
+      bulkRunningRef.current = false;
+      setBulkAction(null);
+    }
+  }
+
+  function handleShareSelected(user: User) {
+    setBulkPrompt(null);
+    runBulkAction(
+      "share",
+      (selected) => bulkShare(selected, user.id),
+      user.fullName || user.username,
+    );
+  }
+
+  function handleTagSelected(tag: string) {
+    const validation = validateTag(tag);
+    if (!validation.valid) {
+      setTagError(validation.error);
+      return;
+    }
+    setBulkPrompt(null);
+    runBulkAction("tag", (selected) => bulkTag(selected, tag), tag.trim());
+  }
 
   function handleFilePress(file: FileMetadata) {
+    if (selecting) {
+      toggleSelected(file);
+      return;
+    }
     router.push({
       pathname: "/file-viewer",
       params: { fileId: file.id.toString() },
@@ -201,43 +712,224 @@ export default function DashboardScreen() {
         visible={toast.visible}
         message={toast.message}
         type={toast.type}
+        duration={toast.undoFiles ? UNDO_TOAST_DURATION : undefined}
+        actionText="Undo"
+        onAction={
+          toast.undoFiles ? () => handleUndoTrash(toast.undoFiles!) : undefined
+        }
         onDismiss={() => setToast({ ...toast, visible: false })}
       />
 
-      {/* Files List */}
-      <View style={styles.listContainer}>
-        <View style={styles.header}>
-          <Text style={styles.sectionTitle}>
-            Uploaded Files ({filteredFiles.length})
+      {/* Upload Queue Status */}
+      {activeUploads.length > 0 && uploadQueue.pausedReason ? (
+        <View style={[styles.queueBanner, styles.queueBannerError]}>
+          <Ionicons name="pause-circle" size={20} color={Colors.error} />
+          <Text style={styles.queueBannerText}>{uploadQueue.pausedReason}</Text>
+          <TouchableOpacity onPress={resumeUploadQueue}>
+            <Text style={styles.queueBannerAction}>Resume</Text>
+          </TouchableOpacity>
+        </View>
+      ) : activeUploads.length > 0 && allActivePaused ? (
+        <TouchableOpacity
+          style={styles.queueBanner}
+          onPress={() => setShowUploadSheet(true)}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="pause-circle" size={20} color={Colors.primary} />
+          <Text style={styles.queueBannerText}>Uploads paused</Text>
+          <TouchableOpacity onPress={resumeAllUploads}>
+            <Text style={styles.queueBannerAction}>Resume</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      ) : activeUploads.length > 0 ? (
+        <TouchableOpacity
+          style={styles.queueBanner}
+          onPress={() => setShowUploadSheet(true)}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="cloud-upload" size={20} color={Colors.primary} />
+          <Text style={styles.queueBannerText}>
+            Uploading... {finishedUploads} of {activeUploads.length} done
           </Text>
-          <TouchableOpacity
-            style={styles.filterButton}
-            onPress={() => setShowFilterModal(true)}
-          >
-            <Ionicons name="filter" size={20} color={Colors.primary} />
-            <Text style={styles.filterButtonText}>Filter</Text>
+          <Text style={styles.queueBannerAction}>Details</Text>
+        </TouchableOpacity>
+      ) : failedUploads > 0 ? (
+        <View style={[styles.queueBanner, styles.queueBannerError]}>
+          <Ionicons name="alert-circle" size={20} color={Colors.error} />
+          <Text style={styles.queueBannerText}>
+            {failedUploads} upload(s) failed
+          </Text>
+          <TouchableOpacity onPress={retryFailedUploads}>
+            <Text style={styles.queueBannerAction}>Retry</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={clearFinishedUploads}>
+            <Text style={styles.queueBannerAction}>Dismiss</Text>
           </TouchableOpacity>
         </View>
+      ) : null}
+
+      {/* Files List */}
+      <View style={styles.listContainer}>
+        {selecting ? (
+          <SelectionBar
+            count={selectedIds.size}
+            total={filteredFiles.length}
+            busy={!!fileTransfer.mode || !!bulkAction}
+            onSelectAll={() =>
+              setSelectedIds(
+                new Set(filteredFiles.map((file) => String(file.id))),
+              )
+            }
+            onClear={() => setSelectedIds(new Set())}
+            actions={[
+              {
+                key: "move",
+                label: "Move",
+                icon: "folder-open-outline",
+                onPress: () => setTransferPicker("move"),
+              },
+              {
+                key: "copy",
+                label: "Copy",
+                icon: "copy-outline",
+                onPress: () => setTransferPicker("copy"),
+              },
+              {
+                key: "share",
+                label: "Share",
+                icon: "share-social-outline",
+                onPress: () => setBulkPrompt("share"),
+              },
+              {
+                key: "download",
+                label: "Download",
+                icon: "download-outline",
+                onPress: () => runBulkAction("download", bulkDownload),
+              },
+              {
+                key: "tag",
+                label: "Tag",
+                icon: "pricetag-outline",
+                onPress: () => {
+                  setTagError(null);
+                  setBulkPrompt("tag");
+                },
+              },
+              {
+                key: "delete",
+                label: "Delete",
+                icon: "trash-outline",
+                danger: true,
+                onPress: () => setBulkPrompt("delete"),
+              },
+            ]}
+          />
+        ) : (
+          <View style={styles.header}>
+            <Text style={styles.sectionTitle} numberOfLines={1}>
+              {`${openFolder ? openFolder.name : "Uploaded Files"} (${filteredFiles.length})`}
+            </Text>
+            <View style={styles.headerButtons}>
+              <TouchableOpacity
+                style={styles.filterButton}
+                onPress={() => openFolderPrompt({ mode: "create" })}
+              >
+                <Ionicons name="add" size={20} color={Colors.primary} />
+                <Text style={styles.filterButtonText}>Folder</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.filterButton}
+                onPress={() => setShowFilterModal(true)}
+              >
+                <Ionicons name="filter" size={20} color={Colors.primary} />
+                <Text style={styles.filterButtonText}>Filter</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
 
-        {filteredFiles.length === 0 ? (
+        {/* Breadcrumbs */}
+        {openFolderId && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.breadcrumbs}
+            contentContainerStyle={styles.breadcrumbsContent}
+          >
+            {[null, ...folderPath].map((folder, index) => {
+              const isLast = index === folderPath.length;
+              return (
+                <View key={folder?.id ?? "root"} style={styles.breadcrumb}>
+                  {index > 0 && (
+                    <Ionicons
+                      name="chevron-forward"
+                      size={14}
+                      color={Colors.textMuted}
+                    />
+                  )}
+                  <TouchableOpacity
+                    onPress={() => setOpenFolderId(folder?.id ?? null)}
+                    disabled={isLast}
+                  >
+                    <Text
+                      style={[
+                        styles.breadcrumbText,
+                        isLast && styles.breadcrumbTextCurrent,
+                      ]}
+                    >
+                      {folder?.name ?? "My Files"}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </ScrollView>
+        )}
+
+        {rows.length === 0 ? (
           <View style={styles.emptyState}>
             <Ionicons
-              name="cloud-upload-outline"
+              name={
+                openFolderId ? "folder-open-outline" : "cloud-upload-outline"
+              }
               size={64}
               color={Colors.iconMuted}
             />
-            <Text style={styles.emptyText}>No files uploaded yet</Text>
+            <Text style={styles.emptyText}>
+              {openFolderId ? "This folder is empty" : "No files uploaded yet"}
+            </Text>
             <Text style={styles.emptySubtext}>
-              Tap the Upload tab (+) to upload your first file
+              {openFolderId
+                ? "Tap the Upload tab (+) to upload files into this folder"
+                : "Tap the Upload tab (+) to upload your first file"}
             </Text>
           </View>
         ) : (
           <FlatList
-            data={filteredFiles}
-            keyExtractor={(item) => String(item.id)}
-            renderItem={({ item }) => (
-              <FileItem file={item} onPress={handleFilePress} />
-            )}
+            data={rows}
+            keyExtractor={(row) =>
+              row.type === "folder"
+                ? `folder-${row.folder.id}`
+                : String(row.file.id)
+            }
+            renderItem={({ item }) =>
+              item.type === "folder" ? (
+                <FolderItem
+                  folder={item.folder}
+                  itemCount={countFolderItems(item.folder.id)}
+                  onPress={(folder) => setOpenFolderId(folder.id)}
+                  onOptions={setFolderOptions}
+                />
+              ) : (
+                <FileItem
+                  file={item.file}
+                  onPress={handleFilePress}
+                  onLongPress={toggleSelected}
+                  selecting={selecting}
+                  selected={selectedIds.has(String(item.file.id))}
+                />
+              )
+            }
             refreshControl={
               <RefreshControl
                 refreshing={refreshing}
@@ -251,6 +943,138 @@ export default function DashboardScreen() {
         )}
       </View>
 
+      <UploadProgressSheet
+        visible={showUploadSheet}
+        items={activeUploads}
+        progress={uploadQueue.progress}
+        onClose={() => setShowUploadSheet(false)}
+        onPauseItem={pauseUpload}
+        onResumeItem={resumeUpload}
+        onCancelItem={cancelUpload}
+        onPauseAll={pauseAllUploads}
+        onResumeAll={resumeAllUploads}
+        onCancelAll={cancelAllUploads}
+      />
+
+      <FolderPickerModal
+        visible={!!transferPicker}
+        title={transferPicker === "copy" ? "Copy To" : "Move To"}
+        confirmText={transferPicker === "copy" ? "Copy Here" : "Move Here"}
+        initialFolderId={openFolderId}
+        onSelect={handleTransferSelected}
+        onCancel={() => setTransferPicker(null)}
+      />
+
+      <ConfirmationModal
+        visible={!!fileTransfer.collision}
+        title="File Already Exists"
+        message={`"${fileTransfer.collision?.existingFile.fileName ?? ""}" already exists in that folder. Keep both (as "${fileTransfer.collision?.suggestedName ?? ""}"), replace it, or skip?`}
+        confirmText="Keep Both"
+        secondaryText="Replace"
+        cancelText="Skip"
+        type="warning"
+        onConfirm={() => fileTransfer.resolveCollision("rename")}
+        onSecondary={() => fileTransfer.resolveCollision("replace")}
+        onCancel={() => fileTransfer.resolveCollision("skip")}
+      />
+
+      <ConfirmationModal
+        visible={bulkPrompt === "delete"}
+        title="Move to Trash"
+        message={`Move ${selectedIds.size === 1 ? "1 file" : `${selectedIds.size} files`} to the trash? You can restore them from Trash (in Profile) until they are purged.`}
+        confirmText="Move to Trash"
+        cancelText="Cancel"
+        type="danger"
+        onConfirm={() => {
+          setBulkPrompt(null);
+          runBulkAction("delete", bulkMoveToTrash);
+        }}
+        onCancel={() => setBulkPrompt(null)}
+      />
+
+      <UserPickerModal
+        visible={bulkPrompt === "share"}
+        title={`Share ${selectedIds.size === 1 ? "1 File" : `${selectedIds.size} Files`}`}
+        confirmText="Share"
+        onSelect={handleShareSelected}
+        onCancel={() => setBulkPrompt(null)}
+      />
+
+      <NamePromptModal
+        visible={bulkPrompt === "tag"}
+        title="Add Tag"
+        placeholder="Tag"
+        confirmText="Add"
+        error={tagError}
+        onSubmit={handleTagSelected}
+        onCancel={() => setBulkPrompt(null)}
+      />
+
+      <NamePromptModal
+        visible={!!folderPrompt}
+        title={folderPrompt?.mode === "rename" ? "Rename Folder" : "New Folder"}
+        initialValue={
+          folderPrompt?.mode === "rename" ? folderPrompt.folder.name : ""
+        }
+        placeholder="Folder name"
+        confirmText={folderPrompt?.mode === "rename" ? "Rename" : "Create"}
+        error={folderPromptError}
+        busy={savingFolder}
+        onSubmit={handleSubmitFolderName}
+        onCancel={() => setFolderPrompt(null)}
+      />
+
+      <ConfirmationModal
+        visible={!!folderToDelete}
+        title="Delete Folder"
+        message={folderToDelete ? describeFolderDeletion(folderToDelete) : ""}
+        confirmText="Delete"
+        cancelText="Cancel"
+        type="danger"
+        onConfirm={confirmDeleteFolder}
+        onCancel={() => setFolderToDelete(null)}
+      />
+
+      {/* Folder Options Modal */}
+      <Modal
+        visible={!!folderOptions}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setFolderOptions(null)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setFolderOptions(null)}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle} numberOfLines={1}>
+              {folderOptions?.name}
+            </Text>
+            <TouchableOpacity
+              style={styles.filterOption}
+              onPress={() =>
+                folderOptions &&
+                openFolderPrompt({ mode: "rename", folder: folderOptions })
+              }
+            >
+              <Text style={styles.filterOptionText}>Rename</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.filterOption}
+              onPress={() => {
+                setFolderToDelete(folderOptions);
+                setFolderOptions(null);
+              }}
+            >
+              <Text style={[styles.filterOptionText, styles.dangerOptionText]}>
+                Delete
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
       {/* Filter Modal */}
       <Modal
         visible={showFilterModal}
@@ -303,6 +1127,31 @@ const styles = StyleSheet.create({
   listContainer: {
     flex: 1,
   },
+  queueBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginHorizontal: 16,
+    marginTop: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.primaryLight,
+  },
+  queueBannerError: {
+    backgroundColor: Colors.errorLight,
+  },
+  queueBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.textPrimary,
+  },
+  queueBannerAction: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: Colors.primary,
+  },
   header: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -312,12 +1161,41 @@ const styles = StyleSheet.create({
     paddingBottom: 12,
   },
   sectionTitle: {
+    flex: 1,
+    marginRight: 12,
     fontSize: 14,
     fontWeight: "700",
     color: Colors.textSecondary,
     textTransform: "uppercase",
     letterSpacing: 0.5,
   },
+  headerButtons: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  breadcrumbs: {
+    flexGrow: 0,
+    marginBottom: 4,
+  },
+  breadcrumbsContent: {
+    paddingHorizontal: 20,
+    alignItems: "center",
+  },
+  breadcrumb: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginRight: 4,
+  },
+  breadcrumbText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.primary,
+    paddingVertical: 4,
+  },
+  breadcrumbTextCurrent: {
+    color: Colors.textPrimary,
+  },
   filterButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -387,6 +1265,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: Colors.textPrimary,
   },
+  dangerOptionText: {
+    color: Colors.error,
+  },
   selectedFilterOptionText: {
     color: Colors.primaryDark,
     fontWeight: "700",
@@ -2,11 +2,18 @@
  * Inbox Screen - Files shared with the current user.
  */
 
-import { LoadingSpinner, Toast } from "@/components/ui";
+import {
+  FileThumbnail,
+  LoadingSpinner,
+  SelectionBar,
+  Toast,
+} from "@/components/ui";
 import { Colors } from "@/constants/theme";
 import {
+  bulkDownload,
+  describeBulkResult,
   formatTimestamp,
-  getFileIcon,
+  getFileCategory,
   getFriendlyFileLabel,
   getSharedWithMe,
   isLoggedIn,
@@ -14,8 +21,9 @@ import {
 } from "@/services";
 import { Ionicons } from "@expo/vector-icons";
 import { router, useFocusEffect } from "expo-router";
-import React, { useCallback, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import {
+  BackHandler,
   FlatList,
   Modal,
   RefreshControl,
@@ -36,6 +44,10 @@ export default function InboxScreen() {
   });
   const [selectedFilter, setSelectedFilter] = useState("all");
   const [showFilterModal, setShowFilterModal] = useState(false);
+  // Multi-select (long-press a file to start)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [downloading, setDownloading] = useState(false);
+  const selecting = selectedIds.size > 0;
 
   const filterOptions = [
     { key: "all", label: "All" },
@@ -53,6 +65,26 @@ export default function InboxScreen() {
     }, []),
   );
 
+  // Back ends the selection
+  useFocusEffect(
+    useCallback(() => {
+      if (!selecting) return;
+      const subscription = BackHandler.addEventListener(
+        "hardwareBackPress",
+        () => {
+          setSelectedIds(new Set());
+          return true;
+        },
+      );
+      return () => subscription.remove();
+    }, [selecting]),
+  );
+
+  // Selection only covers the files the filter shows
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [selectedFilter]);
+
   async function checkAuthAndLoad() {
     try {
       const loggedIn = await isLoggedIn();
@@ -109,7 +141,10 @@ export default function InboxScreen() {
 
       setToast({
         visible: true,
-        message: error.message || "Failed to load inbox",
+        message:
+          error.attempts > 1
+            ? `Server is not responding (tried ${error.attempts} times). Pull to refresh to try again.`
+            : error.message || "Failed to load inbox",
         type: "error",
       });
     } finally {
@@ -117,34 +152,11 @@ export default function InboxScreen() {
     }
   }
 
-  function getFileType(fileName: string): string {
-    const extension = fileName.split(".").pop()?.toLowerCase() || "";
-    const docs = [
-      "pdf",
-      "doc",
-      "docx",
-      "xls",
-      "xlsx",
-      "ppt",
-      "pptx",
-      "txt",
-      "csv",
-    ];
-    const images = ["jpg", "jpeg", "png", "gif", "webp", "bmp"];
-    const videos = ["mp4", "mkv", "avi", "mov", "webm"];
-    const audio = ["mp3", "wav", "aac", "m4a", "ogg"];
-    if (docs.includes(extension)) return "documents";
-    if (images.includes(extension)) return "images";
-    if (videos.includes(extension)) return "videos";
-    if (audio.includes(extension)) return "audio";
-    return "others";
-  }
-
   const filteredSharedFiles =
     selectedFilter === "all"
       ? sharedFiles
       : sharedFiles.filter(
-          (s) => getFileType(s.fileName ?? "") === selectedFilter,
+          (s) => getFileCategory(s.fileType, s.fileName) === selectedFilter,
         );
 
   async function handleRefresh() {
@@ -153,7 +165,50 @@ export default function InboxScreen() {
     setRefreshing(false);
   }
 
+  function toggleSelected(file: FileMetadata) {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      const id = String(file.id);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }
+
+  // Files shared with you can only be downloaded; the sender owns them
+  async function handleDownloadSelected() {
+    const selectedFiles = filteredSharedFiles.filter((file) =>
+      selectedIds.has(String(file.id)),
+    );
+    setDownloading(true);
+    try {
+      const result = await bulkDownload(selectedFiles);
+      setSelectedIds(new Set());
+      setToast({
+        visible: true,
+        message: describeBulkResult(result, "download"),
+        type: result.failed.length > 0 ? "error" : "success",
+      });
+    } catch (error: any) {
+      console.error("Failed to download files:", error);
+      setToast({
+        visible: true,
+        message: error.message || "Failed to start downloads",
+        type: "error",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  }
+
   async function handleOpenFile(file: FileMetadata) {
+    if (selecting) {
+      toggleSelected(file);
+      return;
+    }
     // Navigate to file viewer to display details first
     try {
       console.log(
@@ -177,18 +232,16 @@ export default function InboxScreen() {
   }
 
   function renderSharedFileItem({ item }: { item: FileMetadata }) {
+    const selected = selectedIds.has(String(item.id));
     return (
       <TouchableOpacity
-        style={styles.fileItem}
+        style={[styles.fileItem, selected && styles.fileItemSelected]}
         onPress={() => handleOpenFile(item)}
+        onLongPress={() => toggleSelected(item)}
         activeOpacity={0.7}
       >
         <View style={styles.iconContainer}>
-          <Ionicons
-            name={getFileIcon(item.fileType, "outline")}
-            size={28}
-            color={Colors.primary}
-          />
+          <FileThumbnail file={item} />
         </View>
 
         <View style={styles.infoContainer}>
@@ -204,12 +257,21 @@ export default function InboxScreen() {
           </Text>
         </View>
 
-        <Ionicons
-          name="chevron-forward"
-          size={24}
-          color={Colors.textMuted}
-          style={styles.chevron}
-        />
+        {selecting ? (
+          <Ionicons
+            name={selected ? "checkmark-circle" : "ellipse-outline"}
+            size={24}
+            color={selected ? Colors.primary : Colors.iconMuted}
+            style={styles.checkbox}
+          />
+        ) : (
+          <Ionicons
+            name="chevron-forward"
+            size={24}
+            color={Colors.textMuted}
+            style={styles.chevron}
+          />
+        )}
       </TouchableOpacity>
     );
   }
@@ -227,18 +289,40 @@ export default function InboxScreen() {
         onDismiss={() => setToast({ ...toast, visible: false })}
       />
 
-      <View style={styles.header}>
-        <Text style={styles.sectionTitle}>
-          Shared With Me ({filteredSharedFiles.length})
-        </Text>
-        <TouchableOpacity
-          style={styles.filterButton}
-          onPress={() => setShowFilterModal(true)}
-        >
-          <Ionicons name="filter" size={20} color={Colors.primary} />
-          <Text style={styles.filterButtonText}>Filter</Text>
-        </TouchableOpacity>
-      </View>
+      {selecting ? (
+        <SelectionBar
+          count={selectedIds.size}
+          total={filteredSharedFiles.length}
+          busy={downloading}
+          onSelectAll={() =>
+            setSelectedIds(
+              new Set(filteredSharedFiles.map((file) => String(file.id))),
+            )
+          }
+          onClear={() => setSelectedIds(new Set())}
+          actions={[
+            {
+              key: "download",
+              label: "Download",
+              icon: "download-outline",
+              onPress: handleDownloadSelected,
+            },
+          ]}
+        />
+      ) : (
+        <View style={styles.header}>
+          <Text style={styles.sectionTitle}>
+            Shared With Me ({filteredSharedFiles.length})
+          </Text>
+          <TouchableOpacity
+            style={styles.filterButton}
+            onPress={() => setShowFilterModal(true)}
+          >
+            <Ionicons name="filter" size={20} color={Colors.primary} />
+            <Text style={styles.filterButtonText}>Filter</Text>
+          </TouchableOpacity>
+        </View>
+      )}
 
       {filteredSharedFiles.length === 0 ? (
         <View style={styles.emptyState}>
@@ -351,6 +435,10 @@ const styles = StyleSheet.create({
     shadowRadius: 10,
     elevation: 5,
   },
+  fileItemSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primaryLight,
+  },
   unreadItem: {
     backgroundColor: Colors.primaryLight,
     borderColor: Colors.primary,
@@ -411,6 +499,9 @@ const styles = StyleSheet.create({
     marginLeft: 12,
     opacity: 0.5,
   },
+  checkbox: {
+    marginLeft: 12,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: "rgba(0, 0, 0, 0.5)",
@@ -2,13 +2,23 @@
  * Profile Screen - Display user info from backend.
  */
 
-import { Toast } from "@/components/ui";
+import { ConfirmationModal, Toast } from "@/components/ui";
 import { Colors } from "@/constants/theme";
 import {
+  CACHE_SIZE_LIMIT_OPTIONS,
+  clearFileCache,
+  formatFileSize,
   formatTimestamp,
+  getFileCacheUsage,
   getLoggedInUser,
   logout,
+  purgeExpiredTrash,
   refreshUserProfile,
+  getTrashRetentionDays,
+  setCacheSizeLimit,
+  setTrashRetentionDays,
+  TRASH_RETENTION_OPTIONS,
+  type FileCacheUsage,
   type StoredUserProfile,
 } from "@/services";
 import { Ionicons } from "@expo/vector-icons";
@@ -29,6 +39,11 @@ export default function ProfileScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
+  const [cacheUsage, setCacheUsage] = useState<FileCacheUsage | null>(null);
+  const [showClearCacheModal, setShowClearCacheModal] = useState(false);
+  const [trashRetention, setTrashRetention] = useState<number | null>(null);
+  // Shorter retention waiting for confirmation (it purges older files)
+  const [pendingRetention, setPendingRetention] = useState<number | null>(null);
   const [toast, setToast] = useState({
     visible: false,
     message: "",
@@ -38,6 +53,12 @@ export default function ProfileScreen() {
   useFocusEffect(
     useCallback(() => {
       loadUserData();
+      loadCacheUsage();
+      getTrashRetentionDays()
+        .then(setTrashRetention)
+        .catch((error) =>
+          console.error("❌ Failed to load trash retention:", error),
+        );
     }, []),
   );
 
@@ -88,6 +109,91 @@ export default function ProfileScreen() {
     }
   }
 
+  async function loadCacheUsage() {
+    try {
+      setCacheUsage(await getFileCacheUsage());
+    } catch (error) {
+      console.error("❌ Failed to load cache usage:", error);
+    }
+  }
+
+  function handleSelectTrashRetention(days: number) {
+    if (days === trashRetention) return;
+    const shorter =
+      days > 0 &&
+      (trashRetention === null ||
+        trashRetention === 0 ||
+        days < trashRetention);
+    if (shorter) {
+      setPendingRetention(days);
+    } else {
+      handleSetTrashRetention(days);
+    }
+  }
+
+  async function handleSetTrashRetention(days: number) {
+    setPendingRetention(null);
+    setTrashRetention(days);
+    try {
+      await setTrashRetentionDays(days);
+      const purged = await purgeExpiredTrash().catch((err) => {
+        console.warn("⚠️ Could not purge expired trash:", err);
+        return 0;
+      });
+      if (purged > 0) {
+        setToast({
+          visible: true,
+          message:
+            purged === 1
+              ? "Deleted 1 file from the trash"
+              : `Deleted ${purged} files from the trash`,
+          type: "success",
+        });
+      }
+    } catch (error: any) {
+      console.error("Failed to change trash retention:", error);
+      setToast({
+        visible: true,
+        message: "Failed to change trash retention",
+        type: "error",
+      });
+    }
+  }
+
+  async function handleSetCacheLimit(bytes: number) {
+    try {
+      await setCacheSizeLimit(bytes);
+      await loadCacheUsage();
+    } catch (error: any) {
+      console.error("Failed to change cache limit:", error);
+      setToast({
+        visible: true,
+        message: "Failed to change cache size limit",
+        type: "error",
+      });
+    }
+  }
+
+  async function confirmClearCache() {
+    setShowClearCacheModal(false);
+    try {
+      const freed = await clearFileCache();
+      await loadCacheUsage();
+      setToast({
+        visible: true,
+        message: `Freed ${formatFileSize(freed)}`,
+        type: "success",
+      });
+    } catch (error: any) {
+      console.error("Failed to clear cache:", error);
+      setToast({
+        visible: true,
+        message: "Failed to clear cache",
+        type: "error",
+      });
+    }
+  }
+
   async function handleRefresh() {
     setRefreshing(true);
     try {
@@ -260,6 +366,141 @@ export default function ProfileScreen() {
         </View>
       </View>
 
+      {/* Storage */}
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Offline Storage</Text>
+        {cacheUsage && (
+          <>
+            <Text style={styles.usageText}>
+              {formatFileSize(cacheUsage.totalBytes)} of{" "}
+              {formatFileSize(cacheUsage.limitBytes)} used
+            </Text>
+            <View style={styles.usageTrack}>
+              <View
+                style={[
+                  styles.usageFill,
+                  {
+                    width: `${Math.min(
+                      100,
+                      (cacheUsage.totalBytes / cacheUsage.limitBytes) * 100,
+                    )}%`,
+                  },
+                ]}
+              />
+            </View>
+            <Text style={styles.usageSubtext}>
+              {cacheUsage.fileCount} file(s) cached, {cacheUsage.pinnedCount}{" "}
+              kept offline
+            </Text>
+
+            <Text style={[styles.infoLabel, styles.limitLabel]}>
+              Cache size limit
+            </Text>
+            <View style={styles.limitOptions}>
+              {CACHE_SIZE_LIMIT_OPTIONS.map((bytes) => {
+                const selected = bytes === cacheUsage.limitBytes;
+                return (
+                  <TouchableOpacity
+                    key={bytes}
+                    style={[
+                      styles.limitChip,
+                      selected && styles.limitChipActive,
+                    ]}
+                    onPress={() => handleSetCacheLimit(bytes)}
+                    activeOpacity={0.7}
+                  >
+                    <Text
+                      style={[
+                        styles.limitChipText,
+                        selected && styles.limitChipTextActive,
+                      ]}
+                    >
+                      {formatFileSize(bytes)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </>
+        )}
+
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => setShowClearCacheModal(true)}
+          activeOpacity={0.7}
+        >
+          <Ionicons
+            name="trash-outline"
+            size={20}
+            color={Colors.error}
+            style={styles.infoIcon}
+          />
+          <Text style={[styles.linkText, styles.linkTextDanger]}>
+            Clear cache
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => router.push("/downloads")}
+          activeOpacity={0.7}
+        >
+          <Ionicons
+            name="download-outline"
+            size={20}
+            color={Colors.primary}
+            style={styles.infoIcon}
+          />
+          <Text style={styles.linkText}>Downloads</Text>
+          <Ionicons name="chevron-forward" size={20} color={Colors.iconMuted} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Trash */}
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Trash</Text>
+        <Text style={[styles.infoLabel, styles.retentionLabel]}>
+          Delete files in the trash after
+        </Text>
+        <View style={styles.limitOptions}>
+          {TRASH_RETENTION_OPTIONS.map((days) => {
+            const selected = days === trashRetention;
+            return (
+              <TouchableOpacity
+                key={days}
+                style={[styles.limitChip, selected && styles.limitChipActive]}
+                onPress={() => handleSelectTrashRetention(days)}
+                activeOpacity={0.7}
+              >
+                <Text
+                  style={[
+                    styles.limitChipText,
+                    selected && styles.limitChipTextActive,
+                  ]}
+                >
+                  {days > 0 ? `${days} days` : "Never"}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <TouchableOpacity
+          style={styles.linkRow}
+          onPress={() => router.push("/trash")}
+          activeOpacity={0.7}
+        >
+          <Ionicons
+            name="trash-outline"
+            size={20}
+            color={Colors.primary}
+            style={styles.infoIcon}
+          />
+          <Text style={styles.linkText}>Trash</Text>
+          <Ionicons name="chevron-forward" size={20} color={Colors.iconMuted} />
+        </TouchableOpacity>
+      </View>
+
       {/* Logout Button */}
       <View style={styles.actionSection}>
         <TouchableOpacity
@@ -279,6 +520,29 @@ export default function ProfileScreen() {
         </TouchableOpacity>
       </View>
 
+      <ConfirmationModal
+        visible={showClearCacheModal}
+        title="Clear Cache"
+        message="Delete all downloaded files from this device? Files kept available offline are not removed."
+        confirmText="Clear"
+        type="warning"
+        onConfirm={confirmClearCache}
+        onCancel={() => setShowClearCacheModal(false)}
+      />
+
+      <ConfirmationModal
+        visible={pendingRetention !== null}
+        title="Shorten Retention"
+        message={`Files that have been in the trash for more than ${pendingRetention} days will be deleted forever now. This action cannot be undone.`}
+        confirmText="Delete Older Files"
+        cancelText="Cancel"
+        type="danger"
+        onConfirm={() =>
+          pendingRetention !== null && handleSetTrashRetention(pendingRetention)
+        }
+        onCancel={() => setPendingRetention(null)}
+      />
+
       {/* Additional Info */}
       <View style={styles.footerSection}>
         <Text style={styles.footerText}>App Version 1.0.0</Text>
@@ -374,6 +638,83 @@ const styles = StyleSheet.create({
     color: Colors.textPrimary,
     fontWeight: "500",
   },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: Colors.textPrimary,
+    marginBottom: 12,
+  },
+  usageText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.textPrimary,
+    marginBottom: 8,
+  },
+  usageTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.backgroundAccent,
+    overflow: "hidden",
+  },
+  usageFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.primary,
+  },
+  usageSubtext: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 6,
+  },
+  limitLabel: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  retentionLabel: {
+    marginBottom: 8,
+  },
+  limitOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  limitChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.backgroundWhite,
+  },
+  limitChipActive: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primaryLight,
+  },
+  limitChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.textSecondary,
+  },
+  limitChipTextActive: {
+    color: Colors.primary,
+  },
+  linkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.borderLight,
+  },
+  linkTextDanger: {
+    color: Colors.error,
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.textPrimary,
+    fontWeight: "600",
+  },
   actionSection: {
     marginBottom: 24,
   },
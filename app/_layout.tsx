@@ -5,51 +5,93 @@ import {
 } from "@react-navigation/native";
 import { Stack } from "expo-router";
 import { StatusBar } from "expo-status-bar";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
 import "react-native-reanimated";
 
+import { RetryBanner } from "@/components/ui";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
   return (
-    <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
-      <Stack>
-        {/* Login & Signup Screens - Initial Routes */}
-        <Stack.Screen
-          name="index"
-          options={{
-            headerShown: false,
-          }}
-        />
-
-        <Stack.Screen
-          name="signup"
-          options={{
-            title: "Sign Up",
-            headerBackTitle: "Login",
-          }}
-        />
-
-        {/* Main App with Bottom Tabs */}
-        <Stack.Screen
-          name="(tabs)"
-          options={{
-            headerShown: false,
-          }}
-        />
-
-        {/* File Viewer Screen - Modal on top of tabs */}
-        <Stack.Screen
-          name="file-viewer"
-          options={{
-            title: "File Details",
-            headerBackTitle: "Back",
-            presentation: "card",
-          }}
-        />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    // Gesture root for pinch-zoom in the file preview
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
+        <Stack>
+          {/* Login & Signup Screens - Initial Routes */}
+          <Stack.Screen
+            name="index"
+            options={{
+              headerShown: false,
+            }}
+          />
+
+          <Stack.Screen
+            name="signup"
+            options={{
+              title: "Sign Up",
+              headerBackTitle: "Login",
+            }}
+          />
+
+          {/* Main App with Bottom Tabs */}
+          <Stack.Screen
+            name="(tabs)"
+            options={{
+              headerShown: false,
+            }}
+          />
+
+          {/* File Viewer Screen - Modal on top of tabs */}
+          <Stack.Screen
+            name="file-viewer"
+            options={{
+              title: "File Details",
+              headerBackTitle: "Back",
+              presentation: "card",
+            }}
+          />
+
+          {/* In-app preview for images and text files */}
+          <Stack.Screen
+            name="file-preview"
+            options={{
+              title: "Preview",
+              headerBackTitle: "Back",
+            }}
+          />
+
+          {/* In-app audio and video player */}
+          <Stack.Screen
+            name="media-player"
+            options={{
+              title: "Player",
+              headerBackTitle: "Back",
+            }}
+          />
+
+          {/* Downloads list (opened from Profile) */}
+          <Stack.Screen
+            name="downloads"
+            options={{
+              title: "Downloads",
+              headerBackTitle: "Back",
+            }}
+          />
+
+          {/* Deleted files (opened from Profile) */}
+          <Stack.Screen
+            name="trash"
+            options={{
+              title: "Trash",
+              headerBackTitle: "Back",
+            }}
+          />
+        </Stack>
+        <RetryBanner />
+        <StatusBar style="auto" />
+      </ThemeProvider>
+    </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,277 @@
+/**
+ * Downloads Screen - Progress of file downloads with pause, resume and cancel.
+ */
+
+import { Toast } from "@/components/ui";
+import { Colors } from "@/constants/theme";
+import { useDownloads } from "@/hooks/use-downloads";
+import {
+  cancelDownload,
+  describeContentMismatch,
+  formatFileSize,
+  getFileIcon,
+  openDownload,
+  pauseDownload,
+  refreshDownloads,
+  removeDownload,
+  resumeDownload,
+  type DownloadItem,
+  type UploadProgress,
+} from "@/services";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const HIT_SLOP = { top: 10, bottom: 10, left: 10, right: 10 };
+
+function getDownloadBytes(
+  item: DownloadItem,
+  progress: Record<number, UploadProgress>,
+): UploadProgress {
+  const live = progress[item.id];
+  const total = live?.total || item.totalBytes || 0;
+  if (item.state === "done") return { loaded: total, total };
+  if (live) return { loaded: live.loaded, total };
+  return { loaded: item.bytesWritten, total };
+}
+
+export default function DownloadsScreen() {
+  const { items, progress } = useDownloads();
+  const [toast, setToast] = useState({
+    visible: false,
+    message: "",
+    type: "success" as "success" | "error" | "info",
+  });
+
+  // Files may have been evicted from the cache since the list was loaded
+  useFocusEffect(
+    useCallback(() => {
+      refreshDownloads();
+    }, []),
+  );
+
+  async function handleOpen(item: DownloadItem) {
+    try {
+      const content = await openDownload(item);
+      const warning = describeContentMismatch(content, item.fileName);
+      if (warning) {
+        setToast({ visible: true, message: warning, type: "info" });
+      }
+    } catch (error: any) {
+      console.error("Failed to open download:", error);
+      setToast({
+        visible: true,
+        message: error.message || "Failed to open file",
+        type: "error",
+      });
+    }
+  }
+
+  function renderItem({ item }: { item: DownloadItem }) {
+    const bytes = getDownloadBytes(item, progress);
+    const percent =
+      bytes.total > 0 ? Math.min(100, (bytes.loaded / bytes.total) * 100) : 0;
+    const isActive = item.state === "downloading" || item.state === "paused";
+
+    const statusText =
+      item.state === "done"
+        ? formatFileSize(bytes.total)
+        : item.state === "failed"
+          ? item.error || "Failed"
+          : item.state === "cancelled"
+            ? "Cancelled"
+            : item.state === "paused"
+              ? `Paused at ${formatFileSize(bytes.loaded)} of ${formatFileSize(bytes.total)}`
+              : `${formatFileSize(bytes.loaded)} of ${formatFileSize(bytes.total)}`;
+
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => handleOpen(item)}
+        disabled={item.state !== "done"}
+        activeOpacity={0.7}
+      >
+        <Ionicons
+          name={getFileIcon(item.fileType || "", "outline")}
+          size={28}
+          color={Colors.primary}
+        />
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowName} numberOfLines={1}>
+            {item.fileName}
+          </Text>
+          {item.state !== "done" && (
+            <View style={styles.track}>
+              <View
+                style={[
+                  styles.fill,
+                  { width: `${percent}%` },
+                  item.state === "failed" && styles.fillError,
+                ]}
+              />
+            </View>
+          )}
+          <Text
+            style={[
+              styles.rowStatus,
+              item.state === "failed" && styles.rowStatusError,
+            ]}
+            numberOfLines={1}
+          >
+            {statusText}
+          </Text>
+        </View>
+        {item.state === "downloading" && (
+          <TouchableOpacity
+            onPress={() => pauseDownload(item.id)}
+            hitSlop={HIT_SLOP}
+          >
+            <Ionicons name="pause-circle" size={24} color={Colors.primary} />
+          </TouchableOpacity>
+        )}
+        {(item.state === "paused" || item.state === "failed") && (
+          <TouchableOpacity
+            onPress={() => resumeDownload(item.id)}
+            hitSlop={HIT_SLOP}
+          >
+            <Ionicons
+              name={item.state === "failed" ? "refresh-circle" : "play-circle"}
+              size={24}
+              color={Colors.primary}
+            />
+          </TouchableOpacity>
+        )}
+        {isActive ? (
+          <TouchableOpacity
+            onPress={() => cancelDownload(item.id)}
+            hitSlop={HIT_SLOP}
+          >
+            <Ionicons name="close-circle" size={24} color={Colors.error} />
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            onPress={() => removeDownload(item.id)}
+            hitSlop={HIT_SLOP}
+          >
+            <Ionicons name="trash-outline" size={22} color={Colors.iconMuted} />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Toast
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        onDismiss={() => setToast({ ...toast, visible: false })}
+      />
+
+      <FlatList
+        data={items}
+        keyExtractor={(item) => String(item.id)}
+        renderItem={renderItem}
+        contentContainerStyle={
+          items.length === 0 ? styles.emptyContainer : styles.listContent
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons
+              name="download-outline"
+              size={64}
+              color={Colors.iconMuted}
+            />
+            <Text style={styles.emptyText}>No downloads yet</Text>
+            <Text style={styles.emptySubtext}>
+              Files you open are downloaded here
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  listContent: {
+    padding: 16,
+  },
+  emptyContainer: {
+    flexGrow: 1,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: Colors.textSecondary,
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.backgroundWhite,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: Colors.shadow,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.textPrimary,
+    marginBottom: 6,
+  },
+  rowStatus: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 4,
+  },
+  rowStatusError: {
+    color: Colors.error,
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.backgroundAccent,
+    overflow: "hidden",
+  },
+  fill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.primary,
+  },
+  fillError: {
+    backgroundColor: Colors.error,
+  },
+});
@@ -0,0 +1,339 @@
+/**
+ * File Preview Screen - In-app preview of images and text files.
+ * Images can be zoomed and swiped through (other images from the same list);
+ * text, code, CSV, JSON and Markdown are rendered with light formatting.
+ */
+
+import { TextPreview, Toast, ZoomableImage } from "@/components/ui";
+import { Colors } from "@/constants/theme";
+import { useOpenFile } from "@/hooks/use-open-file";
+import {
+  describeOpenFileEvent,
+  getMyFiles,
+  getPreviewKind,
+  getSharedWithMe,
+  loadTextPreview,
+  openFile,
+  releaseOpenedFile,
+  type FileMetadata,
+  type OpenFileResult,
+  type OpenFileSource,
+  type PreviewKind,
+  type TextPreviewContent,
+} from "@/services";
+import { Ionicons } from "@expo/vector-icons";
+import { router, Stack, useLocalSearchParams } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useWindowDimensions,
+  View,
+} from "react-native";
+
+interface PageProps {
+  file: FileMetadata;
+  source: OpenFileSource;
+}
+
+// Download progress / error shown until a page's file is on the device
+function PageStatus({
+  label,
+  error,
+  dark,
+}: {
+  label: string;
+  error?: string | null;
+  dark?: boolean;
+}) {
+  const color = dark ? Colors.textWhite : Colors.textSecondary;
+  return (
+    <View style={styles.status}>
+      {error ? (
+        <Ionicons name="alert-circle" size={40} color={Colors.error} />
+      ) : (
+        <ActivityIndicator size="large" color={dark ? color : Colors.primary} />
+      )}
+      <Text style={[styles.statusText, { color }]}>{error ?? label}</Text>
+    </View>
+  );
+}
+
+function ImagePage({
+  file,
+  source,
+  width,
+  onZoomChange,
+}: PageProps & { width: number; onZoomChange: (zoomed: boolean) => void }) {
+  const { event, open } = useOpenFile();
+  const [uri, setUri] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    let opened: OpenFileResult | null = null;
+    open(file, { source, openWith: "none" })
+      .then((result) => {
+        if (!active) {
+          releaseOpenedFile(result);
+          return;
+        }
+        opened = result;
+        setUri(result.localUri);
+      })
+      .catch(
+        (err) => active && setError(err.message || "Failed to load image"),
+      );
+    return () => {
+      active = false;
+      if (opened) releaseOpenedFile(opened);
+    };
+  }, [file, source, open]);
+
+  return (
+    <View style={{ width }}>
+      {uri ? (
+        <ZoomableImage uri={uri} onZoomChange={onZoomChange} />
+      ) : (
+        <PageStatus
+          label={event ? describeOpenFileEvent(event) : "Loading..."}
+          error={error}
+          dark
+        />
+      )}
+    </View>
+  );
+}
+
+function TextPage({
+  file,
+  source,
+  kind,
+}: PageProps & { kind: Exclude<PreviewKind, "image"> }) {
+  const { event, open } = useOpenFile();
+  const [content, setContent] = useState<TextPreviewContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    open(file, { source, openWith: "none" })
+      .then((result) =>
+        loadTextPreview(result.localUri).finally(() =>
+          releaseOpenedFile(result),
+        ),
+      )
+      .then(setContent)
+      .catch((err) => setError(err.message || "Failed to load file"));
+  }, [file, source, open]);
+
+  if (!content) {
+    return (
+      <PageStatus
+        label={event ? describeOpenFileEvent(event) : "Loading..."}
+        error={error}
+      />
+    );
+  }
+  return (
+    <TextPreview
+      kind={kind}
+      text={content.text}
+      truncated={content.truncated}
+    />
+  );
+}
+
+export default function FilePreviewScreen() {
+  const params = useLocalSearchParams<{
+    fileData: string;
+    source?: OpenFileSource;
+  }>();
+  const source: OpenFileSource =
+    params.source === "shared" ? "shared" : "owned";
+  const { width } = useWindowDimensions();
+
+  const [initialFile] = useState<FileMetadata | null>(() => {
+    try {
+      return JSON.parse(params.fileData) as FileMetadata;
+    } catch {
+      return null;
+    }
+  });
+  const [images, setImages] = useState<FileMetadata[]>(
+    initialFile ? [initialFile] : [],
+  );
+  const [index, setIndex] = useState(0);
+  const [zoomed, setZoomed] = useState(false);
+  const [openingExternally, setOpeningExternally] = useState(false);
+  const [toast, setToast] = useState({
+    visible: false,
+    message: "",
+    type: "error" as "success" | "error" | "info",
+  });
+
+  const kind = initialFile
+    ? getPreviewKind(initialFile.fileType, initialFile.fileName)
+    : null;
+  const currentFile = images[index] ?? initialFile;
+
+  useEffect(() => {
+    if (!initialFile) {
+      router.back();
+    }
+  }, [initialFile]);
+
+  // Images can be swiped through the rest of the list they came from
+  useEffect(() => {
+    if (!initialFile || kind !== "image") return;
+    let active = true;
+    (source === "owned" ? getMyFiles() : getSharedWithMe())
+      .then((files) => {
+        const list = files.filter(
+          (file) => getPreviewKind(file.fileType, file.fileName) === "image",
+        );
+        const position = list.findIndex(
+          (file) => String(file.id) === String(initialFile.id),
+        );
+        if (active && position >= 0) {
+          setImages(list);
+          setIndex(position);
+        }
+      })
+      .catch((error) =>
+        console.warn("⚠️ Could not load images for swiping:", error),
+      );
+    return () => {
+      active = false;
+    };
+  }, [initialFile, kind, source]);
+
+  async function handleOpenExternally() {
+    if (!currentFile) return;
+    setOpeningExternally(true);
+    try {
+      await openFile(currentFile, { source });
+    } catch (error: any) {
+      setToast({
+        visible: true,
+        message: error.message || "No app available to open this file",
+        type: "error",
+      });
+    } finally {
+      setOpeningExternally(false);
+    }
+  }
+
+  if (!initialFile || !currentFile) return null;
+
+  return (
+    <View style={[styles.container, kind === "image" && styles.imageContainer]}>
+      <Stack.Screen
+        options={{
+          title: currentFile.fileName,
+          headerRight: () =>
+            openingExternally ? (
+              <ActivityIndicator color={Colors.primary} />
+            ) : (
+              <TouchableOpacity
+                onPress={handleOpenExternally}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons
+                  name="open-outline"
+                  size={22}
+                  color={Colors.primary}
+                />
+              </TouchableOpacity>
+            ),
+        }}
+      />
+      <Toast
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        onDismiss={() => setToast({ ...toast, visible: false })}
+      />
+
+      {kind === "image" ? (
+        <>
+          <FlatList
+            key={images.length}
+            data={images}
+            keyExtractor={(file) => String(file.id)}
+            horizontal
+            pagingEnabled
+            scrollEnabled={!zoomed}
+            showsHorizontalScrollIndicator={false}
+            initialScrollIndex={index}
+            getItemLayout={(_data, itemIndex) => ({
+              length: width,
+              offset: width * itemIndex,
+              index: itemIndex,
+            })}
+            // Only the visible page and its neighbours are mounted
+            initialNumToRender={1}
+            maxToRenderPerBatch={1}
+            windowSize={3}
+            onMomentumScrollEnd={(event) =>
+              setIndex(Math.round(event.nativeEvent.contentOffset.x / width))
+            }
+            renderItem={({ item }) => (
+              <ImagePage
+                file={item}
+                source={source}
+                width={width}
+                onZoomChange={setZoomed}
+              />
+            )}
+          />
+          {images.length > 1 && (
+            <Text style={styles.counter}>
+              {index + 1} / {images.length}
+            </Text>
+          )}
+        </>
+      ) : kind ? (
+        <TextPage file={initialFile} source={source} kind={kind} />
+      ) : (
+        <PageStatus label="" error="This file type cannot be previewed" />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.backgroundWhite,
+  },
+  imageContainer: {
+    backgroundColor: Colors.textPrimary,
+  },
+  status: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+    gap: 12,
+  },
+  statusText: {
+    fontSize: 15,
+    fontWeight: "500",
+    textAlign: "center",
+  },
+  counter: {
+    position: "absolute",
+    bottom: 32,
+    alignSelf: "center",
+    color: Colors.textWhite,
+    fontSize: 14,
+    fontWeight: "600",
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+});
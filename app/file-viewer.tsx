@@ -1,26 +1,43 @@
 /**
- * File Viewer Screen - View file details, share with users, open/delete.
+ * File Viewer Screen - View file details, share with users, open/rename/
+ * move/copy/delete.
  */
 
 import {
   Button,
   ConfirmationModal,
+  FolderPickerModal,
   LoadingSpinner,
   Toast,
 } from "@/components/ui";
 import { Colors } from "@/constants/theme";
+import { useFileExport, type FileExportAction } from "@/hooks/use-file-export";
+import { useFileIntegrity } from "@/hooks/use-file-integrity";
+import { useFileTransfer } from "@/hooks/use-file-transfer";
+import { useOfflinePin } from "@/hooks/use-offline-pin";
+import { useOpenFile } from "@/hooks/use-open-file";
 import {
-  deleteFile,
   formatFileSize,
   formatTimestamp,
   getFileDetailsById,
   getFileIcon,
+  describeContentMismatch,
+  describeFileIntegrity,
+  describeOpenFileEvent,
+  describeTransferResult,
+  getFileExtension,
   getFriendlyFileLabel,
+  getMediaKind,
+  getPreviewKind,
   getLoggedInUser,
   getUsers,
-  openMyFile,
+  moveToTrash,
+  renameFile,
   shareFile,
+  validateFileName,
   type FileMetadata,
+  type FileTransferMode,
+  type Folder,
   type User,
 } from "@/services";
 import { Ionicons } from "@expo/vector-icons";
@@ -32,6 +49,7 @@ import {
   Modal,
   ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
@@ -42,7 +60,6 @@ export default function FileViewerScreen() {
   const { fileId } = useLocalSearchParams<{ fileId: string }>();
   const [file, setFile] = useState<FileMetadata | null>(null);
   const [loading, setLoading] = useState(true);
-  const [opening, setOpening] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<number | null>(null);
 
@@ -54,13 +71,32 @@ export default function FileViewerScreen() {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [sharing, setSharing] = useState(false);
 
+  const { event: openEvent, opening, open } = useOpenFile();
+  const offline = useOfflinePin(file);
+  const integrity = useFileIntegrity(file);
+  const fileExport = useFileExport("owned");
+  const exporting = fileExport.action !== null;
+  const fileTransfer = useFileTransfer();
+  const transferring = fileTransfer.mode !== null;
+  // Move or copy whose destination is being picked
+  const [transferPicker, setTransferPicker] = useState<FileTransferMode | null>(
+    null,
+  );
+
   const [toast, setToast] = useState({
     visible: false,
     message: "",
-    type: "success" as "success" | "error",
+    type: "success" as "success" | "error" | "info",
   });
   const [showDeleteModal, setShowDeleteModal] = useState(false);
 
+  // Inline rename state
+  const [editingName, setEditingName] = useState(false);
+  const [nameDraft, setNameDraft] = useState("");
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [savingName, setSavingName] = useState(false);
+  const [showExtensionModal, setShowExtensionModal] = useState(false);
+
   useEffect(() => {
     loadFile();
     loadCurrentUser();
@@ -121,54 +157,144 @@ export default function FileViewerScreen() {
   async function handleOpen() {
     if (!file) return;
 
-    setOpening(true);
+    // Audio and video play in the in-app player
+    if (getMediaKind(file.fileType, file.fileName)) {
+      router.push({
+        pathname: "/media-player",
+        params: { fileData: JSON.stringify(file), source: "owned" },
+      });
+      return;
+    }
+
+    // Images and text files open in the in-app preview
+    if (getPreviewKind(file.fileType, file.fileName)) {
+      router.push({
+        pathname: "/file-preview",
+        params: { fileData: JSON.stringify(file), source: "owned" },
+      });
+      return;
+    }
+
     try {
-      await openMyFile(file);
+      const { content } = await open(file, { source: "owned" });
+      const warning = describeContentMismatch(content, file.fileName);
+      if (warning) {
+        setToast({ visible: true, message: warning, type: "info" });
+      }
     } catch (error: any) {
       console.error("Failed to open file:", error);
+      if (error.status === 401) {
+        setToast({
+          visible: true,
+          message: "Session expired. Please log in again.",
+          type: "error",
+        });
+        setTimeout(() => {
+          router.replace("/");
+        }, 2000);
+        return;
+      }
       setToast({
         visible: true,
         message: error.message || "Failed to open file",
         type: "error",
       });
-    } finally {
-      setOpening(false);
     }
   }
 
-  function handleDelete() {
+  function startRename() {
     if (!file) return;
-    setShowDeleteModal(true);
+    setNameDraft(file.fileName);
+    setNameError(null);
+    setEditingName(true);
   }
 
-  async function confirmDelete() {
+  function cancelRename() {
+    setEditingName(false);
+    setNameError(null);
+  }
+
+  function handleSubmitRename() {
     if (!file) return;
-    setShowDeleteModal(false);
-    setDeleting(true);
+    const newName = nameDraft.trim();
+    if (newName === file.fileName) {
+      cancelRename();
+      return;
+    }
+
+    const validation = validateFileName(newName);
+    if (!validation.valid) {
+      setNameError(validation.error);
+      return;
+    }
+
+    // Ask first: a new extension can change which app opens the file
+    if (getFileExtension(newName) !== getFileExtension(file.fileName)) {
+      setShowExtensionModal(true);
+      return;
+    }
+    saveRename(newName);
+  }
+
+  async function saveRename(newName: string) {
+    if (!file) return;
+    setShowExtensionModal(false);
+    const previousName = file.fileName;
+
+    // Show the new name right away; put the old one back if it fails
+    setFile({ ...file, fileName: newName });
+    setEditingName(false);
+    setSavingName(true);
     try {
-      await deleteFile(file.id);
-      router.back();
+      const updated = await renameFile(file, newName);
+      setFile((current) =>
+        current ? { ...current, fileName: updated.fileName } : current,
+      );
+      setToast({ visible: true, message: "File renamed", type: "success" });
     } catch (error: any) {
-      // Detect 404 Not Found coming from backend (delete API not implemented)
-      const status =
-        error?.status ||
-        error?.original?.status ||
-        error?.original?.response?.status ||
-        error?.code?.includes("404")
-          ? 404
-          : null;
-
-      if (status === 404 || error?.message?.includes("404")) {
-        console.log("🚫 [confirmDelete] Delete API not yet implemented (404)");
+      console.error("Failed to rename file:", error);
+      setFile((current) =>
+        current ? { ...current, fileName: previousName } : current,
+      );
+      if (error.status === 401) {
         setToast({
           visible: true,
-          message: "Delete not available — backend API not yet implemented",
+          message: "Session expired. Please log in again.",
           type: "error",
         });
-        setDeleting(false);
+        setTimeout(() => {
+          router.replace("/");
+        }, 2000);
         return;
       }
+      // Reopen the editor with the rejected name so it can be fixed
+      setNameDraft(newName);
+      setNameError(error.message || "Failed to rename file");
+      setEditingName(true);
+    } finally {
+      setSavingName(false);
+    }
+  }
+
+  function describeExtension(fileName: string): string {
+    const extension = getFileExtension(fileName);
+    return extension ? `".${extension}"` : "no extension";
+  }
 
+  function handleDelete() {
+    if (!file) return;
+    setShowDeleteModal(true);
+  }
+
+  async function confirmDelete() {
+    if (!file) return;
+    setShowDeleteModal(false);
+    setDeleting(true);
+    try {
+      // The dashboard offers Undo once it hears about it
+      await moveToTrash(file);
+      router.back();
+    } catch (error: any) {
       console.error("❌ [confirmDelete] Failed to delete file:", error);
       setToast({
         visible: true,
@@ -294,6 +420,119 @@ export default function FileViewerScreen() {
     }
   }
 
+  async function handleExport(action: FileExportAction) {
+    if (!file) return;
+    try {
+      if (action === "send") {
+        await fileExport.send(file);
+        return;
+      }
+      const result = await fileExport.save(file);
+      if (result.status === "saved") {
+        setToast({
+          visible: true,
+          message: `Saved to ${result.location}`,
+          type: "success",
+        });
+      }
+    } catch (error: any) {
+      console.error("Failed to export file:", error);
+      if (error.status === 401) {
+        setToast({
+          visible: true,
+          message: "Session expired. Please log in again.",
+          type: "error",
+        });
+        setTimeout(() => {
+          router.replace("/");
+        }, 2000);
+        return;
+      }
+      setToast({
+        visible: true,
+        message: error.message || "Failed to export file",
+        type: "error",
+      });
+    }
+  }
+
+  async function handleTransfer(folder: Folder | null) {
+    const mode = transferPicker;
+    setTransferPicker(null);
+    if (!file || !mode) return;
+    try {
+      const result = await fileTransfer.transfer(
+        [file],
+        folder?.id ?? null,
+        mode,
+      );
+      // A moved file may also have been renamed to avoid a collision
+      if (mode === "move" && result.transferred[0]) {
+        const moved = result.transferred[0];
+        setFile((current) =>
+          current
+            ? {
+                ...current,
+                fileName: moved.fileName,
+                folderId: moved.folderId,
+              }
+            : current,
+        );
+      }
+      setToast({
+        visible: true,
+        message: describeTransferResult(
+          result,
+          mode,
+          folder?.name ?? "My Files",
+        ),
+        type:
+          result.failed.length > 0
+            ? "error"
+            : result.transferred.length > 0
+              ? "success"
+              : "info",
+      });
+    } catch (error: any) {
+      console.error("Failed to move or copy file:", error);
+      if (error.status === 401) {
+        setToast({
+          visible: true,
+          message: "Session expired. Please log in again.",
+          type: "error",
+        });
+        setTimeout(() => {
+          router.replace("/");
+        }, 2000);
+        return;
+      }
+      setToast({
+        visible: true,
+        message: error.message || `Failed to ${mode} file`,
+        type: "error",
+      });
+    }
+  }
+
+  async function handleToggleOffline(enabled: boolean) {
+    try {
+      await offline.setPinned(enabled);
+      setToast({
+        visible: true,
+        message: enabled
+          ? "File will stay available offline"
+          : "File is no longer kept offline",
+        type: "success",
+      });
+    } catch (error: any) {
+      setToast({
+        visible: true,
+        message: error.message || "Failed to update offline availability",
+        type: "error",
+      });
+    }
+  }
+
   if (loading) {
     return <LoadingSpinner message="Loading file details..." />;
   }
@@ -318,15 +557,48 @@ export default function FileViewerScreen() {
 
         <ConfirmationModal
           visible={showDeleteModal}
-          title="Delete File"
-          message={`Are you sure you want to delete "${file.fileName}"? This action cannot be undone.`}
-          confirmText="Delete"
+          title="Move to Trash"
+          message={`Move "${file.fileName}" to the trash? You can restore it from Trash (in Profile) until it is purged.`}
+          confirmText="Move to Trash"
           cancelText="Cancel"
           type="danger"
           onConfirm={confirmDelete}
           onCancel={() => setShowDeleteModal(false)}
         />
 
+        <ConfirmationModal
+          visible={!!fileTransfer.collision}
+          title="File Already Exists"
+          message={`"${fileTransfer.collision?.existingFile.fileName ?? ""}" already exists in that folder. Keep both (as "${fileTransfer.collision?.suggestedName ?? ""}"), replace it, or skip?`}
+          confirmText="Keep Both"
+          secondaryText="Replace"
+          cancelText="Skip"
+          type="warning"
+          onConfirm={() => fileTransfer.resolveCollision("rename")}
+          onSecondary={() => fileTransfer.resolveCollision("replace")}
+          onCancel={() => fileTransfer.resolveCollision("skip")}
+        />
+
+        <FolderPickerModal
+          visible={!!transferPicker}
+          title={transferPicker === "copy" ? "Copy To" : "Move To"}
+          confirmText={transferPicker === "copy" ? "Copy Here" : "Move Here"}
+          initialFolderId={file.folderId ?? null}
+          onSelect={handleTransfer}
+          onCancel={() => setTransferPicker(null)}
+        />
+
+        <ConfirmationModal
+          visible={showExtensionModal}
+          title="Change Extension?"
+          message={`Changing the extension from ${describeExtension(file.fileName)} to ${describeExtension(nameDraft.trim())} may stop the file from opening in the right app.`}
+          confirmText="Rename"
+          cancelText="Cancel"
+          type="warning"
+          onConfirm={() => saveRename(nameDraft.trim())}
+          onCancel={() => setShowExtensionModal(false)}
+        />
+
         <View style={styles.content}>
           {/* File Icon */}
           <View style={styles.iconContainer}>
@@ -337,8 +609,63 @@ export default function FileViewerScreen() {
             />
           </View>
 
-          {/* File Name */}
-          <Text style={styles.fileName}>{file.fileName}</Text>
+          {/* File Name (tap to rename) */}
+          {editingName ? (
+            <View style={styles.renameContainer}>
+              <View style={styles.renameRow}>
+                <TextInput
+                  style={[
+                    styles.renameInput,
+                    nameError ? styles.renameInputError : null,
+                  ]}
+                  value={nameDraft}
+                  onChangeText={(text) => {
+                    setNameDraft(text);
+                    setNameError(null);
+                  }}
+                  onSubmitEditing={handleSubmitRename}
+                  autoFocus
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  returnKeyType="done"
+                />
+                <TouchableOpacity
+                  onPress={cancelRename}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons name="close" size={24} color={Colors.textMuted} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleSubmitRename}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons name="checkmark" size={24} color={Colors.primary} />
+                </TouchableOpacity>
+              </View>
+              {nameError && <Text style={styles.renameError}>{nameError}</Text>}
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.fileNameRow}
+              onPress={startRename}
+              disabled={
+                savingName ||
+                opening ||
+                deleting ||
+                sharing ||
+                exporting ||
+                transferring
+              }
+              activeOpacity={0.7}
+            >
+              <Text style={styles.fileName}>{file.fileName}</Text>
+              {savingName ? (
+                <ActivityIndicator color={Colors.primary} size="small" />
+              ) : (
+                <Ionicons name="pencil" size={18} color={Colors.primary} />
+              )}
+            </TouchableOpacity>
+          )}
 
           {/* File Details */}
           <View style={styles.detailsCard}>
@@ -378,6 +705,27 @@ export default function FileViewerScreen() {
                 {formatTimestamp(file.timestamp)}
               </Text>
             </View>
+
+            {/* Shown once the local copy passed verification */}
+            {integrity && (
+              <>
+                <View style={styles.divider} />
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Integrity</Text>
+                  <View style={styles.integrityBadge}>
+                    <Ionicons
+                      name="shield-checkmark"
+                      size={16}
+                      color={Colors.success}
+                    />
+                    <Text style={styles.integrityText}>Integrity verified</Text>
+                  </View>
+                  <Text style={styles.detailSubValue}>
+                    {describeFileIntegrity(integrity)}
+                  </Text>
+                </View>
+              </>
+            )}
           </View>
 
           {/* Action Buttons */}
@@ -385,11 +733,18 @@ export default function FileViewerScreen() {
             <TouchableOpacity
               style={[styles.compactButton, styles.primaryButton]}
               onPress={handleOpen}
-              disabled={opening || deleting || sharing}
+              disabled={
+                opening || deleting || sharing || exporting || transferring
+              }
               activeOpacity={0.7}
             >
-              {opening ? (
-                <ActivityIndicator color={Colors.textWhite} size="small" />
+              {openEvent ? (
+                <>
+                  <ActivityIndicator color={Colors.textWhite} size="small" />
+                  <Text style={styles.compactButtonText}>
+                    {describeOpenFileEvent(openEvent)}
+                  </Text>
+                </>
               ) : (
                 <>
                   <Ionicons name="open" size={20} color={Colors.textWhite} />
@@ -401,7 +756,9 @@ export default function FileViewerScreen() {
             <TouchableOpacity
               style={[styles.compactButton, styles.secondaryButton]}
               onPress={handleSharePress}
-              disabled={opening || deleting || sharing}
+              disabled={
+                opening || deleting || sharing || exporting || transferring
+              }
               activeOpacity={0.7}
             >
               <Ionicons name="share-social" size={20} color={Colors.primary} />
@@ -411,7 +768,9 @@ export default function FileViewerScreen() {
             <TouchableOpacity
               style={[styles.compactButton, styles.dangerButton]}
               onPress={handleDelete}
-              disabled={opening || deleting || sharing}
+              disabled={
+                opening || deleting || sharing || exporting || transferring
+              }
               activeOpacity={0.7}
             >
               {deleting ? (
@@ -424,6 +783,122 @@ export default function FileViewerScreen() {
               )}
             </TouchableOpacity>
           </View>
+
+          {/* Save a copy / send to another app */}
+          <View style={styles.exportActions}>
+            <TouchableOpacity
+              style={[styles.compactButton, styles.secondaryButton]}
+              onPress={() => handleExport("save")}
+              disabled={
+                opening || deleting || sharing || exporting || transferring
+              }
+              activeOpacity={0.7}
+            >
+              {fileExport.action === "save" ? (
+                <ActivityIndicator color={Colors.primary} size="small" />
+              ) : (
+                <Ionicons
+                  name="download-outline"
+                  size={20}
+                  color={Colors.primary}
+                />
+              )}
+              <Text style={styles.compactButtonTextSecondary}>
+                {fileExport.action === "save" && fileExport.event
+                  ? describeOpenFileEvent(fileExport.event)
+                  : "Save to device"}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.compactButton, styles.secondaryButton]}
+              onPress={() => handleExport("send")}
+              disabled={
+                opening || deleting || sharing || exporting || transferring
+              }
+              activeOpacity={0.7}
+            >
+              {fileExport.action === "send" ? (
+                <ActivityIndicator color={Colors.primary} size="small" />
+              ) : (
+                <Ionicons
+                  name="paper-plane-outline"
+                  size={20}
+                  color={Colors.primary}
+                />
+              )}
+              <Text style={styles.compactButtonTextSecondary}>
+                {fileExport.action === "send" && fileExport.event
+                  ? describeOpenFileEvent(fileExport.event)
+                  : "Send to…"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Reorganize into another folder */}
+          <View style={styles.exportActions}>
+            <TouchableOpacity
+              style={[styles.compactButton, styles.secondaryButton]}
+              onPress={() => setTransferPicker("move")}
+              disabled={
+                opening || deleting || sharing || exporting || transferring
+              }
+              activeOpacity={0.7}
+            >
+              {fileTransfer.mode === "move" ? (
+                <ActivityIndicator color={Colors.primary} size="small" />
+              ) : (
+                <Ionicons
+                  name="folder-open-outline"
+                  size={20}
+                  color={Colors.primary}
+                />
+              )}
+              <Text style={styles.compactButtonTextSecondary}>Move to…</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.compactButton, styles.secondaryButton]}
+              onPress={() => setTransferPicker("copy")}
+              disabled={
+                opening || deleting || sharing || exporting || transferring
+              }
+              activeOpacity={0.7}
+            >
+              {fileTransfer.mode === "copy" ? (
+                <ActivityIndicator color={Colors.primary} size="small" />
+              ) : (
+                <Ionicons
+                  name="copy-outline"
+                  size={20}
+                  color={Colors.primary}
+                />
+              )}
+              <Text style={styles.compactButtonTextSecondary}>Copy to…</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Offline availability */}
+          <View style={styles.offlineRow}>
+            <Ionicons
+              name="cloud-download-outline"
+              size={20}
+              color={Colors.primary}
+            />
+            <Text style={styles.offlineText}>Keep available offline</Text>
+            {offline.updating ? (
+              <ActivityIndicator color={Colors.primary} size="small" />
+            ) : (
+              <Switch
+                value={offline.pinned}
+                onValueChange={handleToggleOffline}
+                disabled={
+                  opening || deleting || sharing || exporting || transferring
+                }
+                trackColor={{ true: Colors.primary }}
+              />
+            )}
+          </View>
         </View>
       </ScrollView>
 
@@ -609,14 +1084,49 @@ const styles = StyleSheet.create({
     shadowRadius: 12,
     elevation: 8,
   },
+  fileNameRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    marginBottom: 28,
+  },
   fileName: {
+    flexShrink: 1,
     fontSize: 22,
     fontWeight: "800",
     color: Colors.textPrimary,
     textAlign: "center",
-    marginBottom: 28,
     letterSpacing: -0.3,
   },
+  renameContainer: {
+    marginBottom: 28,
+  },
+  renameRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  renameInput: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: "600",
+    color: Colors.textPrimary,
+    backgroundColor: Colors.backgroundWhite,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  renameInputError: {
+    borderColor: Colors.error,
+  },
+  renameError: {
+    fontSize: 13,
+    color: Colors.error,
+    marginTop: 6,
+  },
   detailsCard: {
     backgroundColor: Colors.backgroundWhite,
     borderRadius: 20,
@@ -647,6 +1157,26 @@ const styles = StyleSheet.create({
     color: Colors.textPrimary,
   },
 
+  detailSubValue: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginTop: 4,
+  },
+  integrityBadge: {
+    flexDirection: "row",
+    alignSelf: "flex-start",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: Colors.successLight,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  integrityText: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: Colors.success,
+  },
   divider: {
     height: 1,
     backgroundColor: Colors.borderLight,
@@ -658,6 +1188,27 @@ const styles = StyleSheet.create({
     gap: 12,
     justifyContent: "center",
   },
+  exportActions: {
+    width: "100%",
+    marginTop: 12,
+    flexDirection: "row",
+    gap: 12,
+    justifyContent: "center",
+  },
+  offlineRow: {
+    width: "100%",
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginTop: 20,
+    paddingHorizontal: 4,
+  },
+  offlineText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.textPrimary,
+  },
   compactButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,479 @@
+/**
+ * Media Player Screen - In-app audio and video playback.
+ * Streams the file from the server (or plays the cached copy), with seek,
+ * playback speed and background audio; playback resumes from the last
+ * position reached in the file.
+ */
+
+import { SeekBar, Toast } from "@/components/ui";
+import { Colors } from "@/constants/theme";
+import {
+  formatPlaybackTime,
+  getMediaKind,
+  getMediaSource,
+  getResumePosition,
+  openFile,
+  PLAYBACK_RATES,
+  saveResumePosition,
+  type FileMetadata,
+  type OpenFileSource,
+} from "@/services";
+import { Ionicons } from "@expo/vector-icons";
+import { useEvent, useEventListener } from "expo";
+import { router, Stack, useLocalSearchParams } from "expo-router";
+import { useVideoPlayer, VideoView } from "expo-video";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const SKIP_SECONDS = 10;
+// How often the position is saved while playing
+const SAVE_INTERVAL_MS = 10000;
+
+export default function MediaPlayerScreen() {
+  const params = useLocalSearchParams<{
+    fileData: string;
+    source?: OpenFileSource;
+  }>();
+  const source: OpenFileSource =
+    params.source === "shared" ? "shared" : "owned";
+  const [file] = useState<FileMetadata | null>(() => {
+    try {
+      return JSON.parse(params.fileData) as FileMetadata;
+    } catch {
+      return null;
+    }
+  });
+  const kind = file ? getMediaKind(file.fileType, file.fileName) : null;
+
+  const player = useVideoPlayer(null, (newPlayer) => {
+    newPlayer.timeUpdateEventInterval = 0.5;
+    // Keep playing (audio in particular) when the app goes to the background
+    newPlayer.staysActiveInBackground = true;
+    newPlayer.showNowPlayingNotification = true;
+  });
+
+  const { isPlaying } = useEvent(player, "playingChange", {
+    isPlaying: player.playing,
+  });
+  const { status, error: playerError } = useEvent(player, "statusChange", {
+    status: player.status,
+  });
+  const { playbackRate } = useEvent(player, "playbackRateChange", {
+    playbackRate: player.playbackRate,
+    oldPlaybackRate: player.playbackRate,
+  });
+
+  const [time, setTime] = useState({ position: 0, buffered: 0 });
+  const [duration, setDuration] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [openingExternally, setOpeningExternally] = useState(false);
+  const [toast, setToast] = useState({
+    visible: false,
+    message: "",
+    type: "info" as "success" | "error" | "info",
+  });
+
+  // Latest values for saving the position (also after the player is gone)
+  const positionRef = useRef(0);
+  const durationRef = useRef(0);
+  const lastSaveRef = useRef(0);
+  // Position to seek to once the source is ready
+  const resumeAtRef = useRef(0);
+  // Nothing is saved before the source loads (the position is not known yet)
+  const sourceLoadedRef = useRef(false);
+
+  useEffect(() => {
+    if (!file) {
+      router.back();
+    }
+  }, [file]);
+
+  useEffect(() => {
+    if (!file || !kind) return;
+    let active = true;
+
+    (async () => {
+      try {
+        const [mediaSource, resumeAt] = await Promise.all([
+          getMediaSource(file),
+          getResumePosition(file.id),
+        ]);
+        if (!active) return;
+        console.log(
+          "▶️ Playing",
+          file.fileName,
+          mediaSource.fromCache ? "from cache" : "from server",
+        );
+        resumeAtRef.current = resumeAt;
+        await player.replaceAsync({
+          uri: mediaSource.uri,
+          headers: mediaSource.headers,
+          metadata: { title: file.fileName },
+        });
+        player.play();
+      } catch (error: any) {
+        console.error("Failed to start playback:", error);
+        if (!active) return;
+        if (error.status === 401) {
+          setToast({
+            visible: true,
+            message: "Session expired. Please log in again.",
+            type: "error",
+          });
+          setTimeout(() => {
+            router.replace("/");
+          }, 2000);
+          return;
+        }
+        setLoadError(error.message || "Failed to load media");
+      }
+    })();
+
+    return () => {
+      active = false;
+      if (!sourceLoadedRef.current) return;
+      saveResumePosition(
+        file.id,
+        positionRef.current,
+        durationRef.current || null,
+      ).catch((err) =>
+        console.warn("⚠️ Could not save playback position:", err),
+      );
+    };
+  }, [file, kind, player]);
+
+  function savePosition() {
+    if (!file || !sourceLoadedRef.current) return;
+    lastSaveRef.current = Date.now();
+    saveResumePosition(
+      file.id,
+      positionRef.current,
+      durationRef.current || null,
+    ).catch((err) => console.warn("⚠️ Could not save playback position:", err));
+  }
+
+  useEventListener(player, "sourceLoad", (event) => {
+    durationRef.current = event.duration;
+    setDuration(event.duration);
+
+    const resumeAt = resumeAtRef.current;
+    resumeAtRef.current = 0;
+    positionRef.current = resumeAt;
+    sourceLoadedRef.current = true;
+    if (resumeAt > 0) {
+      player.currentTime = resumeAt;
+      setToast({
+        visible: true,
+        message: `Resumed at ${formatPlaybackTime(resumeAt)}`,
+        type: "info",
+      });
+    }
+  });
+
+  useEventListener(player, "timeUpdate", (event) => {
+    positionRef.current = event.currentTime;
+    setTime({ position: event.currentTime, buffered: event.bufferedPosition });
+    if (Date.now() - lastSaveRef.current >= SAVE_INTERVAL_MS) {
+      savePosition();
+    }
+  });
+
+  useEventListener(player, "playingChange", (event) => {
+    if (!event.isPlaying) {
+      savePosition();
+    }
+  });
+
+  function handleSeek(seconds: number) {
+    player.currentTime = seconds;
+    positionRef.current = seconds;
+    setTime((current) => ({ ...current, position: seconds }));
+  }
+
+  function handleSkip(seconds: number) {
+    handleSeek(
+      Math.min(Math.max(0, player.currentTime + seconds), duration || Infinity),
+    );
+  }
+
+  function handleTogglePlay() {
+    if (isPlaying) {
+      player.pause();
+    } else {
+      // Start over once the end has been reached
+      if (duration > 0 && player.currentTime >= duration - 0.5) {
+        player.currentTime = 0;
+      }
+      player.play();
+    }
+  }
+
+  function handleRateChange(rate: number) {
+    player.playbackRate = rate;
+  }
+
+  async function handleOpenExternally() {
+    if (!file) return;
+    player.pause();
+    setOpeningExternally(true);
+    try {
+      await openFile(file, { source });
+    } catch (error: any) {
+      setToast({
+        visible: true,
+        message: error.message || "No app available to open this file",
+        type: "error",
+      });
+    } finally {
+      setOpeningExternally(false);
+    }
+  }
+
+  if (!file) return null;
+
+  const errorMessage = !kind
+    ? "This file type cannot be played"
+    : (loadError ??
+      (status === "error"
+        ? playerError?.message || "This file could not be played"
+        : null));
+  const isLoading = !errorMessage && status !== "readyToPlay";
+  const dark = kind === "video";
+
+  return (
+    <View style={[styles.container, dark && styles.containerDark]}>
+      <Stack.Screen
+        options={{
+          title: file.fileName,
+          headerRight: () =>
+            openingExternally ? (
+              <ActivityIndicator color={Colors.primary} />
+            ) : (
+              <TouchableOpacity
+                onPress={handleOpenExternally}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons
+                  name="open-outline"
+                  size={22}
+                  color={Colors.primary}
+                />
+              </TouchableOpacity>
+            ),
+        }}
+      />
+      <Toast
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        onDismiss={() => setToast({ ...toast, visible: false })}
+      />
+
+      <View style={styles.stage}>
+        {kind === "video" ? (
+          <VideoView
+            player={player}
+            style={styles.video}
+            contentFit="contain"
+            nativeControls={false}
+          />
+        ) : (
+          <View style={styles.artwork}>
+            <Ionicons name="musical-notes" size={72} color={Colors.primary} />
+            <Text style={styles.title} numberOfLines={2}>
+              {file.fileName}
+            </Text>
+          </View>
+        )}
+        {(isLoading || errorMessage) && (
+          <View style={styles.overlay}>
+            {errorMessage ? (
+              <>
+                <Ionicons name="alert-circle" size={40} color={Colors.error} />
+                <Text
+                  style={[styles.overlayText, dark && styles.overlayTextDark]}
+                >
+                  {errorMessage}
+                </Text>
+              </>
+            ) : (
+              <ActivityIndicator
+                size="large"
+                color={dark ? Colors.textWhite : Colors.primary}
+              />
+            )}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.controls}>
+        <SeekBar
+          position={time.position}
+          duration={duration}
+          buffered={time.buffered}
+          onSeek={handleSeek}
+          dark={dark}
+        />
+
+        <View style={styles.buttons}>
+          <TouchableOpacity
+            onPress={() => handleSkip(-SKIP_SECONDS)}
+            disabled={isLoading}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons
+              name="play-back"
+              size={28}
+              color={dark ? Colors.textWhite : Colors.textPrimary}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.playButton}
+            onPress={handleTogglePlay}
+            disabled={!!errorMessage}
+          >
+            <Ionicons
+              name={isPlaying ? "pause" : "play"}
+              size={32}
+              color={Colors.textWhite}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleSkip(SKIP_SECONDS)}
+            disabled={isLoading}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons
+              name="play-forward"
+              size={28}
+              color={dark ? Colors.textWhite : Colors.textPrimary}
+            />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.rates}>
+          {PLAYBACK_RATES.map((rate) => (
+            <TouchableOpacity
+              key={rate}
+              style={[
+                styles.rateChip,
+                dark && styles.rateChipDark,
+                rate === playbackRate && styles.rateChipActive,
+              ]}
+              onPress={() => handleRateChange(rate)}
+            >
+              <Text
+                style={[
+                  styles.rateText,
+                  dark && styles.rateTextDark,
+                  rate === playbackRate && styles.rateTextActive,
+                ]}
+              >
+                {rate}×
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.backgroundWhite,
+  },
+  containerDark: {
+    backgroundColor: Colors.textPrimary,
+  },
+  stage: {
+    flex: 1,
+    justifyContent: "center",
+  },
+  video: {
+    flex: 1,
+  },
+  artwork: {
+    alignItems: "center",
+    padding: 32,
+    gap: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: Colors.textPrimary,
+    textAlign: "center",
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+    gap: 12,
+  },
+  overlayText: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: Colors.textSecondary,
+    textAlign: "center",
+  },
+  overlayTextDark: {
+    color: Colors.textWhite,
+  },
+  controls: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 40,
+    gap: 16,
+  },
+  buttons: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 40,
+  },
+  playButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: Colors.primary,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  rates: {
+    flexDirection: "row",
+    justifyContent: "center",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  rateChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.backgroundAccent,
+  },
+  rateChipDark: {
+    backgroundColor: "rgba(255, 255, 255, 0.15)",
+  },
+  rateChipActive: {
+    backgroundColor: Colors.primary,
+  },
+  rateText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.textSecondary,
+  },
+  rateTextDark: {
+    color: Colors.textWhite,
+  },
+  rateTextActive: {
+    color: Colors.textWhite,
+  },
+});
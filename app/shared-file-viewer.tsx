@@ -4,12 +4,20 @@
 
 import { LoadingSpinner, Toast } from "@/components/ui";
 import { Colors } from "@/constants/theme";
+import { useFileExport, type FileExportAction } from "@/hooks/use-file-export";
+import { useFileIntegrity } from "@/hooks/use-file-integrity";
+import { useOfflinePin } from "@/hooks/use-offline-pin";
+import { useOpenFile } from "@/hooks/use-open-file";
 import {
-  downloadAndOpenFile,
+  describeContentMismatch,
+  describeFileIntegrity,
+  describeOpenFileEvent,
   formatFileSize,
   formatTimestamp,
   getFileIcon,
   getFriendlyFileLabel,
+  getMediaKind,
+  getPreviewKind,
   type FileMetadata,
 } from "@/services";
 import { Ionicons } from "@expo/vector-icons";
@@ -19,6 +27,7 @@ import {
   ActivityIndicator,
   ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TouchableOpacity,
   View,
@@ -30,14 +39,19 @@ export default function SharedFileViewerScreen() {
   }>();
   const [file, setFile] = useState<FileMetadata | null>(null);
   const [loading, setLoading] = useState(true);
-  const [downloading, setDownloading] = useState(false);
   const [senderName, setSenderName] = useState<string | null>(null);
   const [senderEmail, setSenderEmail] = useState<string | null>(null);
 
+  const { event: openEvent, opening: downloading, open } = useOpenFile();
+  const offline = useOfflinePin(file);
+  const integrity = useFileIntegrity(file);
+  const fileExport = useFileExport("shared");
+  const exporting = fileExport.action !== null;
+
   const [toast, setToast] = useState({
     visible: false,
     message: "",
-    type: "success" as "success" | "error",
+    type: "success" as "success" | "error" | "info",
   });
 
   useEffect(() => {
@@ -67,24 +81,106 @@ export default function SharedFileViewerScreen() {
   async function handleDownload() {
     if (!file) return;
 
-    setDownloading(true);
+    // Audio and video play in the in-app player
+    if (getMediaKind(file.fileType, file.fileName)) {
+      router.push({
+        pathname: "/media-player",
+        params: { fileData: JSON.stringify(file), source: "shared" },
+      });
+      return;
+    }
+
+    // Images and text files open in the in-app preview
+    if (getPreviewKind(file.fileType, file.fileName)) {
+      router.push({
+        pathname: "/file-preview",
+        params: { fileData: JSON.stringify(file), source: "shared" },
+      });
+      return;
+    }
+
     try {
       console.log("📥 [handleDownload] Downloading file:", file.fileName);
-      await downloadAndOpenFile(file);
+      const { content } = await open(file, { source: "shared" });
+      const warning = describeContentMismatch(content, file.fileName);
       setToast({
         visible: true,
-        message: "File opened successfully",
-        type: "success",
+        message: warning ?? "File opened successfully",
+        type: warning ? "info" : "success",
       });
     } catch (error: any) {
       console.error("Failed to download file:", error);
+      if (error.status === 401) {
+        setToast({
+          visible: true,
+          message: "Session expired. Please log in again.",
+          type: "error",
+        });
+        setTimeout(() => {
+          router.replace("/");
+        }, 2000);
+        return;
+      }
       setToast({
         visible: true,
         message: error.message || "Failed to open file",
         type: "error",
       });
-    } finally {
-      setDownloading(false);
+    }
+  }
+
+  async function handleExport(action: FileExportAction) {
+    if (!file) return;
+    try {
+      if (action === "send") {
+        await fileExport.send(file);
+        return;
+      }
+      const result = await fileExport.save(file);
+      if (result.status === "saved") {
+        setToast({
+          visible: true,
+          message: `Saved to ${result.location}`,
+          type: "success",
+        });
+      }
+    } catch (error: any) {
+      console.error("Failed to export file:", error);
+      if (error.status === 401) {
+        setToast({
+          visible: true,
+          message: "Session expired. Please log in again.",
+          type: "error",
+        });
+        setTimeout(() => {
+          router.replace("/");
+        }, 2000);
+        return;
+      }
+      setToast({
+        visible: true,
+        message: error.message || "Failed to export file",
+        type: "error",
+      });
+    }
+  }
+
+  async function handleToggleOffline(enabled: boolean) {
+    try {
+      await offline.setPinned(enabled);
+      setToast({
+        visible: true,
+        message: enabled
+          ? "File will stay available offline"
+          : "File is no longer kept offline",
+        type: "success",
+      });
+    } catch (error: any) {
+      setToast({
+        visible: true,
+        message: error.message || "Failed to update offline availability",
+        type: "error",
+      });
     }
   }
 
@@ -172,6 +268,27 @@ export default function SharedFileViewerScreen() {
                 {formatTimestamp(file.timestamp)}
               </Text>
             </View>
+
+            {/* Shown once the local copy passed verification */}
+            {integrity && (
+              <>
+                <View style={styles.divider} />
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Integrity</Text>
+                  <View style={styles.integrityBadge}>
+                    <Ionicons
+                      name="shield-checkmark"
+                      size={16}
+                      color={Colors.success}
+                    />
+                    <Text style={styles.integrityText}>Integrity verified</Text>
+                  </View>
+                  <Text style={styles.detailSubValue}>
+                    {describeFileIntegrity(integrity)}
+                  </Text>
+                </View>
+              </>
+            )}
           </View>
 
           {/* Action Buttons */}
@@ -179,11 +296,16 @@ export default function SharedFileViewerScreen() {
             <TouchableOpacity
               style={[styles.compactButton, styles.primaryButton]}
               onPress={handleDownload}
-              disabled={downloading}
+              disabled={downloading || exporting}
               activeOpacity={0.7}
             >
-              {downloading ? (
-                <ActivityIndicator color={Colors.textWhite} size="small" />
+              {openEvent ? (
+                <>
+                  <ActivityIndicator color={Colors.textWhite} size="small" />
+                  <Text style={styles.compactButtonText}>
+                    {describeOpenFileEvent(openEvent)}
+                  </Text>
+                </>
               ) : (
                 <>
                   <Ionicons
@@ -196,6 +318,73 @@ export default function SharedFileViewerScreen() {
               )}
             </TouchableOpacity>
           </View>
+
+          {/* Save a copy / send to another app */}
+          <View style={styles.exportActions}>
+            <TouchableOpacity
+              style={[styles.compactButton, styles.secondaryButton]}
+              onPress={() => handleExport("save")}
+              disabled={downloading || exporting}
+              activeOpacity={0.7}
+            >
+              {fileExport.action === "save" ? (
+                <ActivityIndicator color={Colors.primary} size="small" />
+              ) : (
+                <Ionicons
+                  name="download-outline"
+                  size={20}
+                  color={Colors.primary}
+                />
+              )}
+              <Text style={styles.compactButtonTextSecondary}>
+                {fileExport.action === "save" && fileExport.event
+                  ? describeOpenFileEvent(fileExport.event)
+                  : "Save to device"}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.compactButton, styles.secondaryButton]}
+              onPress={() => handleExport("send")}
+              disabled={downloading || exporting}
+              activeOpacity={0.7}
+            >
+              {fileExport.action === "send" ? (
+                <ActivityIndicator color={Colors.primary} size="small" />
+              ) : (
+                <Ionicons
+                  name="paper-plane-outline"
+                  size={20}
+                  color={Colors.primary}
+                />
+              )}
+              <Text style={styles.compactButtonTextSecondary}>
+                {fileExport.action === "send" && fileExport.event
+                  ? describeOpenFileEvent(fileExport.event)
+                  : "Send to…"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Offline availability */}
+          <View style={styles.offlineRow}>
+            <Ionicons
+              name="cloud-download-outline"
+              size={20}
+              color={Colors.primary}
+            />
+            <Text style={styles.offlineText}>Keep available offline</Text>
+            {offline.updating ? (
+              <ActivityIndicator color={Colors.primary} size="small" />
+            ) : (
+              <Switch
+                value={offline.pinned}
+                onValueChange={handleToggleOffline}
+                disabled={downloading || exporting}
+                trackColor={{ true: Colors.primary }}
+              />
+            )}
+          </View>
         </View>
       </ScrollView>
     </>
@@ -297,6 +486,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "600",
   },
+  integrityBadge: {
+    flexDirection: "row",
+    alignSelf: "flex-start",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: Colors.successLight,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  integrityText: {
+    fontSize: 13,
+    fontWeight: "700",
+    color: Colors.success,
+  },
   divider: {
     height: 1,
     backgroundColor: Colors.borderLight,
@@ -308,6 +512,27 @@ const styles = StyleSheet.create({
     gap: 12,
     justifyContent: "center",
   },
+  exportActions: {
+    width: "100%",
+    marginTop: 12,
+    flexDirection: "row",
+    gap: 12,
+    justifyContent: "center",
+  },
+  offlineRow: {
+    width: "100%",
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginTop: 20,
+    paddingHorizontal: 4,
+  },
+  offlineText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.textPrimary,
+  },
   compactButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -326,6 +551,11 @@ const styles = StyleSheet.create({
   primaryButton: {
     backgroundColor: Colors.primary,
   },
+  secondaryButton: {
+    backgroundColor: Colors.backgroundAccent,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+  },
   dangerButton: {
     backgroundColor: Colors.error,
   },
@@ -334,6 +564,11 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: Colors.textWhite,
   },
+  compactButtonTextSecondary: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: Colors.primary,
+  },
   errorText: {
     fontSize: 16,
     color: Colors.error,
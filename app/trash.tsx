@@ -0,0 +1,411 @@
+/**
+ * Trash Screen - Deleted files, with restore and permanent delete.
+ * Files are purged automatically once the retention period set in Profile
+ * has passed.
+ */
+
+import { ConfirmationModal, FileThumbnail, Toast } from "@/components/ui";
+import { Colors } from "@/constants/theme";
+import {
+  formatFileSize,
+  formatTimestamp,
+  getFolderPath,
+  getFolders,
+  getTrash,
+  getTrashExpiry,
+  getTrashRetentionDays,
+  purgeExpiredTrash,
+  purgeFromTrash,
+  restoreFromTrash,
+  type FileMetadata,
+  type Folder,
+} from "@/services";
+import { Ionicons } from "@expo/vector-icons";
+import { router, Stack, useFocusEffect } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const HIT_SLOP = { top: 10, bottom: 10, left: 10, right: 10 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What the delete confirmation is about: one file or the whole trash
+type PurgeTarget = { file: FileMetadata } | { all: true };
+
+export default function TrashScreen() {
+  const [files, setFiles] = useState<FileMetadata[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  // Files being restored or deleted
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+  const [emptying, setEmptying] = useState(false);
+  const [purgeTarget, setPurgeTarget] = useState<PurgeTarget | null>(null);
+  const [toast, setToast] = useState({
+    visible: false,
+    message: "",
+    type: "success" as "success" | "error" | "info",
+  });
+
+  const handleError = useCallback((error: any, fallback: string) => {
+    if (error.status === 401) {
+      setToast({
+        visible: true,
+        message: "Session expired. Please log in again.",
+        type: "error",
+      });
+      setTimeout(() => {
+        router.replace("/");
+      }, 2000);
+      return;
+    }
+    setToast({
+      visible: true,
+      message: error.message || fallback,
+      type: "error",
+    });
+  }, []);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      // Expired files should not show up at all
+      await purgeExpiredTrash().catch((err) =>
+        console.warn("⚠️ Could not purge expired trash:", err),
+      );
+      const [trashed, allFolders, days] = await Promise.all([
+        getTrash(),
+        getFolders(),
+        getTrashRetentionDays(),
+      ]);
+      setFiles(trashed);
+      setFolders(allFolders);
+      setRetentionDays(days);
+    } catch (error: any) {
+      console.error("Failed to load trash:", error);
+      handleError(error, "Failed to load trash");
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [handleError]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash]),
+  );
+
+  function setBusy(fileId: string, busy: boolean) {
+    setBusyIds((current) => {
+      const next = new Set(current);
+      if (busy) {
+        next.add(fileId);
+      } else {
+        next.delete(fileId);
+      }
+      return next;
+    });
+  }
+
+  async function handleRestore(file: FileMetadata) {
+    const fileId = String(file.id);
+    setBusy(fileId, true);
+    try {
+      const restored = await restoreFromTrash(file);
+      setFiles((current) =>
+        current.filter((item) => String(item.id) !== fileId),
+      );
+      setToast({
+        visible: true,
+        message: `Restored "${restored.fileName}" to ${describeLocation(restored)}`,
+        type: "success",
+      });
+    } catch (error: any) {
+      handleError(error, "Failed to restore file");
+    } finally {
+      setBusy(fileId, false);
+    }
+  }
+
+  async function confirmPurge() {
+    const target = purgeTarget;
+    setPurgeTarget(null);
+    if (!target) return;
+
+    const targets = "file" in target ? [target.file] : files;
+    const ids = targets.map((file) => String(file.id));
+    if ("all" in target) setEmptying(true);
+    ids.forEach((id) => setBusy(id, true));
+    try {
+      const failed = await purgeFromTrash(targets);
+      const failedIds = new Set(failed.map((item) => item.fileId));
+      setFiles((current) =>
+        current.filter(
+          (file) =>
+            !ids.includes(String(file.id)) || failedIds.has(String(file.id)),
+        ),
+      );
+      const deleted = targets.length - failed.length;
+      if (failed.length === 0) {
+        setToast({
+          visible: true,
+          message:
+            deleted === 1
+              ? `Deleted "${targets[0].fileName}" forever`
+              : `Deleted ${deleted} files forever`,
+          type: "success",
+        });
+      } else {
+        setToast({
+          visible: true,
+          message:
+            failed.length === 1 && deleted === 0
+              ? failed[0].error
+              : `Deleted ${deleted} files. ${failed.length} could not be deleted.`,
+          type: "error",
+        });
+      }
+    } catch (error: any) {
+      handleError(error, "Failed to delete file");
+    } finally {
+      ids.forEach((id) => setBusy(id, false));
+      setEmptying(false);
+    }
+  }
+
+  // Where a file was (and will be restored to)
+  function describeLocation(file: FileMetadata): string {
+    if (!file.folderId) return "My Files";
+    const path = getFolderPath(folders, file.folderId);
+    return path.length > 0
+      ? path.map((folder) => folder.name).join(" / ")
+      : "My Files (its folder was deleted)";
+  }
+
+  function describeExpiry(file: FileMetadata): string | null {
+    const expiry = getTrashExpiry(file, retentionDays);
+    if (!expiry) return null;
+    const days = Math.ceil((expiry.getTime() - Date.now()) / DAY_MS);
+    if (days <= 1) return "Deleted forever within a day";
+    return `Deleted forever in ${days} days`;
+  }
+
+  function renderItem({ item }: { item: FileMetadata }) {
+    const busy = busyIds.has(String(item.id));
+    const expiry = describeExpiry(item);
+
+    return (
+      <View style={styles.row}>
+        <FileThumbnail file={item} />
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowName} numberOfLines={1}>
+            {item.fileName}
+          </Text>
+          <Text style={styles.rowDetail} numberOfLines={1}>
+            {formatFileSize(item.fileSize)} · From {describeLocation(item)}
+          </Text>
+          {item.deletedAt && (
+            <Text style={styles.rowDetail} numberOfLines={1}>
+              Deleted {formatTimestamp(item.deletedAt)}
+            </Text>
+          )}
+          {expiry && (
+            <Text style={styles.rowExpiry} numberOfLines={1}>
+              {expiry}
+            </Text>
+          )}
+        </View>
+        {busy ? (
+          <ActivityIndicator color={Colors.primary} />
+        ) : (
+          <>
+            <TouchableOpacity
+              onPress={() => handleRestore(item)}
+              hitSlop={HIT_SLOP}
+            >
+              <Ionicons name="arrow-undo" size={22} color={Colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setPurgeTarget({ file: item })}
+              hitSlop={HIT_SLOP}
+            >
+              <Ionicons name="trash" size={22} color={Colors.error} />
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  }
+
+  const purgeMessage = !purgeTarget
+    ? ""
+    : "file" in purgeTarget
+      ? `Delete "${purgeTarget.file.fileName}" forever? This action cannot be undone.`
+      : `Delete all ${files.length} files in the trash forever? This action cannot be undone.`;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          headerRight: () =>
+            emptying ? (
+              <ActivityIndicator color={Colors.primary} />
+            ) : files.length > 0 ? (
+              <TouchableOpacity
+                onPress={() => setPurgeTarget({ all: true })}
+                hitSlop={HIT_SLOP}
+              >
+                <Text style={styles.headerAction}>Empty</Text>
+              </TouchableOpacity>
+            ) : null,
+        }}
+      />
+      <Toast
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        onDismiss={() => setToast({ ...toast, visible: false })}
+      />
+
+      {loading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={files}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={renderItem}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadTrash();
+              }}
+              colors={[Colors.primary]}
+            />
+          }
+          ListHeaderComponent={
+            files.length > 0 ? (
+              <Text style={styles.retentionNote}>
+                {retentionDays > 0
+                  ? `Files are deleted forever ${retentionDays} days after being moved to the trash.`
+                  : "Files stay in the trash until you delete them."}
+              </Text>
+            ) : null
+          }
+          contentContainerStyle={
+            files.length === 0 ? styles.emptyContainer : styles.listContent
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons
+                name="trash-outline"
+                size={64}
+                color={Colors.iconMuted}
+              />
+              <Text style={styles.emptyText}>Trash is empty</Text>
+              <Text style={styles.emptySubtext}>
+                Deleted files stay here until they are purged
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      <ConfirmationModal
+        visible={!!purgeTarget}
+        title="Delete Forever"
+        message={purgeMessage}
+        confirmText="Delete Forever"
+        cancelText="Cancel"
+        type="danger"
+        onConfirm={confirmPurge}
+        onCancel={() => setPurgeTarget(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  listContent: {
+    padding: 16,
+  },
+  emptyContainer: {
+    flexGrow: 1,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: Colors.textSecondary,
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    marginTop: 8,
+    textAlign: "center",
+  },
+  headerAction: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.error,
+  },
+  retentionNote: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    backgroundColor: Colors.backgroundWhite,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: Colors.shadow,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.textPrimary,
+    marginBottom: 4,
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  rowExpiry: {
+    fontSize: 12,
+    color: Colors.warning,
+    marginTop: 2,
+  },
+});
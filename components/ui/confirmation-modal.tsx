@@ -12,6 +12,9 @@ interface ConfirmationModalProps {
   onConfirm: () => void;
   onCancel: () => void;
   type?: "danger" | "warning" | "info";
+  // Optional third action, shown between cancel and confirm
+  secondaryText?: string;
+  onSecondary?: () => void;
 }
 
 export function ConfirmationModal({
@@ -23,7 +26,11 @@ export function ConfirmationModal({
   onConfirm,
   onCancel,
   type = "danger",
+  secondaryText,
+  onSecondary,
 }: ConfirmationModalProps) {
+  const hasSecondary = !!secondaryText && !!onSecondary;
+
   const iconName =
     type === "danger"
       ? "alert-circle"
@@ -54,18 +61,47 @@ export function ConfirmationModal({
           <Text style={styles.title}>{title}</Text>
           <Text style={styles.message}>{message}</Text>
 
-          <View style={styles.buttonContainer}>
+          <View
+            style={[
+              styles.buttonContainer,
+              hasSecondary && styles.buttonContainerStacked,
+            ]}
+          >
             <TouchableOpacity
-              style={[styles.button, styles.cancelButton]}
+              style={[
+                styles.button,
+                hasSecondary && styles.buttonStacked,
+                styles.cancelButton,
+              ]}
               onPress={onCancel}
               activeOpacity={0.7}
             >
               <Text style={styles.cancelButtonText}>{cancelText}</Text>
             </TouchableOpacity>
 
+            {hasSecondary && (
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  styles.buttonStacked,
+                  styles.secondaryButton,
+                  { borderColor: iconColor },
+                ]}
+                onPress={onSecondary}
+                activeOpacity={0.7}
+              >
+                <Text
+                  style={[styles.secondaryButtonText, { color: iconColor }]}
+                >
+                  {secondaryText}
+                </Text>
+              </TouchableOpacity>
+            )}
+
             <TouchableOpacity
               style={[
                 styles.button,
+                hasSecondary && styles.buttonStacked,
                 styles.confirmButton,
                 { backgroundColor: iconColor },
               ]}
@@ -119,6 +155,10 @@ const styles = StyleSheet.create({
     width: "100%",
     gap: 12,
   },
+  // Three actions do not fit side by side
+  buttonContainerStacked: {
+    flexDirection: "column-reverse",
+  },
   button: {
     flex: 1,
     paddingVertical: 14,
@@ -126,11 +166,18 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  buttonStacked: {
+    flex: 0,
+  },
   cancelButton: {
     backgroundColor: Colors.backgroundAccent,
     borderWidth: 1.5,
     borderColor: Colors.border,
   },
+  secondaryButton: {
+    backgroundColor: Colors.backgroundWhite,
+    borderWidth: 1.5,
+  },
   confirmButton: {
     backgroundColor: Colors.error,
   },
@@ -139,6 +186,10 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: Colors.textPrimary,
   },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
   confirmButtonText: {
     fontSize: 16,
     fontWeight: "700",
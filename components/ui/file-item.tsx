@@ -1,36 +1,43 @@
 import { Colors } from "@/constants/theme";
 import {
   formatTimestamp,
-  getFileIcon,
   getFriendlyFileLabel,
   type FileMetadata,
 } from "@/services";
 import { Ionicons } from "@expo/vector-icons";
 import React from "react";
 import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { FileThumbnail } from "./file-thumbnail";
 
 interface FileItemProps {
   file: FileMetadata;
   onPress: (file: FileMetadata) => void;
+  onLongPress?: (file: FileMetadata) => void;
+  // Multi-select: rows show a checkbox instead of the chevron
+  selecting?: boolean;
+  selected?: boolean;
 }
 
-export function FileItem({ file, onPress }: FileItemProps) {
+export function FileItem({
+  file,
+  onPress,
+  onLongPress,
+  selecting = false,
+  selected = false,
+}: FileItemProps) {
   // Use shared friendly label helper
   const getFileTypeLabel = (fileType: string, fileName?: string): string =>
     getFriendlyFileLabel(fileType, fileName);
 
   return (
     <TouchableOpacity
-      style={styles.container}
+      style={[styles.container, selected && styles.containerSelected]}
       onPress={() => onPress(file)}
+      onLongPress={onLongPress ? () => onLongPress(file) : undefined}
       activeOpacity={0.7}
     >
       <View style={styles.iconContainer}>
-        <Ionicons
-          name={getFileIcon(file.fileType, "outline")}
-          size={28}
-          color={Colors.primary}
-        />
+        <FileThumbnail file={file} />
       </View>
       <View style={styles.infoContainer}>
         <Text style={styles.fileName} numberOfLines={1}>
@@ -43,8 +50,21 @@ export function FileItem({ file, onPress }: FileItemProps) {
           Uploaded by {file.uploadedByUsername || file.uploadedByEmail || "You"}
         </Text>
         <Text style={styles.timestamp}>{formatTimestamp(file.timestamp)}</Text>
+        {file.tags && file.tags.length > 0 && (
+          <Text style={styles.tags} numberOfLines={1}>
+            {file.tags.map((tag) => `#${tag}`).join("  ")}
+          </Text>
+        )}
       </View>
-      <Ionicons name="chevron-forward" size={20} color={Colors.iconMuted} />
+      {selecting ? (
+        <Ionicons
+          name={selected ? "checkmark-circle" : "ellipse-outline"}
+          size={24}
+          color={selected ? Colors.primary : Colors.iconMuted}
+        />
+      ) : (
+        <Ionicons name="chevron-forward" size={20} color={Colors.iconMuted} />
+      )}
     </TouchableOpacity>
   );
 }
@@ -66,6 +86,10 @@ const styles = StyleSheet.create({
     shadowRadius: 10,
     elevation: 5,
   },
+  containerSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primaryLight,
+  },
   iconContainer: {
     width: 48,
     height: 48,
@@ -111,4 +135,10 @@ const styles = StyleSheet.create({
     color: Colors.textMuted,
     marginTop: 2,
   },
+  tags: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: Colors.primary,
+    marginTop: 4,
+  },
 });
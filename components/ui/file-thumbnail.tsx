@@ -0,0 +1,45 @@
+import { Colors } from "@/constants/theme";
+import { useThumbnail } from "@/hooks/use-thumbnail";
+import { getFileIcon, type FileMetadata } from "@/services";
+import { Ionicons } from "@expo/vector-icons";
+import { Image } from "expo-image";
+import React from "react";
+import { StyleSheet } from "react-native";
+
+interface FileThumbnailProps {
+  file: FileMetadata;
+  // Matches the rounding of the container it is shown in
+  borderRadius?: number;
+}
+
+/**
+ * Thumbnail of an image or video for list rows, falling back to the
+ * file-type icon. Fills its (square) container.
+ */
+export function FileThumbnail({ file, borderRadius = 12 }: FileThumbnailProps) {
+  const uri = useThumbnail(file);
+
+  if (!uri) {
+    return (
+      <Ionicons
+        name={getFileIcon(file.fileType, "outline")}
+        size={28}
+        color={Colors.primary}
+      />
+    );
+  }
+  return (
+    <Image
+      source={{ uri }}
+      style={[styles.image, { borderRadius }]}
+      contentFit="cover"
+      transition={150}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    ...StyleSheet.absoluteFillObject,
+  },
+});
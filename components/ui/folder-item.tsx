@@ -0,0 +1,91 @@
+import { Colors } from "@/constants/theme";
+import type { Folder } from "@/services";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+interface FolderItemProps {
+  folder: Folder;
+  itemCount: number; // Files and folders directly inside
+  onPress: (folder: Folder) => void;
+  onOptions: (folder: Folder) => void;
+}
+
+export function FolderItem({
+  folder,
+  itemCount,
+  onPress,
+  onOptions,
+}: FolderItemProps) {
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onPress={() => onPress(folder)}
+      onLongPress={() => onOptions(folder)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.iconContainer}>
+        <Ionicons name="folder" size={28} color={Colors.primary} />
+      </View>
+      <View style={styles.infoContainer}>
+        <Text style={styles.folderName} numberOfLines={1}>
+          {folder.name}
+        </Text>
+        <Text style={styles.metadata}>
+          {itemCount === 1 ? "1 item" : `${itemCount} items`}
+        </Text>
+      </View>
+      <TouchableOpacity
+        onPress={() => onOptions(folder)}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <Ionicons
+          name="ellipsis-horizontal"
+          size={20}
+          color={Colors.iconMuted}
+        />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: Colors.backgroundWhite,
+    padding: 16,
+    marginHorizontal: 16,
+    marginVertical: 8,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    shadowColor: Colors.shadow,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.12,
+    shadowRadius: 10,
+    elevation: 5,
+  },
+  iconContainer: {
+    width: 48,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: Colors.primaryLight,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 14,
+  },
+  infoContainer: {
+    flex: 1,
+  },
+  folderName: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: Colors.textPrimary,
+    marginBottom: 4,
+  },
+  metadata: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+});
@@ -0,0 +1,232 @@
+import { Colors } from "@/constants/theme";
+import { getFolderPath, getFolders, type Folder } from "@/services";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface FolderPickerModalProps {
+  visible: boolean;
+  title: string;
+  confirmText: string; // e.g. "Move here"
+  initialFolderId?: string | null; // Folder the picker opens in
+  // Called with the chosen folder (null = top level, "My Files")
+  onSelect: (folder: Folder | null) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal for choosing a destination folder: browse into folders, then
+ * confirm the one that is open.
+ */
+export function FolderPickerModal({
+  visible,
+  title,
+  confirmText,
+  initialFolderId = null,
+  onSelect,
+  onCancel,
+}: FolderPickerModalProps) {
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [folderId, setFolderId] = useState<string | null>(initialFolderId);
+
+  useEffect(() => {
+    if (!visible) return;
+    let active = true;
+    setFolderId(initialFolderId);
+    setLoading(true);
+    setError(null);
+    getFolders()
+      .then((list) => active && setFolders(list))
+      .catch(
+        (err) => active && setError(err.message || "Failed to load folders"),
+      )
+      .finally(() => active && setLoading(false));
+    return () => {
+      active = false;
+    };
+  }, [visible, initialFolderId]);
+
+  const path = getFolderPath(folders, folderId);
+  const folder = path[path.length - 1] ?? null;
+  const subfolders = folders
+    .filter((item) => item.parentId === (folder?.id ?? null))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity
+              onPress={onCancel}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="close" size={24} color={Colors.textPrimary} />
+            </TouchableOpacity>
+          </View>
+
+          {/* Where the picker is; back goes up one level */}
+          <View style={styles.location}>
+            {folder ? (
+              <TouchableOpacity
+                onPress={() => setFolderId(folder.parentId)}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name="arrow-back" size={20} color={Colors.primary} />
+              </TouchableOpacity>
+            ) : (
+              <Ionicons name="home" size={20} color={Colors.primary} />
+            )}
+            <Text style={styles.locationText} numberOfLines={1}>
+              {["My Files", ...path.map((item) => item.name)].join(" › ")}
+            </Text>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator
+              color={Colors.primary}
+              size="large"
+              style={styles.status}
+            />
+          ) : error ? (
+            <Text style={[styles.status, styles.errorText]}>{error}</Text>
+          ) : (
+            <FlatList
+              data={subfolders}
+              keyExtractor={(item) => item.id}
+              style={styles.list}
+              ListEmptyComponent={
+                <Text style={[styles.status, styles.emptyText]}>
+                  No folders here
+                </Text>
+              }
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={styles.folderRow}
+                  onPress={() => setFolderId(item.id)}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons name="folder" size={24} color={Colors.primary} />
+                  <Text style={styles.folderName} numberOfLines={1}>
+                    {item.name}
+                  </Text>
+                  <Ionicons
+                    name="chevron-forward"
+                    size={18}
+                    color={Colors.iconMuted}
+                  />
+                </TouchableOpacity>
+              )}
+            />
+          )}
+
+          <TouchableOpacity
+            style={styles.confirmButton}
+            onPress={() => onSelect(folder)}
+            disabled={loading}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.confirmButtonText}>{confirmText}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    backgroundColor: Colors.backgroundWhite,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 32,
+    maxHeight: "75%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "800",
+    color: Colors.textPrimary,
+  },
+  location: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  locationText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.textSecondary,
+  },
+  list: {
+    flexGrow: 0,
+    minHeight: 120,
+  },
+  status: {
+    paddingVertical: 32,
+    textAlign: "center",
+  },
+  errorText: {
+    color: Colors.error,
+  },
+  emptyText: {
+    color: Colors.textMuted,
+  },
+  folderRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  folderName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.textPrimary,
+  },
+  confirmButton: {
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    alignItems: "center",
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: Colors.textWhite,
+  },
+});
@@ -1,6 +1,17 @@
 export { Button } from "./button";
 export { ConfirmationModal } from "./confirmation-modal";
 export { FileItem } from "./file-item";
+export { FileThumbnail } from "./file-thumbnail";
+export { FolderItem } from "./folder-item";
+export { FolderPickerModal } from "./folder-picker-modal";
 export { InputField } from "./input-field";
 export { LoadingSpinner } from "./loading-spinner";
+export { NamePromptModal } from "./name-prompt-modal";
+export { RetryBanner } from "./retry-banner";
+export { SeekBar } from "./seek-bar";
+export { SelectionBar, type SelectionAction } from "./selection-bar";
+export { TextPreview } from "./text-preview";
 export { Toast } from "./toast";
+export { UploadProgressSheet } from "./upload-progress-sheet";
+export { UserPickerModal } from "./user-picker-modal";
+export { ZoomableImage } from "./zoomable-image";
@@ -0,0 +1,176 @@
+import { Colors } from "@/constants/theme";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface NamePromptModalProps {
+  visible: boolean;
+  title: string;
+  initialValue?: string;
+  placeholder?: string;
+  confirmText?: string;
+  cancelText?: string;
+  // Shown under the input (e.g. a validation or server error)
+  error?: string | null;
+  busy?: boolean;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal asking for a name, e.g. for a new or renamed folder.
+ */
+export function NamePromptModal({
+  visible,
+  title,
+  initialValue = "",
+  placeholder,
+  confirmText = "Save",
+  cancelText = "Cancel",
+  error,
+  busy = false,
+  onSubmit,
+  onCancel,
+}: NamePromptModalProps) {
+  const [name, setName] = useState(initialValue);
+
+  // Start from the initial value each time the prompt opens
+  useEffect(() => {
+    if (visible) {
+      setName(initialValue);
+    }
+  }, [visible, initialValue]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>{title}</Text>
+
+          <TextInput
+            style={[styles.input, error ? styles.inputError : null]}
+            value={name}
+            onChangeText={setName}
+            onSubmitEditing={() => onSubmit(name)}
+            placeholder={placeholder}
+            placeholderTextColor={Colors.textMuted}
+            autoFocus
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="done"
+            editable={!busy}
+          />
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onCancel}
+              disabled={busy}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.cancelButtonText}>{cancelText}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.confirmButton]}
+              onPress={() => onSubmit(name)}
+              disabled={busy}
+              activeOpacity={0.7}
+            >
+              {busy ? (
+                <ActivityIndicator color={Colors.textWhite} size="small" />
+              ) : (
+                <Text style={styles.confirmButtonText}>{confirmText}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: 24,
+  },
+  container: {
+    backgroundColor: Colors.backgroundWhite,
+    borderRadius: 24,
+    padding: 28,
+    width: "100%",
+    maxWidth: 400,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "800",
+    color: Colors.textPrimary,
+    marginBottom: 20,
+    textAlign: "center",
+  },
+  input: {
+    fontSize: 16,
+    color: Colors.textPrimary,
+    backgroundColor: Colors.backgroundAccent,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  inputError: {
+    borderColor: Colors.error,
+  },
+  error: {
+    fontSize: 13,
+    color: Colors.error,
+    marginTop: 8,
+  },
+  buttonContainer: {
+    flexDirection: "row",
+    width: "100%",
+    gap: 12,
+    marginTop: 24,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  cancelButton: {
+    backgroundColor: Colors.backgroundAccent,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+  },
+  confirmButton: {
+    backgroundColor: Colors.primary,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: Colors.textPrimary,
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: Colors.textWhite,
+  },
+});
@@ -0,0 +1,61 @@
+import { Colors } from "@/constants/theme";
+import { useApiRetryStatus } from "@/hooks/use-api-retry-status";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+
+/**
+ * App-wide notice shown while API requests are being retried automatically.
+ */
+export function RetryBanner() {
+  const retry = useApiRetryStatus();
+  if (!retry) return null;
+
+  // Gateway errors usually mean a cold-starting server
+  const message = retry.status
+    ? "Server waking up, retrying…"
+    : "Connection problem, retrying…";
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      <Ionicons name="refresh" size={18} color={Colors.textWhite} />
+      <Text style={styles.message}>{message}</Text>
+      <Text style={styles.attempt}>
+        {retry.attempt}/{retry.maxAttempts}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    bottom: 100,
+    left: 20,
+    right: 20,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: Colors.textPrimary,
+    shadowColor: Colors.shadow,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+    zIndex: 1000,
+  },
+  message: {
+    flex: 1,
+    color: Colors.textWhite,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  attempt: {
+    color: Colors.textMuted,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
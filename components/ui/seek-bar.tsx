@@ -0,0 +1,141 @@
+import { Colors } from "@/constants/theme";
+import { formatPlaybackTime } from "@/services";
+import React, { useState } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+
+interface SeekBarProps {
+  position: number;
+  duration: number;
+  // How far the stream has been loaded, in seconds
+  buffered?: number;
+  onSeek: (seconds: number) => void;
+  // Light colors for use over video
+  dark?: boolean;
+}
+
+/**
+ * Playback progress bar with elapsed / total time.
+ * Tap or drag anywhere on the bar to seek.
+ */
+export function SeekBar({
+  position,
+  duration,
+  buffered = 0,
+  onSeek,
+  dark,
+}: SeekBarProps) {
+  const [width, setWidth] = useState(0);
+  // Position under the finger while dragging (null when not dragging)
+  const [dragPosition, setDragPosition] = useState<number | null>(null);
+
+  function positionAt(x: number): number {
+    if (width <= 0 || duration <= 0) return 0;
+    return Math.min(1, Math.max(0, x / width)) * duration;
+  }
+
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .enabled(duration > 0)
+    .minDistance(0)
+    .onBegin((event) => setDragPosition(positionAt(event.x)))
+    .onUpdate((event) => setDragPosition(positionAt(event.x)))
+    .onEnd((event) => onSeek(positionAt(event.x)))
+    .onFinalize(() => setDragPosition(null));
+
+  const shown = dragPosition ?? position;
+  const progress = duration > 0 ? Math.min(1, shown / duration) : 0;
+  const bufferedProgress = duration > 0 ? Math.min(1, buffered / duration) : 0;
+  const textColor = dark ? Colors.textWhite : Colors.textSecondary;
+
+  return (
+    <View>
+      <GestureDetector gesture={pan}>
+        <View
+          style={styles.touchArea}
+          onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
+        >
+          <View
+            style={[styles.track, dark && styles.trackDark]}
+            pointerEvents="none"
+          >
+            <View
+              style={[
+                styles.buffered,
+                dark && styles.bufferedDark,
+                { width: `${bufferedProgress * 100}%` },
+              ]}
+            />
+            <View style={[styles.fill, { width: `${progress * 100}%` }]} />
+          </View>
+          <View
+            style={[
+              styles.thumb,
+              dragPosition !== null && styles.thumbActive,
+              { left: progress * width - THUMB_SIZE / 2 },
+            ]}
+            pointerEvents="none"
+          />
+        </View>
+      </GestureDetector>
+      <View style={styles.times}>
+        <Text style={[styles.time, { color: textColor }]}>
+          {formatPlaybackTime(shown)}
+        </Text>
+        <Text style={[styles.time, { color: textColor }]}>
+          {formatPlaybackTime(duration)}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const THUMB_SIZE = 14;
+
+const styles = StyleSheet.create({
+  touchArea: {
+    height: 28,
+    justifyContent: "center",
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.backgroundAccent,
+    overflow: "hidden",
+  },
+  trackDark: {
+    backgroundColor: "rgba(255, 255, 255, 0.25)",
+  },
+  buffered: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    left: 0,
+    backgroundColor: Colors.border,
+  },
+  bufferedDark: {
+    backgroundColor: "rgba(255, 255, 255, 0.45)",
+  },
+  fill: {
+    height: 4,
+    backgroundColor: Colors.primary,
+  },
+  thumb: {
+    position: "absolute",
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: Colors.primary,
+  },
+  thumbActive: {
+    transform: [{ scale: 1.3 }],
+  },
+  times: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  time: {
+    fontSize: 12,
+    fontVariant: ["tabular-nums"],
+  },
+});
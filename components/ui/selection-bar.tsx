@@ -0,0 +1,144 @@
+import { Colors } from "@/constants/theme";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+export interface SelectionAction {
+  key: string;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  onPress: () => void;
+  danger?: boolean;
+}
+
+interface SelectionBarProps {
+  count: number;
+  total: number; // Selectable items, for "Select all"
+  actions: SelectionAction[];
+  // An action is running: buttons are replaced by a spinner
+  busy?: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+}
+
+/**
+ * Contextual action bar shown instead of a list header while items are
+ * selected (long-press multi-select).
+ */
+export function SelectionBar({
+  count,
+  total,
+  actions,
+  busy = false,
+  onSelectAll,
+  onClear,
+}: SelectionBarProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.topRow}>
+        <TouchableOpacity
+          onPress={onClear}
+          disabled={busy}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Ionicons name="close" size={22} color={Colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.countText}>{count} selected</Text>
+        {busy ? (
+          <ActivityIndicator color={Colors.primary} size="small" />
+        ) : (
+          count < total && (
+            <TouchableOpacity
+              onPress={onSelectAll}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Text style={styles.selectAllText}>Select all</Text>
+            </TouchableOpacity>
+          )
+        )}
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.actions}
+      >
+        {actions.map((action) => (
+          <TouchableOpacity
+            key={action.key}
+            style={[styles.action, busy && styles.actionDisabled]}
+            onPress={action.onPress}
+            disabled={busy}
+            activeOpacity={0.7}
+          >
+            <Ionicons
+              name={action.icon}
+              size={20}
+              color={action.danger ? Colors.error : Colors.primary}
+            />
+            <Text
+              style={[styles.actionText, action.danger && styles.dangerText]}
+            >
+              {action.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingTop: 16,
+    paddingBottom: 8,
+    gap: 12,
+  },
+  topRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 20,
+  },
+  countText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "700",
+    color: Colors.textPrimary,
+  },
+  selectAllText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.primary,
+  },
+  actions: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: Colors.backgroundCard,
+  },
+  actionDisabled: {
+    opacity: 0.5,
+  },
+  actionText: {
+    fontSize: 14,
+    color: Colors.primary,
+  },
+  dangerText: {
+    color: Colors.error,
+  },
+});
@@ -0,0 +1,349 @@
+import { Colors } from "@/constants/theme";
+import {
+  parseCsv,
+  parseInlineMarkdown,
+  parseMarkdown,
+  tokenizeJson,
+  type JsonTokenKind,
+  type MarkdownBlock,
+  type PreviewKind,
+} from "@/services";
+import React, { useMemo } from "react";
+import {
+  FlatList,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+interface TextPreviewProps {
+  kind: Exclude<PreviewKind, "image">;
+  text: string;
+  truncated: boolean;
+}
+
+const MONOSPACE = Platform.select({ ios: "Menlo", default: "monospace" });
+
+// Highlighting builds one Text node per token, so big JSON is shown plain
+const MAX_HIGHLIGHTED_JSON_LENGTH = 100 * 1024;
+
+const JSON_COLORS: Record<JsonTokenKind, string> = {
+  key: Colors.primaryDark,
+  string: Colors.success,
+  number: Colors.warning,
+  literal: Colors.error,
+  punctuation: Colors.textSecondary,
+  plain: Colors.textPrimary,
+};
+
+function InlineMarkdown({ text }: { text: string }) {
+  return (
+    <>
+      {parseInlineMarkdown(text).map((span, index) => (
+        <Text
+          key={index}
+          style={[
+            span.bold && styles.bold,
+            span.italic && styles.italic,
+            span.code && styles.inlineCode,
+          ]}
+        >
+          {span.text}
+        </Text>
+      ))}
+    </>
+  );
+}
+
+function MarkdownBlockView({ block }: { block: MarkdownBlock }) {
+  switch (block.type) {
+    case "heading":
+      return (
+        <Text
+          style={[
+            styles.heading,
+            { fontSize: Math.max(15, 26 - block.level * 2) },
+          ]}
+        >
+          <InlineMarkdown text={block.text} />
+        </Text>
+      );
+    case "paragraph":
+      return (
+        <Text style={styles.paragraph}>
+          <InlineMarkdown text={block.text} />
+        </Text>
+      );
+    case "list":
+      return (
+        <View style={styles.list}>
+          {block.items.map((item, index) => (
+            <View key={index} style={styles.listItem}>
+              <Text style={styles.listBullet}>
+                {block.ordered ? `${index + 1}.` : "•"}
+              </Text>
+              <Text style={styles.listText}>
+                <InlineMarkdown text={item} />
+              </Text>
+            </View>
+          ))}
+        </View>
+      );
+    case "quote":
+      return (
+        <View style={styles.quote}>
+          <Text style={styles.quoteText}>
+            <InlineMarkdown text={block.text} />
+          </Text>
+        </View>
+      );
+    case "code":
+      return (
+        <ScrollView horizontal style={styles.codeBlock}>
+          <Text style={styles.mono}>{block.text}</Text>
+        </ScrollView>
+      );
+    case "rule":
+      return <View style={styles.rule} />;
+  }
+}
+
+/**
+ * In-app rendering of text files: plain text, code with line numbers,
+ * CSV as a table, highlighted JSON and basic Markdown.
+ */
+export function TextPreview({ kind, text, truncated }: TextPreviewProps) {
+  const notice = truncated ? (
+    <Text style={styles.notice}>
+      Preview shows the beginning of this file only.
+    </Text>
+  ) : null;
+
+  const lines = useMemo(() => text.split(/\r?\n/), [text]);
+  const csv = useMemo(
+    () => (kind === "csv" ? parseCsv(text) : null),
+    [kind, text],
+  );
+  const jsonTokens = useMemo(
+    () =>
+      kind === "json" && text.length <= MAX_HIGHLIGHTED_JSON_LENGTH
+        ? tokenizeJson(text)
+        : null,
+    [kind, text],
+  );
+  const markdown = useMemo(
+    () => (kind === "markdown" ? parseMarkdown(text) : null),
+    [kind, text],
+  );
+
+  if (csv) {
+    const [header, ...rows] = csv.rows;
+    return (
+      <ScrollView style={styles.container}>
+        {notice}
+        <ScrollView horizontal>
+          <View style={styles.table}>
+            {header && (
+              <View style={[styles.tableRow, styles.tableHeader]}>
+                {header.map((cell, index) => (
+                  <Text key={index} style={[styles.cell, styles.bold]}>
+                    {cell}
+                  </Text>
+                ))}
+              </View>
+            )}
+            {rows.map((row, rowIndex) => (
+              <View key={rowIndex} style={styles.tableRow}>
+                {row.map((cell, index) => (
+                  <Text key={index} style={styles.cell} numberOfLines={3}>
+                    {cell}
+                  </Text>
+                ))}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+        {csv.truncated && (
+          <Text style={styles.notice}>Only the first rows are shown.</Text>
+        )}
+      </ScrollView>
+    );
+  }
+
+  if (jsonTokens) {
+    return (
+      <ScrollView style={styles.container}>
+        {notice}
+        <ScrollView horizontal>
+          <Text style={styles.mono}>
+            {jsonTokens.map((token, index) => (
+              <Text key={index} style={{ color: JSON_COLORS[token.kind] }}>
+                {token.text}
+              </Text>
+            ))}
+          </Text>
+        </ScrollView>
+      </ScrollView>
+    );
+  }
+
+  if (markdown) {
+    return (
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.markdown}
+      >
+        {notice}
+        {markdown.map((block, index) => (
+          <MarkdownBlockView key={index} block={block} />
+        ))}
+      </ScrollView>
+    );
+  }
+
+  // Plain text and code: one row per line so long files stay fast
+  const showLineNumbers = kind === "code" || kind === "json";
+  return (
+    <FlatList
+      style={styles.container}
+      data={lines}
+      keyExtractor={(_line, index) => String(index)}
+      ListHeaderComponent={notice}
+      initialNumToRender={60}
+      renderItem={({ item, index }) => (
+        <View style={styles.line}>
+          {showLineNumbers && (
+            <Text style={[styles.mono, styles.lineNumber]}>{index + 1}</Text>
+          )}
+          <Text style={showLineNumbers ? styles.mono : styles.plainText}>
+            {item || " "}
+          </Text>
+        </View>
+      )}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.backgroundWhite,
+    padding: 16,
+  },
+  notice: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    fontStyle: "italic",
+    marginBottom: 12,
+  },
+  mono: {
+    fontFamily: MONOSPACE,
+    fontSize: 13,
+    lineHeight: 19,
+    color: Colors.textPrimary,
+  },
+  plainText: {
+    flex: 1,
+    fontSize: 15,
+    lineHeight: 22,
+    color: Colors.textPrimary,
+  },
+  line: {
+    flexDirection: "row",
+  },
+  lineNumber: {
+    width: 44,
+    color: Colors.textMuted,
+    textAlign: "right",
+    marginRight: 12,
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+    borderRadius: 8,
+    overflow: "hidden",
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  tableHeader: {
+    backgroundColor: Colors.backgroundAccent,
+  },
+  cell: {
+    width: 140,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 13,
+    color: Colors.textPrimary,
+  },
+  markdown: {
+    paddingBottom: 32,
+  },
+  heading: {
+    fontWeight: "800",
+    color: Colors.textPrimary,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  paragraph: {
+    fontSize: 15,
+    lineHeight: 23,
+    color: Colors.textPrimary,
+    marginBottom: 12,
+  },
+  bold: {
+    fontWeight: "700",
+  },
+  italic: {
+    fontStyle: "italic",
+  },
+  inlineCode: {
+    fontFamily: MONOSPACE,
+    backgroundColor: Colors.backgroundAccent,
+  },
+  list: {
+    marginBottom: 12,
+  },
+  listItem: {
+    flexDirection: "row",
+    marginBottom: 4,
+  },
+  listBullet: {
+    width: 24,
+    fontSize: 15,
+    color: Colors.textSecondary,
+  },
+  listText: {
+    flex: 1,
+    fontSize: 15,
+    lineHeight: 22,
+    color: Colors.textPrimary,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: Colors.primary,
+    paddingLeft: 12,
+    marginBottom: 12,
+  },
+  quoteText: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: Colors.textSecondary,
+    fontStyle: "italic",
+  },
+  codeBlock: {
+    backgroundColor: Colors.backgroundAccent,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  rule: {
+    height: 1,
+    backgroundColor: Colors.border,
+    marginVertical: 16,
+  },
+});
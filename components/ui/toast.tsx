@@ -1,7 +1,7 @@
 import { Colors } from "@/constants/theme";
 import { Ionicons } from "@expo/vector-icons";
 import React, { useEffect } from "react";
-import { Animated, StyleSheet, Text } from "react-native";
+import { Animated, StyleSheet, Text, TouchableOpacity } from "react-native";
 
 interface ToastProps {
   message: string;
@@ -9,6 +9,8 @@ interface ToastProps {
   visible: boolean;
   onDismiss: () => void;
   duration?: number;
+  actionText?: string; // e.g. "Undo"; shown as a button when onAction is set
+  onAction?: () => void;
 }
 
 export function Toast({
@@ -17,6 +19,8 @@ export function Toast({
   visible,
   onDismiss,
   duration = 3000,
+  actionText,
+  onAction,
 }: ToastProps) {
   const opacity = React.useRef(new Animated.Value(0)).current;
 
@@ -60,6 +64,15 @@ export function Toast({
     <Animated.View style={[styles.container, { opacity, backgroundColor }]}>
       <Ionicons name={iconName} size={20} color={Colors.textWhite} />
       <Text style={styles.message}>{message}</Text>
+      {actionText && onAction && (
+        <TouchableOpacity
+          style={styles.action}
+          onPress={onAction}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Text style={styles.actionText}>{actionText}</Text>
+        </TouchableOpacity>
+      )}
     </Animated.View>
   );
 }
@@ -88,4 +101,16 @@ const styles = StyleSheet.create({
     marginLeft: 12,
     flex: 1,
   },
+  action: {
+    marginLeft: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: "rgba(255, 255, 255, 0.2)",
+  },
+  actionText: {
+    color: Colors.textWhite,
+    fontSize: 14,
+    fontWeight: "700",
+  },
 });
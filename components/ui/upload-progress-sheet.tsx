@@ -0,0 +1,379 @@
+import { Colors } from "@/constants/theme";
+import {
+  formatDuration,
+  formatFileSize,
+  getFileIcon,
+  type UploadProgress,
+  type UploadQueueItem,
+} from "@/services";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface UploadProgressSheetProps {
+  visible: boolean;
+  items: UploadQueueItem[];
+  progress: Record<number, UploadProgress>;
+  onClose: () => void;
+  onPauseItem?: (itemId: number) => void;
+  onResumeItem?: (itemId: number) => void;
+  onCancelItem?: (itemId: number) => void;
+  onPauseAll?: () => void;
+  onResumeAll?: () => void;
+  onCancelAll?: () => void;
+}
+
+const HIT_SLOP = { top: 10, bottom: 10, left: 10, right: 10 };
+
+// Window used to average the transfer speed
+const SPEED_WINDOW_MS = 5000;
+
+interface Sample {
+  time: number;
+  loaded: number;
+}
+
+function getItemBytes(
+  item: UploadQueueItem,
+  progress: Record<number, UploadProgress>,
+): UploadProgress {
+  const live = progress[item.id];
+  const total = live?.total || item.size || 0;
+  if (item.state === "done") return { loaded: total, total };
+  if (live) return { loaded: live.loaded, total };
+  return { loaded: item.uploadedBytes, total };
+}
+
+export function UploadProgressSheet({
+  visible,
+  items,
+  progress,
+  onClose,
+  onPauseItem,
+  onResumeItem,
+  onCancelItem,
+  onPauseAll,
+  onResumeAll,
+  onCancelAll,
+}: UploadProgressSheetProps) {
+  const samplesRef = useRef<Sample[]>([]);
+  const [bytesPerSecond, setBytesPerSecond] = useState(0);
+
+  const totals = items.reduce(
+    (acc, item) => {
+      const bytes = getItemBytes(item, progress);
+      return {
+        loaded: acc.loaded + bytes.loaded,
+        total: acc.total + bytes.total,
+      };
+    },
+    { loaded: 0, total: 0 },
+  );
+  const overallPercent =
+    totals.total > 0 ? Math.min(100, (totals.loaded / totals.total) * 100) : 0;
+  const remainingSeconds =
+    bytesPerSecond > 0 ? (totals.total - totals.loaded) / bytesPerSecond : NaN;
+  const hasRunning = items.some(
+    (item) => item.state === "queued" || item.state === "uploading",
+  );
+  const hasPaused = items.some((item) => item.state === "paused");
+
+  // Track recent byte totals to derive a smoothed transfer speed
+  useEffect(() => {
+    const now = Date.now();
+    const samples = samplesRef.current;
+    const last = samples[samples.length - 1];
+
+    // A new batch (or a reset) makes old samples meaningless
+    if (last && totals.loaded < last.loaded) {
+      samples.length = 0;
+    }
+    samples.push({ time: now, loaded: totals.loaded });
+    while (samples.length > 2 && now - samples[0].time > SPEED_WINDOW_MS) {
+      samples.shift();
+    }
+
+    const first = samples[0];
+    const elapsed = (now - first.time) / 1000;
+    setBytesPerSecond(
+      elapsed > 0 ? Math.max(0, (totals.loaded - first.loaded) / elapsed) : 0,
+    );
+  }, [totals.loaded]);
+
+  function renderItem({ item }: { item: UploadQueueItem }) {
+    const bytes = getItemBytes(item, progress);
+    const percent =
+      bytes.total > 0 ? Math.min(100, (bytes.loaded / bytes.total) * 100) : 0;
+    const isPending =
+      item.state === "queued" ||
+      item.state === "uploading" ||
+      item.state === "paused";
+
+    const statusText =
+      item.state === "done"
+        ? "Uploaded"
+        : item.state === "failed"
+          ? item.error || "Failed"
+          : item.state === "cancelled"
+            ? "Cancelled"
+            : item.state === "paused"
+              ? `Paused at ${formatFileSize(bytes.loaded)} of ${formatFileSize(bytes.total)}`
+              : item.state === "queued"
+                ? "Waiting..."
+                : `${formatFileSize(bytes.loaded)} of ${formatFileSize(bytes.total)}`;
+
+    return (
+      <View style={styles.row}>
+        <Ionicons
+          name={getFileIcon(item.mimeType || "", "outline")}
+          size={24}
+          color={Colors.primary}
+        />
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowName} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <View style={styles.track}>
+            <View
+              style={[
+                styles.fill,
+                { width: `${percent}%` },
+                item.state === "failed" && styles.fillError,
+              ]}
+            />
+          </View>
+          <Text
+            style={[
+              styles.rowStatus,
+              item.state === "failed" && styles.rowStatusError,
+            ]}
+            numberOfLines={1}
+          >
+            {statusText}
+          </Text>
+        </View>
+        {item.state === "done" && (
+          <Ionicons name="checkmark-circle" size={22} color={Colors.success} />
+        )}
+        {item.state === "failed" && (
+          <Ionicons name="alert-circle" size={22} color={Colors.error} />
+        )}
+        {item.state === "cancelled" && (
+          <Ionicons name="close-circle" size={22} color={Colors.iconMuted} />
+        )}
+        {item.state === "paused" && onResumeItem && (
+          <TouchableOpacity
+            onPress={() => onResumeItem(item.id)}
+            hitSlop={HIT_SLOP}
+          >
+            <Ionicons name="play-circle" size={24} color={Colors.primary} />
+          </TouchableOpacity>
+        )}
+        {(item.state === "queued" || item.state === "uploading") &&
+          onPauseItem && (
+            <TouchableOpacity
+              onPress={() => onPauseItem(item.id)}
+              hitSlop={HIT_SLOP}
+            >
+              <Ionicons name="pause-circle" size={24} color={Colors.primary} />
+            </TouchableOpacity>
+          )}
+        {isPending && onCancelItem && (
+          <TouchableOpacity
+            onPress={() => onCancelItem(item.id)}
+            hitSlop={HIT_SLOP}
+          >
+            <Ionicons name="close-circle" size={24} color={Colors.error} />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Uploading {items.length} file(s)</Text>
+            <TouchableOpacity onPress={onClose} hitSlop={HIT_SLOP}>
+              <Ionicons name="close" size={24} color={Colors.textPrimary} />
+            </TouchableOpacity>
+          </View>
+
+          {/* Overall progress */}
+          <View style={styles.summary}>
+            <Text style={styles.summaryPercent}>
+              {Math.floor(overallPercent)}%
+            </Text>
+            <View style={styles.track}>
+              <View style={[styles.fill, { width: `${overallPercent}%` }]} />
+            </View>
+            <View style={styles.summaryStats}>
+              <Text style={styles.summaryText}>
+                {formatFileSize(bytesPerSecond)}/s
+              </Text>
+              <Text style={styles.summaryText}>
+                {formatDuration(remainingSeconds)} left
+              </Text>
+            </View>
+
+            {/* Batch controls */}
+            <View style={styles.actions}>
+              {hasRunning && onPauseAll && (
+                <TouchableOpacity style={styles.action} onPress={onPauseAll}>
+                  <Ionicons name="pause" size={16} color={Colors.primary} />
+                  <Text style={styles.actionText}>Pause all</Text>
+                </TouchableOpacity>
+              )}
+              {hasPaused && onResumeAll && (
+                <TouchableOpacity style={styles.action} onPress={onResumeAll}>
+                  <Ionicons name="play" size={16} color={Colors.primary} />
+                  <Text style={styles.actionText}>Resume all</Text>
+                </TouchableOpacity>
+              )}
+              {(hasRunning || hasPaused) && onCancelAll && (
+                <TouchableOpacity style={styles.action} onPress={onCancelAll}>
+                  <Ionicons name="close" size={16} color={Colors.error} />
+                  <Text style={[styles.actionText, styles.actionTextDanger]}>
+                    Cancel all
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+
+          <FlatList
+            data={items}
+            keyExtractor={(item) => String(item.id)}
+            renderItem={renderItem}
+            style={styles.list}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    backgroundColor: Colors.backgroundWhite,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 24,
+    maxHeight: "80%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 24,
+    paddingVertical: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: Colors.textPrimary,
+  },
+  summary: {
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  summaryPercent: {
+    fontSize: 28,
+    fontWeight: "800",
+    color: Colors.primary,
+    marginBottom: 8,
+  },
+  summaryStats: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 8,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontWeight: "500",
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 16,
+    marginTop: 12,
+  },
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: Colors.primary,
+  },
+  actionTextDanger: {
+    color: Colors.error,
+  },
+  list: {
+    paddingHorizontal: 24,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.textPrimary,
+    marginBottom: 6,
+  },
+  rowStatus: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 4,
+  },
+  rowStatusError: {
+    color: Colors.error,
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.backgroundAccent,
+    overflow: "hidden",
+  },
+  fill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.primary,
+  },
+  fillError: {
+    backgroundColor: Colors.error,
+  },
+});
@@ -0,0 +1,272 @@
+import { Colors } from "@/constants/theme";
+import { getLoggedInUser, getUsers, type User } from "@/services";
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface UserPickerModalProps {
+  visible: boolean;
+  title: string;
+  confirmText: string; // e.g. "Share"
+  busy?: boolean;
+  onSelect: (user: User) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal for choosing another user, e.g. to share files with: search by
+ * username or name, pick one, then confirm. The current user is not listed.
+ */
+export function UserPickerModal({
+  visible,
+  title,
+  confirmText,
+  busy = false,
+  onSelect,
+  onCancel,
+}: UserPickerModalProps) {
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState<User | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    let active = true;
+    setQuery("");
+    setSelected(null);
+    setLoading(true);
+    setError(null);
+    Promise.all([getUsers(), getLoggedInUser()])
+      .then(
+        ([result, me]) =>
+          active &&
+          setUsers((result.users || []).filter((user) => user.id !== me?.id)),
+      )
+      .catch((err) => active && setError(err.message || "Failed to load users"))
+      .finally(() => active && setLoading(false));
+    return () => {
+      active = false;
+    };
+  }, [visible]);
+
+  const queryLower = query.trim().toLowerCase();
+  const matches = users.filter(
+    (user) =>
+      !queryLower ||
+      user.username?.toLowerCase().includes(queryLower) ||
+      user.fullName?.toLowerCase().includes(queryLower),
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity
+              onPress={onCancel}
+              disabled={busy}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Ionicons name="close" size={24} color={Colors.textPrimary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.search}>
+            <Ionicons name="search" size={20} color={Colors.textMuted} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search by username or name..."
+              value={query}
+              onChangeText={setQuery}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!busy}
+            />
+          </View>
+
+          {loading ? (
+            <ActivityIndicator
+              color={Colors.primary}
+              size="large"
+              style={styles.status}
+            />
+          ) : error ? (
+            <Text style={[styles.status, styles.errorText]}>{error}</Text>
+          ) : (
+            <FlatList
+              data={matches}
+              keyExtractor={(item) => String(item.id)}
+              style={styles.list}
+              keyboardShouldPersistTaps="handled"
+              ListEmptyComponent={
+                <Text style={[styles.status, styles.emptyText]}>
+                  No users found
+                </Text>
+              }
+              renderItem={({ item }) => {
+                const isSelected = item.id === selected?.id;
+                return (
+                  <TouchableOpacity
+                    style={[styles.userRow, isSelected && styles.userRowActive]}
+                    onPress={() => setSelected(item)}
+                    disabled={busy}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name="person-circle"
+                      size={36}
+                      color={Colors.primary}
+                    />
+                    <View style={styles.userInfo}>
+                      <Text style={styles.userName} numberOfLines={1}>
+                        {item.fullName}
+                      </Text>
+                      <Text style={styles.userUsername} numberOfLines={1}>
+                        @{item.username}
+                      </Text>
+                    </View>
+                    {isSelected && (
+                      <Ionicons
+                        name="checkmark-circle"
+                        size={22}
+                        color={Colors.primary}
+                      />
+                    )}
+                  </TouchableOpacity>
+                );
+              }}
+            />
+          )}
+
+          <TouchableOpacity
+            style={[
+              styles.confirmButton,
+              (!selected || busy) && styles.confirmButtonDisabled,
+            ]}
+            onPress={() => selected && onSelect(selected)}
+            disabled={!selected || busy}
+            activeOpacity={0.7}
+          >
+            {busy ? (
+              <ActivityIndicator color={Colors.textWhite} />
+            ) : (
+              <Text style={styles.confirmButtonText}>{confirmText}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  sheet: {
+    backgroundColor: Colors.backgroundWhite,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 32,
+    maxHeight: "75%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "800",
+    color: Colors.textPrimary,
+  },
+  search: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: Colors.textPrimary,
+  },
+  list: {
+    flexGrow: 0,
+    minHeight: 120,
+  },
+  status: {
+    paddingVertical: 32,
+    textAlign: "center",
+  },
+  errorText: {
+    color: Colors.error,
+  },
+  emptyText: {
+    color: Colors.textMuted,
+  },
+  userRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  userRowActive: {
+    backgroundColor: Colors.primaryLight,
+  },
+  userInfo: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.textPrimary,
+  },
+  userUsername: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  confirmButton: {
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.primary,
+    alignItems: "center",
+  },
+  confirmButtonDisabled: {
+    opacity: 0.5,
+  },
+  confirmButtonText: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: Colors.textWhite,
+  },
+});
@@ -0,0 +1,126 @@
+import { Image } from "expo-image";
+import React from "react";
+import { StyleSheet } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+import { scheduleOnRN } from "react-native-worklets";
+
+interface ZoomableImageProps {
+  uri: string;
+  // Called when the image is zoomed in or back out (e.g. to lock paging)
+  onZoomChange?: (zoomed: boolean) => void;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 2.5;
+
+/**
+ * Full-size image with pinch-to-zoom, pan while zoomed and double-tap
+ * to toggle zoom.
+ */
+export function ZoomableImage({ uri, onZoomChange }: ZoomableImageProps) {
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  function notifyZoom(zoomed: boolean) {
+    onZoomChange?.(zoomed);
+  }
+
+  function reset() {
+    "worklet";
+    scale.value = withTiming(1);
+    savedScale.value = 1;
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+    scheduleOnRN(notifyZoom, false);
+  }
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((event) => {
+      scale.value = Math.min(
+        MAX_SCALE,
+        Math.max(MIN_SCALE * 0.8, savedScale.value * event.scale),
+      );
+    })
+    .onEnd(() => {
+      if (scale.value <= MIN_SCALE) {
+        reset();
+      } else {
+        savedScale.value = scale.value;
+        scheduleOnRN(notifyZoom, true);
+      }
+    });
+
+  // Only pans while zoomed, so swipes still reach the pager otherwise
+  const pan = Gesture.Pan()
+    .averageTouches(true)
+    .manualActivation(true)
+    .onTouchesMove((_event, state) => {
+      if (savedScale.value > 1) {
+        state.activate();
+      } else {
+        state.fail();
+      }
+    })
+    .onUpdate((event) => {
+      translateX.value = savedTranslateX.value + event.translationX;
+      translateY.value = savedTranslateY.value + event.translationY;
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      if (savedScale.value > 1) {
+        reset();
+      } else {
+        scale.value = withTiming(DOUBLE_TAP_SCALE);
+        savedScale.value = DOUBLE_TAP_SCALE;
+        scheduleOnRN(notifyZoom, true);
+      }
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Simultaneous(pinch, pan, doubleTap)}>
+      <Animated.View style={[styles.container, animatedStyle]}>
+        <Image
+          source={{ uri }}
+          style={styles.image}
+          contentFit="contain"
+          transition={150}
+        />
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  image: {
+    flex: 1,
+  },
+});
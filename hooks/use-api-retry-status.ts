@@ -0,0 +1,30 @@
+import { subscribeToApiRetries, type ApiRetryEvent } from "@/services";
+import { useEffect, useState } from "react";
+
+// Keep the status visible a little past the scheduled retry
+const RETRY_STATUS_LINGER_MS = 1500;
+
+/**
+ * Latest automatic API retry, or null once it should have completed.
+ */
+export function useApiRetryStatus(): ApiRetryEvent | null {
+  const [retry, setRetry] = useState<ApiRetryEvent | null>(null);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeToApiRetries((event) => {
+      setRetry(event);
+      clearTimeout(timer);
+      timer = setTimeout(
+        () => setRetry(null),
+        event.delayMs + RETRY_STATUS_LINGER_MS,
+      );
+    });
+    return () => {
+      unsubscribe();
+      clearTimeout(timer);
+    };
+  }, []);
+
+  return retry;
+}
@@ -0,0 +1,17 @@
+import {
+  getDownloadsSnapshot,
+  subscribeToDownloads,
+  type DownloadsSnapshot,
+} from "@/services";
+import { useEffect, useState } from "react";
+
+/**
+ * Live download manager state for screens.
+ */
+export function useDownloads(): DownloadsSnapshot {
+  const [snapshot, setSnapshot] = useState(getDownloadsSnapshot);
+
+  useEffect(() => subscribeToDownloads(setSnapshot), []);
+
+  return snapshot;
+}
@@ -0,0 +1,48 @@
+import {
+  saveFileToDevice,
+  sendFileToApp,
+  type FileMetadata,
+  type OpenFileEvent,
+  type OpenFileSource,
+} from "@/services";
+import { useCallback, useState } from "react";
+
+export type FileExportAction = "save" | "send";
+
+/**
+ * "Save to device" and "Send to..." for a file, with progress for rendering.
+ * `action` is the export in progress (null when idle) and `event` the latest
+ * download event while the file is fetched. Both functions throw on failure.
+ */
+export function useFileExport(source: OpenFileSource) {
+  const [action, setAction] = useState<FileExportAction | null>(null);
+  const [event, setEvent] = useState<OpenFileEvent | null>(null);
+
+  const save = useCallback(
+    async (file: FileMetadata) => {
+      setAction("save");
+      try {
+        return await saveFileToDevice(file, { source, onEvent: setEvent });
+      } finally {
+        setAction(null);
+        setEvent(null);
+      }
+    },
+    [source],
+  );
+
+  const send = useCallback(
+    async (file: FileMetadata) => {
+      setAction("send");
+      try {
+        await sendFileToApp(file, { source, onEvent: setEvent });
+      } finally {
+        setAction(null);
+        setEvent(null);
+      }
+    },
+    [source],
+  );
+
+  return { action, event, save, send };
+}
@@ -0,0 +1,40 @@
+import {
+  getCachedFile,
+  subscribeToDownloads,
+  type DownloadItem,
+  type FileIntegrity,
+  type FileMetadata,
+} from "@/services";
+import { useEffect, useState } from "react";
+
+/**
+ * How the local copy of a file was verified after downloading, or null when
+ * it is not on the device or could not be verified. Re-read whenever the
+ * downloads list changes, so a badge appears as soon as a download finishes.
+ */
+export function useFileIntegrity(
+  file: FileMetadata | null,
+): FileIntegrity | null {
+  const [integrity, setIntegrity] = useState<FileIntegrity | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    let active = true;
+    let lastItems: DownloadItem[] | null = null;
+
+    const unsubscribe = subscribeToDownloads(({ items }) => {
+      // Progress updates reuse the same list; only reload on real changes
+      if (items === lastItems) return;
+      lastItems = items;
+      getCachedFile(file.id)
+        .then((entry) => active && setIntegrity(entry?.integrity ?? null))
+        .catch((err) => console.warn("⚠️ Could not read file integrity:", err));
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [file]);
+
+  return integrity;
+}
@@ -0,0 +1,52 @@
+import {
+  transferFiles,
+  type FileMetadata,
+  type FileTransferMode,
+  type NameCollision,
+  type NameCollisionAction,
+} from "@/services";
+import { useCallback, useRef, useState } from "react";
+
+/**
+ * Move or copy files into a folder, asking about name collisions.
+ * `mode` is the transfer in progress (null when idle). While `collision` is
+ * set the transfer waits for `resolveCollision` (render it as a prompt).
+ * `transfer` throws when the transfer cannot start or the session expired.
+ */
+export function useFileTransfer() {
+  const [mode, setMode] = useState<FileTransferMode | null>(null);
+  const [collision, setCollision] = useState<NameCollision | null>(null);
+  const resolverRef = useRef<((action: NameCollisionAction) => void) | null>(
+    null,
+  );
+
+  const transfer = useCallback(
+    async (
+      files: FileMetadata[],
+      folderId: string | null,
+      transferMode: FileTransferMode,
+    ) => {
+      setMode(transferMode);
+      try {
+        return await transferFiles(files, folderId, transferMode, {
+          onCollision: (next) =>
+            new Promise<NameCollisionAction>((resolve) => {
+              resolverRef.current = resolve;
+              setCollision(next);
+            }),
+        });
+      } finally {
+        setMode(null);
+      }
+    },
+    [],
+  );
+
+  const resolveCollision = useCallback((action: NameCollisionAction) => {
+    resolverRef.current?.(action);
+    resolverRef.current = null;
+    setCollision(null);
+  }, []);
+
+  return { mode, collision, transfer, resolveCollision };
+}
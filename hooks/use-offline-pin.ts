@@ -0,0 +1,42 @@
+import {
+  getCachedFile,
+  setFileAvailableOffline,
+  type FileMetadata,
+} from "@/services";
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * "Keep available offline" state of a file.
+ * `setPinned` throws when the change fails so screens can report it.
+ */
+export function useOfflinePin(file: FileMetadata | null) {
+  const [pinned, setPinnedState] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    let active = true;
+    getCachedFile(file.id)
+      .then((entry) => active && setPinnedState(entry?.pinned ?? false))
+      .catch((err) => console.warn("⚠️ Could not read offline state:", err));
+    return () => {
+      active = false;
+    };
+  }, [file]);
+
+  const setPinned = useCallback(
+    async (enabled: boolean) => {
+      if (!file) return;
+      setUpdating(true);
+      try {
+        await setFileAvailableOffline(file, enabled);
+        setPinnedState(enabled);
+      } finally {
+        setUpdating(false);
+      }
+    },
+    [file],
+  );
+
+  return { pinned, updating, setPinned };
+}
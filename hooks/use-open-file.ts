@@ -0,0 +1,32 @@
+import {
+  openFile,
+  type FileMetadata,
+  type OpenFileEvent,
+  type OpenFileOptions,
+} from "@/services";
+import { useCallback, useState } from "react";
+
+/**
+ * Open a file and track its progress for rendering.
+ * `event` is the latest lifecycle event while a file is being opened,
+ * and null otherwise.
+ */
+export function useOpenFile() {
+  const [event, setEvent] = useState<OpenFileEvent | null>(null);
+
+  const open = useCallback(
+    async (
+      file: FileMetadata,
+      options: Omit<OpenFileOptions, "onEvent"> = {},
+    ) => {
+      try {
+        return await openFile(file, { ...options, onEvent: setEvent });
+      } finally {
+        setEvent(null);
+      }
+    },
+    [],
+  );
+
+  return { event, opening: event !== null, open };
+}
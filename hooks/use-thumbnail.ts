@@ -0,0 +1,43 @@
+import {
+  canHaveThumbnail,
+  getThumbnail,
+  subscribeToDownloads,
+  type DownloadItem,
+  type FileMetadata,
+} from "@/services";
+import { useEffect, useState } from "react";
+
+/**
+ * Thumbnail URI of a file, or null while there is none (rows show the
+ * file-type icon instead). Tried again when downloads change, since a
+ * finished download lets the thumbnail be generated on the device.
+ */
+export function useThumbnail(file: FileMetadata): string | null {
+  const [uri, setUri] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!canHaveThumbnail(file)) return;
+    let active = true;
+    let found = false;
+    let lastItems: DownloadItem[] | null = null;
+
+    const unsubscribe = subscribeToDownloads(({ items }) => {
+      // Progress updates reuse the same list; only retry on real changes
+      if (found || items === lastItems) return;
+      lastItems = items;
+      getThumbnail(file)
+        .then((thumbnail) => {
+          if (!active || !thumbnail) return;
+          found = true;
+          setUri(thumbnail);
+        })
+        .catch((err) => console.warn("⚠️ Could not load thumbnail:", err));
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [file]);
+
+  return uri;
+}
@@ -0,0 +1,17 @@
+import {
+  getUploadQueueSnapshot,
+  subscribeToUploadQueue,
+  type UploadQueueSnapshot,
+} from "@/services";
+import { useEffect, useState } from "react";
+
+/**
+ * Live upload queue state for screens.
+ */
+export function useUploadQueue(): UploadQueueSnapshot {
+  const [snapshot, setSnapshot] = useState(getUploadQueueSnapshot);
+
+  useEffect(() => subscribeToUploadQueue(setSnapshot), []);
+
+  return snapshot;
+}
@@ -39,9 +39,25 @@ export interface BackendFileResponse {
   uploaded_at?: string;
   upload_time?: string;
   file_path?: string; // API #12
+  content_hash?: string;
+  sha256?: string;
+  thumbnail_url?: string;
+  thumbnailUrl?: string;
+  folder_id?: string | number | null;
+  folderId?: string | number | null;
+  deleted_at?: string | null;
+  deletedAt?: string | null;
+  trashed_at?: string | null;
+  tags?: string[] | string | null; // Array, or comma-separated
   [key: string]: any;
 }
 
+function adaptTags(tags: BackendFileResponse["tags"]): string[] | undefined {
+  if (tags == null) return undefined;
+  const list = Array.isArray(tags) ? tags : tags.split(",");
+  return list.map((tag) => String(tag).trim()).filter(Boolean);
+}
+
 /**
  * Adapt backend file response to internal FileMetadata model.
  * Flexible mapping handles snake_case, camelCase, and abbreviated keys.
@@ -105,6 +121,21 @@ export function adaptFileResponse(
       new Date().toISOString(),
     downloadUrl:
       backendFile.download_url ?? backendFile.downloadUrl ?? backendFile.url,
+    contentHash: (
+      backendFile.content_hash ?? backendFile.sha256
+    )?.toLowerCase(),
+    thumbnailUrl: backendFile.thumbnail_url ?? backendFile.thumbnailUrl,
+    // Folder IDs are compared as strings; missing means top level
+    folderId:
+      backendFile.folder_id != null || backendFile.folderId != null
+        ? String(backendFile.folder_id ?? backendFile.folderId)
+        : null,
+    deletedAt:
+      backendFile.deleted_at ??
+      backendFile.deletedAt ??
+      backendFile.trashed_at ??
+      undefined,
+    tags: adaptTags(backendFile.tags),
   };
 }
 
@@ -0,0 +1,52 @@
+/**
+ * Folder Response Adapter
+ * Maps backend folder responses to internal Folder model.
+ * Handles different backend response shapes and key naming conventions.
+ */
+
+import type { Folder } from "../folder-service";
+
+export interface BackendFolderResponse {
+  id?: string | number;
+  folder_id?: string | number;
+  name?: string;
+  folder_name?: string;
+  folderName?: string;
+  parent_id?: string | number | null;
+  parentId?: string | number | null;
+  createdAt?: string;
+  created_at?: string;
+  [key: string]: any;
+}
+
+/**
+ * Adapt backend folder response to internal Folder model.
+ * IDs are kept as strings so they compare equal to FileMetadata.folderId.
+ */
+export function adaptFolderResponse(
+  backendFolder: BackendFolderResponse,
+): Folder {
+  const parentId = backendFolder.parent_id ?? backendFolder.parentId;
+  return {
+    id: String(backendFolder.folder_id ?? backendFolder.id ?? ""),
+    name:
+      backendFolder.name ??
+      backendFolder.folder_name ??
+      backendFolder.folderName ??
+      "Folder",
+    parentId: parentId != null ? String(parentId) : null,
+    createdAt:
+      backendFolder.created_at ??
+      backendFolder.createdAt ??
+      new Date().toISOString(),
+  };
+}
+
+/**
+ * Adapt array of backend folder responses.
+ */
+export function adaptFolderArray(
+  backendFolders: BackendFolderResponse[],
+): Folder[] {
+  return (backendFolders ?? []).map(adaptFolderResponse);
+}
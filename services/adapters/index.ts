@@ -20,6 +20,13 @@ export {
   type BackendFileResponse,
 } from "./file-adapter";
 
+// Folder adapter
+export {
+  adaptFolderArray,
+  adaptFolderResponse,
+  type BackendFolderResponse,
+} from "./folder-adapter";
+
 // User adapter
 export {
   adaptPaginatedUserResponse,
@@ -34,3 +41,9 @@ export {
   adaptShareResponse,
   type BackendShareResponse,
 } from "./share-adapter";
+
+// Upload policy adapter
+export {
+  adaptUploadPolicyResponse,
+  type BackendUploadPolicyResponse,
+} from "./upload-policy-adapter";
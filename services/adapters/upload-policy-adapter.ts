@@ -0,0 +1,62 @@
+/**
+ * Upload Policy Adapter
+ * Maps the backend upload policy document to the internal UploadPolicy model.
+ * Missing or malformed fields fall back to the client defaults.
+ */
+
+import type { UploadPolicy } from "../upload-policy";
+
+export interface BackendUploadPolicyResponse {
+  max_file_size?: number | string;
+  maxFileSize?: number;
+  max_batch_size?: number | string;
+  maxBatchSize?: number;
+  max_files?: number | string;
+  allowed_mime_types?: string[];
+  allowedMimeTypes?: string[];
+  blocked_extensions?: string[];
+  blockedExtensions?: string[];
+  [key: string]: any;
+}
+
+function toPositiveNumber(value: unknown): number | undefined {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter((entry): entry is string => typeof entry === "string")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Adapt a backend policy document, using `defaults` for anything it omits.
+ */
+export function adaptUploadPolicyResponse(
+  backendPolicy: BackendUploadPolicyResponse,
+  defaults: UploadPolicy,
+): UploadPolicy {
+  return {
+    maxFileSize:
+      toPositiveNumber(
+        backendPolicy.max_file_size ?? backendPolicy.maxFileSize,
+      ) ?? defaults.maxFileSize,
+    maxBatchSize:
+      toPositiveNumber(
+        backendPolicy.max_batch_size ??
+          backendPolicy.maxBatchSize ??
+          backendPolicy.max_files,
+      ) ?? defaults.maxBatchSize,
+    allowedMimeTypes:
+      toStringList(
+        backendPolicy.allowed_mime_types ?? backendPolicy.allowedMimeTypes,
+      ) ?? defaults.allowedMimeTypes,
+    blockedExtensions:
+      toStringList(
+        backendPolicy.blocked_extensions ?? backendPolicy.blockedExtensions,
+      )?.map((ext) => ext.replace(/^\./, "")) ?? defaults.blockedExtensions,
+  };
+}
@@ -11,12 +11,127 @@ import axios, {
 } from "axios";
 import { normalizeError } from "./normalize-error";
 
+/**
+ * Per-request retry settings.
+ * Pass `retry: false` in the request config to disable retries.
+ */
+export interface RetryConfig {
+  retries?: number; // Retries after the first attempt (default 4)
+}
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    retry?: false | RetryConfig;
+    retryAttempt?: number; // Retries made so far (set by the client)
+  }
+}
+
+/**
+ * Emitted before each automatic retry (e.g. to show "server waking up").
+ */
+export interface ApiRetryEvent {
+  url?: string;
+  attempt: number; // The attempt about to be made (2 = first retry)
+  maxAttempts: number;
+  delayMs: number;
+  status?: number;
+}
+
+type ApiRetryListener = (event: ApiRetryEvent) => void;
+
 // Base URL for the backend API (from environment variable)
 // Environment variable set per build profile in eas.json
 // Available profiles: preview (ngrok), render (Render deployment)
 const API_BASE_URL =
   process.env.EXPO_PUBLIC_API_BASE_URL || "http://localhost:8000";
 
+// Retry policy for transient failures (network blips, cold-starting hosts)
+const DEFAULT_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 10000;
+const RETRY_AFTER_MAX_MS = 30000;
+// Safe to repeat: the server may have processed the first attempt
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"];
+// The request never reached the app (gateway/overload), so any method may retry
+const RETRY_ANY_METHOD_STATUSES = [429, 502, 503];
+// Worth retrying for idempotent requests only
+const RETRY_IDEMPOTENT_STATUSES = [408, 500, 504];
+
+const retryListeners = new Set<ApiRetryListener>();
+
+/**
+ * Subscribe to automatic retry events. Returns an unsubscribe function.
+ */
+export function subscribeToApiRetries(listener: ApiRetryListener): () => void {
+  retryListeners.add(listener);
+  return () => {
+    retryListeners.delete(listener);
+  };
+}
+
+function getMaxRetries(config: InternalAxiosRequestConfig): number {
+  if (config.retry === false) return 0;
+  return config.retry?.retries ?? DEFAULT_RETRIES;
+}
+
+function shouldRetry(error: AxiosError): boolean {
+  const config = error.config;
+  if (!config || axios.isCancel(error)) return false;
+  if ((config.retryAttempt ?? 0) >= getMaxRetries(config)) return false;
+
+  const status = error.response?.status;
+  const idempotent = IDEMPOTENT_METHODS.includes(
+    (config.method ?? "get").toLowerCase(),
+  );
+  if (status) {
+    return (
+      RETRY_ANY_METHOD_STATUSES.includes(status) ||
+      (idempotent && RETRY_IDEMPOTENT_STATUSES.includes(status))
+    );
+  }
+  // No response: network error or timeout
+  return idempotent;
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(header: unknown): number | null {
+  if (typeof header !== "string" && typeof header !== "number") return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with jitter, unless the server says when to come back
+function getRetryDelay(error: AxiosError, retryNumber: number): number {
+  const retryAfter = parseRetryAfter(error.response?.headers?.["retry-after"]);
+  if (retryAfter !== null) return Math.min(retryAfter, RETRY_AFTER_MAX_MS);
+
+  const backoff = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** (retryNumber - 1),
+    RETRY_MAX_DELAY_MS,
+  );
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    }
+    signal?.addEventListener?.("abort", onAbort);
+  });
+}
+
 // Create axios instance with base configuration
 const apiClient: AxiosInstance = axios.create({
   baseURL: API_BASE_URL,
@@ -53,6 +168,35 @@ apiClient.interceptors.request.use(
 apiClient.interceptors.response.use(
   (response) => response,
   async (error: AxiosError) => {
+    // Retry transient failures before reporting them
+    if (shouldRetry(error)) {
+      const config = error.config!;
+      const retryNumber = (config.retryAttempt ?? 0) + 1;
+      const retries = getMaxRetries(config);
+      const delayMs = getRetryDelay(error, retryNumber);
+      console.warn(
+        `🔄 Retrying ${config.method?.toUpperCase()} ${config.url} (retry ${retryNumber}/${retries}) in ${Math.round(delayMs)}ms`,
+        error.response?.status ?? error.code,
+      );
+      retryListeners.forEach((listener) =>
+        listener({
+          url: config.url,
+          attempt: retryNumber + 1,
+          maxAttempts: retries + 1,
+          delayMs,
+          status: error.response?.status,
+        }),
+      );
+
+      try {
+        await waitForRetry(delayMs, config.signal as AbortSignal | undefined);
+      } catch (cancelError) {
+        return Promise.reject(normalizeError(cancelError));
+      }
+      config.retryAttempt = retryNumber;
+      return apiClient(config);
+    }
+
     console.error("❌ API Error:", {
       status: error.response?.status,
       url: error.response?.config?.url,
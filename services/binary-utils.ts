@@ -0,0 +1,84 @@
+/**
+ * Binary helpers for working with file bytes read via expo-file-system
+ * (which returns binary content as base64 strings).
+ */
+
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const BASE64_LOOKUP: Record<string, number> = {};
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET[i]] = i;
+}
+
+/**
+ * Decode a base64 string into raw bytes.
+ */
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, "");
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = BASE64_LOOKUP[clean[i]] ?? 0;
+    const b = BASE64_LOOKUP[clean[i + 1]] ?? 0;
+    const c = BASE64_LOOKUP[clean[i + 2]] ?? 0;
+    const d = BASE64_LOOKUP[clean[i + 3]] ?? 0;
+    const chunk = (a << 18) | (b << 12) | (c << 6) | d;
+
+    if (byteIndex < bytes.length) bytes[byteIndex++] = (chunk >> 16) & 0xff;
+    if (byteIndex < bytes.length) bytes[byteIndex++] = (chunk >> 8) & 0xff;
+    if (byteIndex < bytes.length) bytes[byteIndex++] = chunk & 0xff;
+  }
+
+  return bytes;
+}
+
+/**
+ * Encode raw bytes as a lowercase hex string.
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/**
+ * Decode UTF-8 bytes into a string.
+ * An incomplete sequence at the end (e.g. a cut-off read) is dropped;
+ * invalid bytes become U+FFFD.
+ */
+export function bytesToUtf8(bytes: Uint8Array): string {
+  let result = "";
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    const length =
+      byte < 0x80
+        ? 1
+        : byte >= 0xf0
+          ? 4
+          : byte >= 0xe0
+            ? 3
+            : byte >= 0xc0
+              ? 2
+              : 0;
+
+    if (length === 0) {
+      result += "\ufffd";
+      i += 1;
+      continue;
+    }
+    if (i + length > bytes.length) break;
+
+    let codePoint = length === 1 ? byte : byte & (0xff >> (length + 1));
+    for (let j = 1; j < length; j++) {
+      codePoint = (codePoint << 6) | (bytes[i + j] & 0x3f);
+    }
+    result += String.fromCodePoint(codePoint);
+    i += length;
+  }
+  return result;
+}
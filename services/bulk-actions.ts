@@ -0,0 +1,159 @@
+/**
+ * Actions on several selected files at once (dashboard and inbox).
+ * Each file is handled on its own: failures are collected into one result,
+ * so the screen can show a single summary, and the other files still go
+ * ahead. An expired session (401) stops the run and is thrown.
+ */
+
+import { startDownload } from "./download-manager";
+import type { FileMetadata } from "./file-service";
+import { addFileTag, validateTag } from "./file-tags";
+import { shareFile } from "./share-service";
+import { moveToTrash, restoreFromTrash } from "./trash-service";
+import { runWithConcurrency } from "./upload-scheduler";
+
+// Bulk moving and copying go through transferFiles (name collisions)
+export type BulkAction = "delete" | "restore" | "share" | "download" | "tag";
+
+export interface BulkActionResult {
+  succeeded: FileMetadata[]; // Updated metadata where the action changes it
+  failed: { name: string; error: string }[];
+}
+
+// Requests sent at the same time
+const BULK_CONCURRENCY = 3;
+
+const FAILURE_MESSAGES: Record<BulkAction, string> = {
+  delete: "Failed to delete file",
+  restore: "Failed to restore file",
+  share: "Failed to share file",
+  download: "Failed to start download",
+  tag: "Failed to tag file",
+};
+
+async function runBulkAction(
+  files: FileMetadata[],
+  action: BulkAction,
+  worker: (file: FileMetadata) => Promise<FileMetadata>,
+): Promise<BulkActionResult> {
+  const result: BulkActionResult = { succeeded: [], failed: [] };
+  let authError: any = null;
+
+  await runWithConcurrency(
+    files,
+    async (file) => {
+      try {
+        result.succeeded.push(await worker(file));
+      } catch (error: any) {
+        if (error.status === 401) {
+          authError = authError ?? error;
+          return;
+        }
+        console.error(`❌ Bulk ${action} failed:`, file.fileName, error);
+        result.failed.push({
+          name: file.fileName,
+          error: error.message || FAILURE_MESSAGES[action],
+        });
+      }
+    },
+    { concurrency: BULK_CONCURRENCY, shouldStop: () => authError !== null },
+  );
+
+  if (authError) throw authError;
+  return result;
+}
+
+/**
+ * Move files to the trash.
+ */
+export function bulkMoveToTrash(
+  files: FileMetadata[],
+): Promise<BulkActionResult> {
+  return runBulkAction(files, "delete", async (file) => {
+    await moveToTrash(file);
+    return file;
+  });
+}
+
+/**
+ * Put trashed files back (e.g. Undo after a bulk delete).
+ */
+export function bulkRestoreFromTrash(
+  files: FileMetadata[],
+): Promise<BulkActionResult> {
+  return runBulkAction(files, "restore", restoreFromTrash);
+}
+
+/**
+ * Share files with one user.
+ */
+export function bulkShare(
+  files: FileMetadata[],
+  receiverId: number,
+): Promise<BulkActionResult> {
+  return runBulkAction(files, "share", async (file) => {
+    const result = await shareFile({ fileId: file.id, receiverId });
+    if (!result.success) {
+      throw { message: result.error, code: "SHARE_ERROR" };
+    }
+    return file;
+  });
+}
+
+/**
+ * Start downloading files; progress shows on the Downloads screen.
+ */
+export function bulkDownload(files: FileMetadata[]): Promise<BulkActionResult> {
+  return runBulkAction(files, "download", async (file) => {
+    await startDownload(file);
+    return file;
+  });
+}
+
+/**
+ * Add a tag to files. Returns the updated files.
+ */
+export async function bulkTag(
+  files: FileMetadata[],
+  tag: string,
+): Promise<BulkActionResult> {
+  // Checked once instead of failing every file the same way
+  const validation = validateTag(tag);
+  if (!validation.valid) {
+    throw {
+      message: validation.error,
+      code: "VALIDATION_ERROR",
+    };
+  }
+  return runBulkAction(files, "tag", (file) => addFileTag(file, tag));
+}
+
+/**
+ * One-line summary of a bulk action for a toast.
+ * target is the user shared with, or the tag added.
+ */
+export function describeBulkResult(
+  result: BulkActionResult,
+  action: BulkAction,
+  target = "",
+): string {
+  const count = result.succeeded.length;
+  const files = count === 1 ? "1 file" : `${count} files`;
+  const parts: string[] = [];
+  if (count > 0) {
+    const summaries: Record<BulkAction, string> = {
+      delete: `Moved ${files} to the trash.`,
+      restore: `Restored ${files}.`,
+      share: `Shared ${files} with ${target}.`,
+      download: `Downloading ${files}.`,
+      tag: `Tagged ${files} "${target}".`,
+    };
+    parts.push(summaries[action]);
+  }
+  if (result.failed.length === 1 && count === 0) {
+    parts.push(result.failed[0].error);
+  } else if (result.failed.length > 0) {
+    parts.push(`${result.failed.length} failed.`);
+  }
+  return parts.join(" ") || "Nothing to do.";
+}
@@ -0,0 +1,275 @@
+/**
+ * Chunked, resumable uploads for large files.
+ * Uses a simple init/append/complete protocol against /api/v1/files/upload:
+ *
+ *   POST  /api/v1/files/upload/init              -> { upload_id, offset }
+ *   GET   /api/v1/files/upload/{id}              -> { offset } (confirmed bytes)
+ *   PATCH /api/v1/files/upload/{id}              -> { offset } (append chunk at Upload-Offset)
+ *   POST  /api/v1/files/upload/{id}/complete     -> { status, file_id }
+ *   DELETE /api/v1/files/upload/{id}             (abandon a session)
+ *
+ * The confirmed offset is tracked per file so an interrupted upload
+ * continues where the server left off instead of restarting from zero.
+ */
+
+import type { DocumentPickerAsset } from "expo-document-picker";
+import { EncodingType, readAsStringAsync } from "expo-file-system/legacy";
+import apiClient from "./api-client";
+import { base64ToBytes } from "./binary-utils";
+import { normalizeError } from "./normalize-error";
+
+// Files at or above this size are uploaded in chunks
+export const CHUNKED_UPLOAD_THRESHOLD = 10 * 1024 * 1024; // 10 MB
+
+const CHUNK_SIZE = 2 * 1024 * 1024; // 2 MB
+// Consecutive failed chunk attempts before giving up
+const MAX_CHUNK_RETRIES = 5;
+const CHUNK_RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * Server-side upload session for one file.
+ * Persist this to resume the upload after an app restart.
+ */
+export interface ChunkedUploadSession {
+  uploadId: string;
+  offset: number; // Bytes confirmed by the server
+}
+
+export interface ChunkedUploadOptions {
+  fileName: string;
+  mimeType: string;
+  folderId?: string | null; // Folder to upload into (top level when unset)
+  session?: ChunkedUploadSession | null;
+  onSessionUpdate?: (session: ChunkedUploadSession | null) => void;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Whether a file should be sent with the chunked protocol.
+ */
+export function shouldUploadInChunks(size: number | undefined): boolean {
+  return (size ?? 0) >= CHUNKED_UPLOAD_THRESHOLD;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function readOffset(data: any, headers?: any): number {
+  const headerOffset = headers?.["upload-offset"];
+  return Number(data?.offset ?? headerOffset ?? 0) || 0;
+}
+
+async function initUploadSession(
+  fileName: string,
+  mimeType: string,
+  fileSize: number,
+  folderId: string | null,
+  signal?: AbortSignal,
+): Promise<ChunkedUploadSession> {
+  const response = await apiClient.post<{
+    upload_id: string;
+    offset?: number;
+  }>(
+    "/api/v1/files/upload/init",
+    {
+      file_name: fileName,
+      file_type: mimeType,
+      file_size: fileSize,
+      ...(folderId ? { folder_id: folderId } : {}),
+    },
+    { signal },
+  );
+  return {
+    uploadId: response.data.upload_id,
+    offset: readOffset(response.data),
+  };
+}
+
+/**
+ * Ask the server how many bytes it has confirmed for a session.
+ * Returns null when the session no longer exists (expired or unknown).
+ */
+async function getConfirmedOffset(
+  uploadId: string,
+  signal?: AbortSignal,
+): Promise<number | null> {
+  try {
+    const response = await apiClient.get(`/api/v1/files/upload/${uploadId}`, {
+      signal,
+    });
+    return readOffset(response.data, response.headers);
+  } catch (error: any) {
+    const ne = normalizeError(error);
+    if (ne.status === 404 || ne.status === 410) {
+      return null;
+    }
+    throw ne;
+  }
+}
+
+async function appendChunk(
+  asset: DocumentPickerAsset,
+  session: ChunkedUploadSession,
+  fileSize: number,
+  onProgress?: (loaded: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<number> {
+  const length = Math.min(CHUNK_SIZE, fileSize - session.offset);
+  const base64Chunk = await readAsStringAsync(asset.uri, {
+    encoding: EncodingType.Base64,
+    position: session.offset,
+    length,
+  });
+  const chunk = base64ToBytes(base64Chunk);
+
+  const response = await apiClient.patch(
+    `/api/v1/files/upload/${session.uploadId}`,
+    chunk,
+    {
+      headers: {
+        "Content-Type": "application/offset+octet-stream",
+        "Upload-Offset": String(session.offset),
+      },
+      timeout: 60000,
+      onUploadProgress: (event) =>
+        onProgress?.(session.offset + event.loaded, fileSize),
+      signal,
+      // Failed chunks are retried below after resyncing the offset
+      retry: false,
+    },
+  );
+
+  // Fall back to the bytes we sent if the server does not echo the offset
+  const confirmed = readOffset(response.data, response.headers);
+  return confirmed > session.offset ? confirmed : session.offset + chunk.length;
+}
+
+async function completeUploadSession(
+  uploadId: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await apiClient.post<{ status: string; file_id: string }>(
+    `/api/v1/files/upload/${uploadId}/complete`,
+    undefined,
+    { signal },
+  );
+  return response.data.file_id;
+}
+
+/**
+ * Tell the server to discard a session (best effort, e.g. after cancel).
+ */
+export async function abandonUploadSession(uploadId: string): Promise<void> {
+  try {
+    await apiClient.delete(`/api/v1/files/upload/${uploadId}`);
+  } catch (error) {
+    console.warn("⚠️ Could not abandon upload session:", uploadId, error);
+  }
+}
+
+/**
+ * Upload a file in chunks, resuming an existing session when given.
+ * Returns the backend file_id once the upload is complete.
+ */
+export async function uploadFileInChunks(
+  asset: DocumentPickerAsset,
+  fileSize: number,
+  options: ChunkedUploadOptions,
+): Promise<string> {
+  const { fileName, mimeType, onSessionUpdate, onProgress, signal } = options;
+  const folderId = options.folderId ?? null;
+  let session: ChunkedUploadSession | null = options.session ?? null;
+
+  // Confirm where a previous session left off
+  if (session) {
+    const confirmed = await getConfirmedOffset(session.uploadId, signal);
+    if (confirmed === null) {
+      console.warn("⚠️ Upload session expired, starting over:", fileName);
+      session = null;
+    } else {
+      session = { ...session, offset: confirmed };
+    }
+  }
+
+  if (!session) {
+    session = await initUploadSession(
+      fileName,
+      mimeType,
+      fileSize,
+      folderId,
+      signal,
+    );
+  }
+  onSessionUpdate?.(session);
+  onProgress?.(session.offset, fileSize);
+  console.log(
+    "📦 Chunked upload:",
+    fileName,
+    "session",
+    session.uploadId,
+    "offset",
+    session.offset,
+    "/",
+    fileSize,
+  );
+
+  let failures = 0;
+  while (session.offset < fileSize) {
+    try {
+      const offset = await appendChunk(
+        asset,
+        session,
+        fileSize,
+        onProgress,
+        signal,
+      );
+      session = { ...session, offset };
+      onSessionUpdate?.(session);
+      onProgress?.(offset, fileSize);
+      failures = 0;
+    } catch (error: any) {
+      const ne = normalizeError(error);
+      // Cancelled by the caller: keep the session so it can be resumed
+      if (signal?.aborted) {
+        throw ne;
+      }
+      failures += 1;
+      // Client errors other than an offset conflict will not succeed on retry
+      const retryable = !ne.status || ne.status === 409 || ne.status >= 500;
+      if (!retryable || failures > MAX_CHUNK_RETRIES) {
+        throw ne;
+      }
+
+      console.warn(
+        `⚠️ Chunk failed (attempt ${failures}/${MAX_CHUNK_RETRIES}), resyncing offset:`,
+        ne.message,
+      );
+      await delay(CHUNK_RETRY_BASE_DELAY_MS * 2 ** (failures - 1));
+
+      // The chunk may have landed even though the response was lost
+      try {
+        const confirmed = await getConfirmedOffset(session.uploadId, signal);
+        if (confirmed === null) {
+          session = await initUploadSession(
+            fileName,
+            mimeType,
+            fileSize,
+            folderId,
+            signal,
+          );
+        } else {
+          session = { ...session, offset: confirmed };
+        }
+        onSessionUpdate?.(session);
+      } catch (resyncError) {
+        console.warn("⚠️ Could not resync upload offset:", resyncError);
+      }
+    }
+  }
+
+  const fileId = await completeUploadSession(session.uploadId, signal);
+  onSessionUpdate?.(null);
+  return fileId;
+}
@@ -0,0 +1,597 @@
+/**
+ * Download manager.
+ * Downloads files with createDownloadResumable so they report progress,
+ * can be paused, resumed or cancelled, and continue after an app restart.
+ * API #9: GET /api/v1/files/download/{file_id} (binary stream).
+ */
+
+import {
+  deleteDownloadRecords,
+  getCurrentUser,
+  getDownloadByFileId,
+  getDownloadRecord,
+  getDownloadRecords,
+  getInterruptedDownloads,
+  getToken,
+  insertDownloadRecord,
+  updateDownloadRecord,
+  type DownloadRecord,
+  type DownloadState,
+  type FileIntegrity,
+} from "@/storage";
+import {
+  createDownloadResumable,
+  getInfoAsync,
+  type DownloadProgressData,
+  type DownloadResumable,
+} from "expo-file-system/legacy";
+import { Platform } from "react-native";
+import apiClient from "./api-client";
+import {
+  addToCache,
+  deleteLocalCopy,
+  ensureLocalFileDirectory,
+  getCachedFileUri,
+  getLocalFileUri,
+  removeFromCache,
+} from "./file-cache";
+import {
+  getExpectedChecksum,
+  hashLocalFile,
+  MAX_HASHABLE_FILE_SIZE,
+} from "./file-checksum";
+import type { FileMetadata, UploadProgress } from "./file-service";
+import { normalizeError } from "./normalize-error";
+
+export type DownloadItem = DownloadRecord;
+export type { DownloadState };
+
+export interface DownloadsSnapshot {
+  items: DownloadItem[];
+  // Live byte progress of active downloads, keyed by download ID
+  progress: Record<number, UploadProgress>;
+}
+
+type DownloadsListener = (snapshot: DownloadsSnapshot) => void;
+
+// Minimum interval between progress notifications to listeners
+const PROGRESS_THROTTLE_MS = 250;
+// How often the byte count of an active download is saved
+const PERSIST_INTERVAL_MS = 2000;
+// Fresh attempts when a finished download fails verification
+const MAX_INTEGRITY_RETRIES = 2;
+
+const listeners = new Set<DownloadsListener>();
+let snapshot: DownloadsSnapshot = { items: [], progress: {} };
+let lastProgressEmit = 0;
+
+// Native tasks of active downloads, and why the user stopped one
+const activeTasks = new Map<number, DownloadResumable>();
+const stopIntents = new Map<number, "pause" | "cancel">();
+// Callers waiting for a download to finish (see downloadFile)
+const waiters = new Map<
+  number,
+  { resolve: (uri: string) => void; reject: (error: any) => void }[]
+>();
+
+function emit(next: Partial<DownloadsSnapshot>) {
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+async function refreshSnapshot(): Promise<void> {
+  emit({ items: await getDownloadRecords() });
+}
+
+function setDownloadProgress(
+  id: number,
+  progress: UploadProgress | null,
+  force = false,
+) {
+  const next = { ...snapshot.progress };
+  if (progress) {
+    next[id] = progress;
+  } else {
+    delete next[id];
+  }
+  snapshot = { ...snapshot, progress: next };
+
+  const now = Date.now();
+  if (force || now - lastProgressEmit >= PROGRESS_THROTTLE_MS) {
+    lastProgressEmit = now;
+    emit({});
+  }
+}
+
+function settleWaiters(id: number, localUri: string | null, error?: any) {
+  const pending = waiters.get(id) ?? [];
+  waiters.delete(id);
+  pending.forEach(({ resolve, reject }) =>
+    localUri ? resolve(localUri) : reject(error),
+  );
+}
+
+function waitForDownload(id: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const pending = waiters.get(id) ?? [];
+    pending.push({ resolve, reject });
+    waiters.set(id, pending);
+  });
+}
+
+// Response header lookup (native header names keep the server's casing)
+function getHeader(
+  headers: Record<string, string> | undefined,
+  name: string,
+): string | null {
+  const key = Object.keys(headers ?? {}).find(
+    (header) => header.toLowerCase() === name.toLowerCase(),
+  );
+  return key ? headers![key] : null;
+}
+
+function cacheDownload(
+  item: DownloadItem,
+  size: number,
+  etag: string | null = null,
+  integrity: FileIntegrity | null = null,
+): Promise<void> {
+  return addToCache({
+    fileId: item.fileId,
+    userId: item.userId,
+    fileName: item.fileName,
+    localUri: item.localUri,
+    size,
+    etag,
+    integrity,
+  });
+}
+
+/**
+ * Check a finished download against the size the server reported for the
+ * file and the checksum sent with the response (see getExpectedChecksum).
+ * Returns how the copy was verified (null when there was nothing to check
+ * against), or the problem found.
+ */
+async function verifyDownload(
+  item: DownloadItem,
+  size: number,
+  headers: Record<string, string>,
+  partial: boolean,
+): Promise<{ integrity: FileIntegrity | null; problem: string | null }> {
+  if (item.expectedSize && size !== item.expectedSize) {
+    return {
+      integrity: null,
+      problem: `Expected ${item.expectedSize} bytes but received ${size}`,
+    };
+  }
+
+  const checksum = getExpectedChecksum(
+    (name) => getHeader(headers, name),
+    partial,
+  );
+  if (checksum && size <= MAX_HASHABLE_FILE_SIZE) {
+    const actual = await hashLocalFile(item.localUri, checksum.algorithm);
+    if (actual !== checksum.value) {
+      return {
+        integrity: null,
+        problem: `The downloaded file does not match its ${checksum.header} checksum`,
+      };
+    }
+    return { integrity: checksum.algorithm, problem: null };
+  }
+  return { integrity: item.expectedSize ? "size" : null, problem: null };
+}
+
+/**
+ * Resume state for a download.
+ * Android resumes with a byte offset (the partial file size), so it can
+ * continue even when the app was killed before pausing.
+ */
+async function getResumeData(item: DownloadItem): Promise<string | undefined> {
+  if (item.resumeData) return item.resumeData;
+  if (Platform.OS !== "android") return undefined;
+
+  const info = await getInfoAsync(item.localUri);
+  return info.exists && info.size > 0 ? String(info.size) : undefined;
+}
+
+/**
+ * Run (or resume) the native download for a record.
+ * `attempt` counts fresh downloads after failed verification.
+ */
+async function runDownload(item: DownloadItem, attempt = 0): Promise<void> {
+  const token = await getToken();
+  if (!token) {
+    const error = { message: "Not authenticated", code: "AUTH_ERROR" };
+    await updateDownloadRecord(item.id, {
+      state: "failed",
+      error: error.message,
+    });
+    await refreshSnapshot();
+    settleWaiters(item.id, null, error);
+    return;
+  }
+
+  const url = `${apiClient.defaults.baseURL}/api/v1/files/download/${item.fileId}`;
+  let lastPersist = 0;
+
+  const onProgress = ({
+    totalBytesWritten,
+    totalBytesExpectedToWrite,
+  }: DownloadProgressData) => {
+    const total = totalBytesExpectedToWrite > 0 ? totalBytesExpectedToWrite : 0;
+    setDownloadProgress(item.id, { loaded: totalBytesWritten, total });
+
+    const now = Date.now();
+    if (now - lastPersist >= PERSIST_INTERVAL_MS) {
+      lastPersist = now;
+      updateDownloadRecord(item.id, {
+        bytesWritten: totalBytesWritten,
+        totalBytes: total,
+      }).catch((err) =>
+        console.warn("⚠️ Could not save download progress:", err),
+      );
+    }
+  };
+
+  let retry = false;
+  try {
+    await ensureLocalFileDirectory(item.fileId);
+    const resumeData = await getResumeData(item);
+    // downloadAsync makes native HTTP requests that bypass axios interceptors
+    const task = createDownloadResumable(
+      url,
+      item.localUri,
+      { headers: { Authorization: `Bearer ${token}` } },
+      onProgress,
+      resumeData,
+    );
+    activeTasks.set(item.id, task);
+    await updateDownloadRecord(item.id, { state: "downloading", error: null });
+    setDownloadProgress(
+      item.id,
+      { loaded: item.bytesWritten, total: item.totalBytes },
+      true,
+    );
+    await refreshSnapshot();
+
+    console.log(
+      "📥 Downloading",
+      item.fileName,
+      resumeData ? "(resuming)" : "",
+    );
+    const result = resumeData
+      ? await task.resumeAsync()
+      : await task.downloadAsync();
+
+    // Paused or cancelled: pauseDownload/cancelDownload finish the bookkeeping
+    if (stopIntents.has(item.id) || !result) return;
+
+    if (result.status !== 200 && result.status !== 206) {
+      // The file now holds the error response, so it cannot be resumed
+      await deleteLocalCopy(item.fileId, item.localUri);
+      await updateDownloadRecord(item.id, {
+        resumeData: null,
+        bytesWritten: 0,
+      });
+      throw {
+        message: `Download failed with status ${result.status}`,
+        code: result.status === 401 ? "AUTH_ERROR" : "DOWNLOAD_ERROR",
+        status: result.status,
+      };
+    }
+
+    const info = await getInfoAsync(item.localUri);
+    const size = info.exists ? info.size : 0;
+    const { integrity, problem } = await verifyDownload(
+      item,
+      size,
+      result.headers,
+      result.status === 206,
+    );
+    if (problem) {
+      // Truncated or corrupted: never keep it, start over from scratch
+      await deleteLocalCopy(item.fileId, item.localUri);
+      await updateDownloadRecord(item.id, {
+        resumeData: null,
+        bytesWritten: 0,
+      });
+      if (attempt < MAX_INTEGRITY_RETRIES) {
+        console.warn("⚠️ Download failed verification, retrying:", problem);
+        retry = true;
+        return;
+      }
+      throw { message: problem, code: "INTEGRITY_ERROR" };
+    }
+
+    await updateDownloadRecord(item.id, {
+      state: "done",
+      bytesWritten: size,
+      totalBytes: size,
+      resumeData: null,
+    });
+    console.log(
+      "✅ Download complete:",
+      item.fileName,
+      integrity ? `(verified: ${integrity})` : "(not verified)",
+    );
+    await cacheDownload(
+      item,
+      size,
+      getHeader(result.headers, "etag"),
+      integrity,
+    );
+    settleWaiters(item.id, item.localUri);
+  } catch (error: any) {
+    if (stopIntents.has(item.id)) return;
+
+    const ne = normalizeError(error);
+    console.error("❌ Download failed:", item.fileName, ne);
+    // Keep the partial file and resume state so the user can retry
+    await updateDownloadRecord(item.id, {
+      state: "failed",
+      error: ne.message || "Download failed",
+    });
+    settleWaiters(item.id, null, {
+      message: ne.message || "Download failed",
+      code: ne.code || "DOWNLOAD_ERROR",
+      status: ne.status,
+      original: ne.original ?? ne,
+    });
+  } finally {
+    if (!stopIntents.has(item.id)) {
+      activeTasks.delete(item.id);
+      setDownloadProgress(item.id, null, true);
+      await refreshSnapshot();
+    }
+    // Waiters stay registered and are settled by the new attempt
+    if (retry) {
+      await runDownload(
+        { ...item, resumeData: null, bytesWritten: 0 },
+        attempt + 1,
+      );
+    }
+  }
+}
+
+// Start (or join) the download of a file. With `wait`, the returned promise
+// settles when it finishes; it is registered before the download runs, so
+// even a download that fails right away settles it.
+async function beginDownload(
+  file: FileMetadata,
+  wait: boolean,
+): Promise<{ item: DownloadItem; finished: Promise<string> | null }> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw { message: "Not authenticated", code: "AUTH_ERROR" };
+  }
+  const fileId = String(file.id);
+
+  const existing = await getDownloadByFileId(fileId, user.id);
+  if (existing) {
+    if (existing.state === "downloading" && activeTasks.has(existing.id)) {
+      return {
+        item: existing,
+        finished: wait ? waitForDownload(existing.id) : null,
+      };
+    }
+    if (existing.state === "done") {
+      const info = await getInfoAsync(existing.localUri);
+      if (info.exists) {
+        await cacheDownload(existing, info.size);
+        return {
+          item: existing,
+          finished: wait ? Promise.resolve(existing.localUri) : null,
+        };
+      }
+    }
+    if (existing.state === "paused" || existing.state === "failed") {
+      const finished = wait ? waitForDownload(existing.id) : null;
+      void runDownload(existing);
+      return { item: existing, finished };
+    }
+    // Cancelled, or finished but the file is gone: start over
+    await deleteDownloadRecords([existing.id]);
+  }
+
+  const id = await insertDownloadRecord({
+    fileId,
+    userId: user.id,
+    fileName: file.fileName,
+    fileType: file.fileType,
+    localUri: getLocalFileUri(fileId, file.fileName),
+    totalBytes: file.fileSize,
+    expectedSize: file.fileSize > 0 ? file.fileSize : null,
+  });
+  const item = (await getDownloadRecord(id))!;
+  const finished = wait ? waitForDownload(item.id) : null;
+  void runDownload(item);
+  return { item, finished };
+}
+
+/**
+ * Start downloading a file, or return the existing download for it.
+ * A finished download whose local file still exists is reused;
+ * a paused or failed one is resumed.
+ */
+export async function startDownload(file: FileMetadata): Promise<DownloadItem> {
+  return (await beginDownload(file, false)).item;
+}
+
+export interface DownloadFileOptions {
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Download a file and wait until it is complete.
+ * Resolves with the local URI; rejects if the download fails, or is
+ * paused (code DOWNLOAD_PAUSED) or cancelled (code DOWNLOAD_CANCELLED).
+ */
+export async function downloadFile(
+  file: FileMetadata,
+  options: DownloadFileOptions = {},
+): Promise<string> {
+  const cachedUri = await getCachedFileUri(file.id);
+  if (cachedUri) {
+    console.log("📦 Using cached copy:", file.fileName);
+    return cachedUri;
+  }
+
+  const { item, finished } = await beginDownload(file, true);
+  const { onProgress } = options;
+  const unsubscribe = onProgress
+    ? subscribeToDownloads(({ progress }) => {
+        if (progress[item.id]) onProgress(progress[item.id]);
+      })
+    : null;
+  try {
+    return await finished!;
+  } finally {
+    unsubscribe?.();
+  }
+}
+
+/**
+ * Pause an active download, keeping what was downloaded so far.
+ */
+export async function pauseDownload(id: number): Promise<void> {
+  const task = activeTasks.get(id);
+  if (!task) return;
+
+  stopIntents.set(id, "pause");
+  try {
+    const state = await task.pauseAsync();
+    const progress = snapshot.progress[id];
+    await updateDownloadRecord(id, {
+      state: "paused",
+      resumeData: state.resumeData ?? null,
+      bytesWritten: progress?.loaded ?? 0,
+      totalBytes: progress?.total ?? 0,
+    });
+    console.log("⏸️ Download paused:", id);
+  } catch (err) {
+    console.warn("⚠️ Could not pause download:", id, err);
+    await updateDownloadRecord(id, { state: "paused" });
+  } finally {
+    activeTasks.delete(id);
+    stopIntents.delete(id);
+    setDownloadProgress(id, null, true);
+    await refreshSnapshot();
+    settleWaiters(id, null, {
+      message: "Download paused",
+      code: "DOWNLOAD_PAUSED",
+    });
+  }
+}
+
+/**
+ * Resume a paused or failed download.
+ */
+export async function resumeDownload(id: number): Promise<void> {
+  const item = await getDownloadRecord(id);
+  if (!item || (item.state !== "paused" && item.state !== "failed")) return;
+  void runDownload(item);
+}
+
+/**
+ * Cancel a download and delete the partial file.
+ */
+export async function cancelDownload(id: number): Promise<void> {
+  const item = await getDownloadRecord(id);
+  if (!item) return;
+
+  const task = activeTasks.get(id);
+  if (task) {
+    stopIntents.set(id, "cancel");
+    try {
+      await task.cancelAsync();
+    } catch (err) {
+      console.warn("⚠️ Could not cancel download task:", id, err);
+    }
+  }
+
+  await deleteLocalCopy(item.fileId, item.localUri);
+  await updateDownloadRecord(id, {
+    state: "cancelled",
+    resumeData: null,
+    bytesWritten: 0,
+  });
+  activeTasks.delete(id);
+  stopIntents.delete(id);
+  setDownloadProgress(id, null, true);
+  await refreshSnapshot();
+  settleWaiters(id, null, {
+    message: "Download cancelled",
+    code: "DOWNLOAD_CANCELLED",
+  });
+}
+
+/**
+ * Remove a download from the list (and its local file).
+ * Active downloads are cancelled first.
+ */
+export async function removeDownload(id: number): Promise<void> {
+  const item = await getDownloadRecord(id);
+  if (!item) return;
+  if (item.state === "done") {
+    // Also drops the file from the offline cache
+    await removeFromCache([item.fileId]);
+  } else {
+    if (activeTasks.has(id)) {
+      await cancelDownload(id);
+    }
+    await deleteLocalCopy(item.fileId, item.localUri);
+  }
+  await deleteDownloadRecords([id]);
+  await refreshSnapshot();
+}
+
+/**
+ * Reload the downloads list (e.g. after the cache evicted files).
+ */
+export async function refreshDownloads(): Promise<void> {
+  try {
+    await refreshSnapshot();
+  } catch (err) {
+    console.error("❌ Failed to load downloads:", err);
+  }
+}
+
+/**
+ * Resume downloads that were in flight when the app was killed.
+ */
+export async function restoreDownloads(): Promise<void> {
+  try {
+    const interrupted = await getInterruptedDownloads();
+    await refreshSnapshot();
+    interrupted
+      .filter((item) => !activeTasks.has(item.id))
+      .forEach((item) => {
+        console.log("🔁 Resuming interrupted download:", item.fileName);
+        void runDownload(item);
+      });
+  } catch (err) {
+    console.error("❌ Failed to restore downloads:", err);
+  }
+}
+
+/**
+ * Current downloads state (last known snapshot).
+ */
+export function getDownloadsSnapshot(): DownloadsSnapshot {
+  return snapshot;
+}
+
+/**
+ * Subscribe to downloads state changes.
+ * The listener is called immediately with the current snapshot.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToDownloads(listener: DownloadsListener): () => void {
+  listeners.add(listener);
+  listener(snapshot);
+  return () => {
+    listeners.delete(listener);
+  };
+}
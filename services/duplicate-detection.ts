@@ -0,0 +1,105 @@
+/**
+ * Content-hash duplicate detection for uploads.
+ * Picked files are hashed locally (SHA-256) and compared against hashes
+ * known for the user's files: returned by the backend, or cached locally
+ * when the file was uploaded from this device.
+ */
+
+import { deleteFileHashes, getFileHashes } from "@/storage";
+import type { DocumentPickerAsset } from "expo-document-picker";
+import { hashLocalFile, MAX_HASHABLE_FILE_SIZE } from "./file-checksum";
+import { getMyFiles, type FileMetadata } from "./file-service";
+
+// What to do with a picked file that is already uploaded
+export type DuplicateAction = "skip" | "upload" | "replace";
+
+export interface DuplicateCheckResult {
+  asset: DocumentPickerAsset;
+  contentHash: string | null; // null when the file could not be hashed
+  existingFile: FileMetadata | null; // Uploaded file with the same content
+}
+
+/**
+ * SHA-256 (hex) of a picked file, or null if it is too large or unreadable.
+ */
+export async function hashAsset(
+  asset: DocumentPickerAsset,
+): Promise<string | null> {
+  if ((asset.size ?? 0) > MAX_HASHABLE_FILE_SIZE) {
+    console.log("⏭️ Skipping hash for large file:", asset.name);
+    return null;
+  }
+
+  try {
+    return await hashLocalFile(asset.uri);
+  } catch (error) {
+    console.warn("⚠️ Could not hash file:", asset.name, error);
+    return null;
+  }
+}
+
+/**
+ * Map of content hash -> uploaded file for the user's current files.
+ * Cached hashes of files that no longer exist are pruned.
+ */
+async function getKnownFileHashes(
+  userId: number,
+): Promise<Map<string, FileMetadata>> {
+  const [files, storedHashes] = await Promise.all([
+    getMyFiles(),
+    getFileHashes(userId),
+  ]);
+
+  const filesById = new Map(files.map((file) => [String(file.id), file]));
+  const filesByHash = new Map<string, FileMetadata>();
+  files.forEach((file) => {
+    if (file.contentHash) filesByHash.set(file.contentHash, file);
+  });
+
+  const staleIds: string[] = [];
+  storedHashes.forEach(({ fileId, sha256 }) => {
+    const file = filesById.get(fileId);
+    if (!file) {
+      staleIds.push(fileId);
+    } else if (!filesByHash.has(sha256)) {
+      filesByHash.set(sha256, file);
+    }
+  });
+  deleteFileHashes(staleIds).catch((err) =>
+    console.warn("⚠️ Could not prune cached file hashes:", err),
+  );
+
+  return filesByHash;
+}
+
+/**
+ * Hash picked files and match them against the user's uploaded files.
+ * If the file list cannot be loaded, no duplicates are reported
+ * (hashes are still returned so they can be cached after upload).
+ * onProgress is called before each file is hashed.
+ */
+export async function findDuplicateUploads(
+  assets: DocumentPickerAsset[],
+  userId: number,
+  onProgress?: (checked: number, total: number) => void,
+): Promise<DuplicateCheckResult[]> {
+  let knownHashes = new Map<string, FileMetadata>();
+  try {
+    knownHashes = await getKnownFileHashes(userId);
+  } catch (error) {
+    console.warn("⚠️ Duplicate check unavailable:", error);
+  }
+
+  // Hash one file at a time to keep memory use bounded
+  const results: DuplicateCheckResult[] = [];
+  for (const asset of assets) {
+    onProgress?.(results.length, assets.length);
+    const contentHash = await hashAsset(asset);
+    results.push({
+      asset,
+      contentHash,
+      existingFile: contentHash ? (knownHashes.get(contentHash) ?? null) : null,
+    });
+  }
+  return results;
+}
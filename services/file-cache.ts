@@ -0,0 +1,269 @@
+/**
+ * Offline file cache.
+ * Downloaded files stay on the device, keyed by file ID, so opening a file
+ * again does not fetch it again. A file ID always refers to the same bytes
+ * (replacing a file creates a new one), so cached copies do not go stale.
+ * The cache is kept under a size cap by evicting the least recently used
+ * files; files pinned with "keep available offline" are never evicted.
+ *
+ * Each file is stored in its own directory named after its ID
+ * (files/<id>/<sanitized name>), so two files with the same name never
+ * overwrite each other and the entry's local_uri always holds that file.
+ */
+
+import {
+  deleteDownloadsForFiles,
+  deleteFileCacheEntries,
+  getCurrentUser,
+  getFileCacheEntries,
+  getFileCacheEntry,
+  getSetting,
+  saveFileCacheEntry,
+  setFileCachePinned,
+  setSetting,
+  touchFileCacheEntry,
+  type FileCacheEntry,
+  type FileIntegrity,
+  type NewFileCacheEntry,
+} from "@/storage";
+import {
+  deleteAsync,
+  documentDirectory,
+  getInfoAsync,
+  makeDirectoryAsync,
+  moveAsync,
+} from "expo-file-system/legacy";
+import { sanitizeFileName } from "./file-utils";
+
+export type { FileCacheEntry, FileIntegrity };
+
+const MB = 1024 * 1024;
+
+export const DEFAULT_CACHE_SIZE_LIMIT = 500 * MB;
+// Choices offered on the Profile screen
+export const CACHE_SIZE_LIMIT_OPTIONS = [
+  100 * MB,
+  250 * MB,
+  500 * MB,
+  1024 * MB,
+  2048 * MB,
+];
+
+const CACHE_SIZE_LIMIT_SETTING = "file_cache_size_limit";
+
+const LOCAL_FILES_DIRECTORY = `${documentDirectory}files/`;
+
+export interface FileCacheUsage {
+  totalBytes: number;
+  fileCount: number;
+  pinnedBytes: number;
+  pinnedCount: number;
+  limitBytes: number;
+}
+
+function getLocalFileDirectory(fileId: string): string {
+  // File IDs are UUIDs or numbers; anything else is replaced to stay one segment
+  return `${LOCAL_FILES_DIRECTORY}${fileId.replace(/[^A-Za-z0-9_-]/g, "_")}/`;
+}
+
+/**
+ * Local path for a file's bytes: files/<id>/<sanitized name>.
+ */
+export function getLocalFileUri(
+  fileId: string | number,
+  fileName: string,
+): string {
+  return `${getLocalFileDirectory(String(fileId))}${sanitizeFileName(fileName)}`;
+}
+
+/**
+ * Create the directory a file is downloaded into.
+ */
+export async function ensureLocalFileDirectory(
+  fileId: string | number,
+): Promise<void> {
+  await makeDirectoryAsync(getLocalFileDirectory(String(fileId)), {
+    intermediates: true,
+  });
+}
+
+/**
+ * Delete the local copy of a file (its whole directory when it is stored
+ * under files/<id>/, otherwise just the file).
+ */
+export async function deleteLocalCopy(
+  fileId: string,
+  localUri: string,
+): Promise<void> {
+  const directory = getLocalFileDirectory(fileId);
+  const target = localUri.startsWith(directory) ? directory : localUri;
+  try {
+    await deleteAsync(target, { idempotent: true });
+  } catch (err) {
+    console.warn("⚠️ Could not delete local copy:", target, err);
+  }
+}
+
+async function removeEntries(entries: FileCacheEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  for (const entry of entries) {
+    await deleteLocalCopy(entry.fileId, entry.localUri);
+  }
+  const fileIds = entries.map((entry) => entry.fileId);
+  await deleteFileCacheEntries(fileIds);
+  // The download records point at the deleted files
+  await deleteDownloadsForFiles(fileIds);
+}
+
+/**
+ * Maximum size of the cache in bytes.
+ */
+export async function getCacheSizeLimit(): Promise<number> {
+  const value = Number(await getSetting(CACHE_SIZE_LIMIT_SETTING));
+  return value > 0 ? value : DEFAULT_CACHE_SIZE_LIMIT;
+}
+
+/**
+ * Change the cache size cap, evicting files if the cache is now too big.
+ */
+export async function setCacheSizeLimit(bytes: number): Promise<void> {
+  await setSetting(CACHE_SIZE_LIMIT_SETTING, String(bytes));
+  await enforceCacheLimit();
+}
+
+/**
+ * Evict least recently used, unpinned files until the cache fits its cap.
+ * `keepFileId` protects a file that is about to be opened.
+ */
+export async function enforceCacheLimit(keepFileId?: string): Promise<void> {
+  const limit = await getCacheSizeLimit();
+  const entries = await getFileCacheEntries();
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  const evicted: FileCacheEntry[] = [];
+  for (const entry of entries) {
+    if (total <= limit) break;
+    if (entry.pinned || entry.fileId === keepFileId) continue;
+    evicted.push(entry);
+    total -= entry.size;
+  }
+
+  if (evicted.length > 0) {
+    console.log("🧹 Evicting", evicted.length, "cached file(s)");
+    await removeEntries(evicted);
+  }
+}
+
+/**
+ * Record a downloaded file in the cache.
+ */
+export async function addToCache(entry: NewFileCacheEntry): Promise<void> {
+  await saveFileCacheEntry(entry);
+  await enforceCacheLimit(entry.fileId);
+}
+
+/**
+ * Cache entry of a file for the current user, or null when the file is not
+ * cached (or its local copy has gone missing or is not in its own directory).
+ */
+export async function getCachedFile(
+  fileId: string | number,
+): Promise<FileCacheEntry | null> {
+  const user = await getCurrentUser();
+  if (!user) return null;
+
+  const entry = await getFileCacheEntry(String(fileId), user.id);
+  if (!entry) return null;
+
+  // Copies saved before per-file directories may hold another file's bytes
+  const info = entry.localUri.startsWith(getLocalFileDirectory(entry.fileId))
+    ? await getInfoAsync(entry.localUri)
+    : null;
+  if (!info?.exists) {
+    await removeEntries([entry]);
+    return null;
+  }
+  return entry;
+}
+
+/**
+ * Local URI of a cached file, marking it as recently used.
+ */
+export async function getCachedFileUri(
+  fileId: string | number,
+): Promise<string | null> {
+  const entry = await getCachedFile(fileId);
+  if (!entry) return null;
+  await touchFileCacheEntry(entry.fileId);
+  return entry.localUri;
+}
+
+/**
+ * Pin or unpin a cached file ("keep available offline").
+ */
+export async function setCachedFilePinned(
+  fileId: string | number,
+  pinned: boolean,
+): Promise<void> {
+  await setFileCachePinned(String(fileId), pinned);
+  // Unpinned files count towards the cap again
+  if (!pinned) {
+    await enforceCacheLimit();
+  }
+}
+
+/**
+ * Move the cached copy of a renamed file to its new name, so it is shared
+ * and opened under that name.
+ */
+export async function renameCachedFile(
+  fileId: string | number,
+  fileName: string,
+): Promise<void> {
+  const entry = await getCachedFile(fileId);
+  if (!entry) return;
+
+  const localUri = getLocalFileUri(entry.fileId, fileName);
+  if (localUri !== entry.localUri) {
+    await moveAsync({ from: entry.localUri, to: localUri });
+  }
+  // Keeps the pin and integrity of the entry
+  await saveFileCacheEntry({ ...entry, fileName, localUri });
+}
+
+/**
+ * Remove files from the cache (including pinned ones).
+ */
+export async function removeFromCache(fileIds: string[]): Promise<void> {
+  const ids = new Set(fileIds);
+  const entries = await getFileCacheEntries();
+  await removeEntries(entries.filter((entry) => ids.has(entry.fileId)));
+}
+
+/**
+ * Delete all cached files except pinned ones.
+ * Returns the number of bytes freed.
+ */
+export async function clearFileCache(): Promise<number> {
+  const entries = (await getFileCacheEntries()).filter(
+    (entry) => !entry.pinned,
+  );
+  await removeEntries(entries);
+  console.log("🧹 Cleared file cache:", entries.length, "file(s)");
+  return entries.reduce((sum, entry) => sum + entry.size, 0);
+}
+
+/**
+ * Current cache usage for display.
+ */
+export async function getFileCacheUsage(): Promise<FileCacheUsage> {
+  const entries = await getFileCacheEntries();
+  const pinned = entries.filter((entry) => entry.pinned);
+  return {
+    totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    fileCount: entries.length,
+    pinnedBytes: pinned.reduce((sum, entry) => sum + entry.size, 0),
+    pinnedCount: pinned.length,
+    limitBytes: await getCacheSizeLimit(),
+  };
+}
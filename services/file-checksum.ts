@@ -0,0 +1,147 @@
+/**
+ * Checksums of local files (expo-crypto over the file's bytes), and the
+ * checksums servers send with downloads.
+ */
+
+import type { FileIntegrity } from "@/storage";
+import * as Crypto from "expo-crypto";
+import {
+  EncodingType,
+  getInfoAsync,
+  readAsStringAsync,
+} from "expo-file-system/legacy";
+import { base64ToBytes, bytesToHex } from "./binary-utils";
+
+// Hashing holds the whole file in memory, so larger files are not checked
+export const MAX_HASHABLE_FILE_SIZE = 25 * 1024 * 1024; // 25 MB
+// Bytes read per call; small base64 strings keep the JS heap (and thread) free
+const HASH_READ_CHUNK_SIZE = 1024 * 1024; // 1 MB
+
+export type ChecksumAlgorithm = "md5" | "sha256";
+
+export interface ExpectedChecksum {
+  algorithm: ChecksumAlgorithm;
+  value: string; // Lowercase hex
+  header: string; // Where it came from (for logs)
+}
+
+const DIGEST_ALGORITHMS: Record<
+  ChecksumAlgorithm,
+  Crypto.CryptoDigestAlgorithm
+> = {
+  md5: Crypto.CryptoDigestAlgorithm.MD5,
+  sha256: Crypto.CryptoDigestAlgorithm.SHA256,
+};
+
+const HEX_LENGTHS: Record<ChecksumAlgorithm, number> = { md5: 32, sha256: 64 };
+
+/**
+ * Checksum (hex) of a local file, SHA-256 unless another algorithm is given.
+ * The file is read in chunks and hashed natively.
+ * Throws if the file cannot be read; callers check the size limit first.
+ */
+export async function hashLocalFile(
+  uri: string,
+  algorithm: ChecksumAlgorithm = "sha256",
+): Promise<string> {
+  const info = await getInfoAsync(uri);
+  if (!info.exists) {
+    throw { message: "File not found", code: "FILE_NOT_FOUND" };
+  }
+  const bytes = new Uint8Array(info.size);
+  for (let offset = 0; offset < info.size; offset += HASH_READ_CHUNK_SIZE) {
+    const base64 = await readAsStringAsync(uri, {
+      encoding: EncodingType.Base64,
+      position: offset,
+      length: Math.min(HASH_READ_CHUNK_SIZE, info.size - offset),
+    });
+    bytes.set(base64ToBytes(base64), offset);
+  }
+  const digest = await Crypto.digest(DIGEST_ALGORITHMS[algorithm], bytes);
+  return bytesToHex(new Uint8Array(digest));
+}
+
+// Hex or base64 checksum value as lowercase hex (null when malformed)
+function toHex(value: string, algorithm: ChecksumAlgorithm): string | null {
+  // Repr-Digest wraps base64 in colons (":<base64>:")
+  const trimmed = value.trim().replace(/^:|:$/g, "");
+  const length = HEX_LENGTHS[algorithm];
+  if (trimmed.length === length && /^[0-9a-f]+$/i.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  const hex = bytesToHex(base64ToBytes(trimmed));
+  return hex.length === length ? hex : null;
+}
+
+// "sha-256=<base64>, md5=<base64>" (Digest / Repr-Digest headers)
+function parseDigestHeader(value: string): Map<string, string> {
+  const digests = new Map<string, string>();
+  for (const part of value.split(",")) {
+    const separator = part.indexOf("=");
+    if (separator > 0) {
+      digests.set(
+        part.slice(0, separator).trim().toLowerCase(),
+        part.slice(separator + 1).trim(),
+      );
+    }
+  }
+  return digests;
+}
+
+/**
+ * Checksum of the whole file announced in download response headers, in
+ * order of preference: SHA-256 (X-Checksum-SHA256, Repr-Digest, Digest),
+ * then Content-MD5. ETags are not used: even when they look like an MD5 they
+ * are often a hash of something else (e.g. modification time and size).
+ * `partial` is set for 206 responses, whose Content-MD5 covers only the
+ * bytes sent.
+ */
+export function getExpectedChecksum(
+  getHeader: (name: string) => string | null,
+  partial = false,
+): ExpectedChecksum | null {
+  const reprDigest = parseDigestHeader(getHeader("repr-digest") ?? "");
+  const digest = parseDigestHeader(getHeader("digest") ?? "");
+
+  const candidates: {
+    header: string;
+    algorithm: ChecksumAlgorithm;
+    value: string | null | undefined;
+  }[] = [
+    {
+      header: "X-Checksum-SHA256",
+      algorithm: "sha256",
+      value: getHeader("x-checksum-sha256"),
+    },
+    {
+      header: "Repr-Digest",
+      algorithm: "sha256",
+      value: reprDigest.get("sha-256"),
+    },
+    { header: "Digest", algorithm: "sha256", value: digest.get("sha-256") },
+    {
+      header: "Content-MD5",
+      algorithm: "md5",
+      value: partial ? null : getHeader("content-md5"),
+    },
+  ];
+
+  for (const { header, algorithm, value } of candidates) {
+    const hex = value ? toHex(value, algorithm) : null;
+    if (hex) return { algorithm, value: hex, header };
+  }
+  return null;
+}
+
+const INTEGRITY_LABELS: Record<FileIntegrity, string> = {
+  size: "File size matches the server",
+  md5: "MD5 checksum matches the server",
+  sha256: "SHA-256 checksum matches the server",
+};
+
+/**
+ * What was checked for a verified copy (shown with the "verified" badge).
+ */
+export function describeFileIntegrity(integrity: FileIntegrity): string {
+  return INTEGRITY_LABELS[integrity];
+}
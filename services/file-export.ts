@@ -0,0 +1,247 @@
+/**
+ * Copies of files outside the app.
+ * "Save to device" keeps a copy where the user wants it: a folder picked with
+ * the Storage Access Framework on Android, the share sheet ("Save to Files")
+ * on iOS and a browser download on web. "Send to..." hands the file to
+ * another app through the system share sheet.
+ * Both reuse the cached download when there is one.
+ * Writing to a picked folder goes through one base64 string in JS (the
+ * Storage Access Framework offers no native copy), so it is capped at
+ * MAX_FOLDER_SAVE_SIZE; larger files have to go through "Send to...".
+ */
+
+import { getSetting, setSetting } from "@/storage";
+import {
+  EncodingType,
+  getInfoAsync,
+  readAsStringAsync,
+  StorageAccessFramework,
+} from "expo-file-system/legacy";
+import * as Sharing from "expo-sharing";
+import { Platform } from "react-native";
+import { openWithSystem } from "./file-opener";
+import {
+  formatFileSize,
+  openFile,
+  type FileMetadata,
+  type OpenFileEvent,
+  type OpenFileSource,
+} from "./file-service";
+import { normalizeError } from "./normalize-error";
+
+export interface ExportFileOptions {
+  source?: OpenFileSource;
+  onEvent?: (event: OpenFileEvent) => void; // Progress while downloading
+}
+
+// saved: written to the picked folder; presented: handed to the system
+// (share sheet / browser), which reports nothing back; cancelled: no folder
+export type SaveToDeviceStatus = "saved" | "presented" | "cancelled";
+
+export interface SaveToDeviceResult {
+  status: SaveToDeviceStatus;
+  location: string | null; // Folder name when saved
+}
+
+// Largest file written to a picked folder (read into memory as base64)
+export const MAX_FOLDER_SAVE_SIZE = 50 * 1024 * 1024; // 50 MB
+
+// Folder picked last time, offered first by the picker
+const EXPORT_DIRECTORY_SETTING = "export_directory_uri";
+
+// Readable folder name from a SAF tree URI (".../tree/primary%3ADownload")
+function getDirectoryName(directoryUri: string): string {
+  const path = decodeURIComponent(directoryUri.split("/tree/").pop() ?? "");
+  return path.split(/[:/]/).filter(Boolean).pop() || "the selected folder";
+}
+
+function assertFolderSaveSize(size: number): void {
+  if (size > MAX_FOLDER_SAVE_SIZE) {
+    throw {
+      message: `Files larger than ${formatFileSize(MAX_FOLDER_SAVE_SIZE)} cannot be saved to a folder. Use "Send to..." instead.`,
+      code: "FILE_TOO_LARGE",
+    };
+  }
+}
+
+async function saveWithStorageAccessFramework(
+  localUri: string,
+  fileName: string,
+  mimeType: string,
+): Promise<SaveToDeviceResult> {
+  const info = await getInfoAsync(localUri);
+  if (info.exists) {
+    assertFolderSaveSize(info.size);
+  }
+
+  const lastDirectory = await getSetting(EXPORT_DIRECTORY_SETTING);
+  const permission =
+    await StorageAccessFramework.requestDirectoryPermissionsAsync(
+      lastDirectory,
+    );
+  if (!permission.granted) {
+    return { status: "cancelled", location: null };
+  }
+  await setSetting(EXPORT_DIRECTORY_SETTING, permission.directoryUri);
+
+  // The picker adds the extension for known types; keep it for unknown ones
+  const dot = fileName.lastIndexOf(".");
+  const name =
+    mimeType !== "application/octet-stream" && dot > 0
+      ? fileName.slice(0, dot)
+      : fileName;
+  const targetUri = await StorageAccessFramework.createFileAsync(
+    permission.directoryUri,
+    name,
+    mimeType,
+  );
+  try {
+    const data = await readAsStringAsync(localUri, {
+      encoding: EncodingType.Base64,
+    });
+    await StorageAccessFramework.writeAsStringAsync(targetUri, data, {
+      encoding: EncodingType.Base64,
+    });
+  } catch (error) {
+    // Do not leave an empty file behind
+    await StorageAccessFramework.deleteAsync(targetUri, {
+      idempotent: true,
+    }).catch(() => {});
+    throw error;
+  }
+  return {
+    status: "saved",
+    location: getDirectoryName(permission.directoryUri),
+  };
+}
+
+/**
+ * Save a copy of a file outside the app (see above).
+ */
+export async function saveFileToDevice(
+  file: FileMetadata,
+  options: ExportFileOptions = {},
+): Promise<SaveToDeviceResult> {
+  const { source, onEvent } = options;
+  try {
+    if (Platform.OS === "android") {
+      // Refuse before downloading a file that could not be written anyway
+      assertFolderSaveSize(file.fileSize);
+    }
+
+    const { localUri, content } = await openFile(file, {
+      source,
+      openWith: "none",
+      onEvent,
+    });
+
+    if (Platform.OS === "android") {
+      const result = await saveWithStorageAccessFramework(
+        localUri,
+        file.fileName,
+        content.mimeType,
+      );
+      if (result.status === "saved") {
+        console.log(
+          "💾 Saved to device:",
+          file.fileName,
+          "->",
+          result.location,
+        );
+      }
+      return result;
+    }
+
+    await openWithSystem({
+      uri: localUri,
+      mimeType: content.mimeType,
+      fileName: file.fileName,
+    });
+    return { status: "presented", location: null };
+  } catch (error: any) {
+    const ne = normalizeError(error);
+    console.error("❌ Failed to save file to device:", ne);
+    throw {
+      message: ne.message || "Failed to save file",
+      code: ne.code || "SAVE_ERROR",
+      status: ne.status,
+      original: ne.original ?? ne,
+    };
+  }
+}
+
+// The file is fetched after the tap, so by the time it is ready the browser
+// may no longer count the share as user-initiated (NotAllowedError). The file
+// is then downloaded instead, as it is when the browser cannot share files.
+async function shareInBrowser(
+  blobUri: string,
+  fileName: string,
+  mimeType: string,
+): Promise<void> {
+  let downloading = false;
+  try {
+    const blob = await (await fetch(blobUri)).blob();
+    const shared = new File([blob], fileName, { type: mimeType });
+    if (navigator.canShare?.({ files: [shared] })) {
+      try {
+        await navigator.share({ files: [shared], title: fileName });
+        return;
+      } catch (error: any) {
+        if (error?.name !== "NotAllowedError") throw error;
+      }
+    }
+    console.log("📥 Sharing not possible, downloading instead:", fileName);
+    downloading = true;
+    await openWithSystem({ uri: blobUri, mimeType, fileName });
+  } finally {
+    // A browser download frees the URL itself once it has started
+    if (!downloading) URL.revokeObjectURL(blobUri);
+  }
+}
+
+/**
+ * Send a file to another app with the system share sheet ("Send to...").
+ */
+export async function sendFileToApp(
+  file: FileMetadata,
+  options: ExportFileOptions = {},
+): Promise<void> {
+  const { source, onEvent } = options;
+  try {
+    if (Platform.OS === "android") {
+      // Refuse before downloading a file that could not be written anyway
+      assertFolderSaveSize(file.fileSize);
+    }
+
+    const { localUri, content } = await openFile(file, {
+      source,
+      openWith: "none",
+      onEvent,
+    });
+
+    if (Platform.OS === "web") {
+      await shareInBrowser(localUri, file.fileName, content.mimeType);
+      return;
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw {
+        message: "Sharing is not available on this device",
+        code: "SHARE_UNAVAILABLE",
+      };
+    }
+    await Sharing.shareAsync(localUri, {
+      mimeType: content.mimeType,
+      dialogTitle: `Send ${file.fileName}`,
+    });
+  } catch (error: any) {
+    const ne = normalizeError(error);
+    console.error("❌ Failed to send file:", ne);
+    throw {
+      message: ne.message || "Failed to send file",
+      code: ne.code || "SHARE_ERROR",
+      status: ne.status,
+      original: ne.original ?? ne,
+    };
+  }
+}
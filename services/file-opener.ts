@@ -0,0 +1,79 @@
+/**
+ * Platform file opener.
+ * Hands a file that is ready on the device to the system:
+ * - Android: ACTION_VIEW intent with a content:// URI (the default app opens it)
+ * - iOS: the share sheet, which previews the file (Quick Look) and offers
+ *   "Open in..." apps
+ * - Web: a browser download of the bytes (blob URL)
+ */
+
+import { getContentUriAsync } from "expo-file-system/legacy";
+import * as IntentLauncher from "expo-intent-launcher";
+import * as Sharing from "expo-sharing";
+import { Platform } from "react-native";
+
+export interface SystemOpenRequest {
+  uri: string; // file:// on native, blob: or http(s): on web
+  mimeType: string;
+  fileName: string;
+}
+
+// How long a blob URL stays valid after starting a browser download
+const BLOB_URL_LIFETIME_MS = 60000;
+
+async function openOnAndroid({ uri, mimeType }: SystemOpenRequest) {
+  // Convert file:// URI to content:// URI (required for Android 7+)
+  const contentUri = await getContentUriAsync(uri);
+  console.log("🔗 Opening content URI:", contentUri);
+  await IntentLauncher.startActivityAsync("android.intent.action.VIEW", {
+    data: contentUri,
+    flags: 1, // FLAG_GRANT_READ_URI_PERMISSION
+    type: mimeType,
+  });
+}
+
+async function openOnIos({ uri, mimeType, fileName }: SystemOpenRequest) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw {
+      message: "Opening files is not available on this device",
+      code: "OPEN_UNAVAILABLE",
+    };
+  }
+  console.log("🔗 Presenting file:", uri);
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: fileName });
+}
+
+function downloadInBrowser({ uri, fileName }: SystemOpenRequest) {
+  const link = document.createElement("a");
+  link.href = uri;
+  link.download = fileName;
+  link.rel = "noopener";
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers
+  if (uri.startsWith("blob:")) {
+    setTimeout(() => URL.revokeObjectURL(uri), BLOB_URL_LIFETIME_MS);
+  }
+}
+
+/**
+ * Open a file with whatever the platform offers (see above).
+ */
+export async function openWithSystem(
+  request: SystemOpenRequest,
+): Promise<void> {
+  switch (Platform.OS) {
+    case "android":
+      return openOnAndroid(request);
+    case "ios":
+      return openOnIos(request);
+    case "web":
+      return downloadInBrowser(request);
+    default:
+      throw {
+        message: "Opening files is not supported on this platform",
+        code: "OPEN_UNAVAILABLE",
+      };
+  }
+}
@@ -3,17 +3,42 @@
  * Handles file upload, listing, and management via backend APIs.
  */
 
-import { getToken } from "@/storage";
+import { deletePlaybackPositions } from "@/storage";
 import * as DocumentPicker from "expo-document-picker";
-import {
-  cacheDirectory,
-  downloadAsync,
-  getContentUriAsync,
-} from "expo-file-system/legacy";
-import * as IntentLauncher from "expo-intent-launcher";
+import { getInfoAsync } from "expo-file-system/legacy";
+import { Platform } from "react-native";
 import { adaptFileArray, adaptFileResponse } from "./adapters/file-adapter";
 import apiClient from "./api-client";
-import { normalizeError } from "./normalize-error";
+import { handleTokenExpired } from "./auth-service";
+import {
+  shouldUploadInChunks,
+  uploadFileInChunks,
+  type ChunkedUploadSession,
+} from "./chunked-upload";
+import { downloadFile, type DownloadItem } from "./download-manager";
+import {
+  getCachedFile,
+  getCachedFileUri,
+  removeFromCache,
+  renameCachedFile,
+  setCachedFilePinned,
+} from "./file-cache";
+import { hashLocalFile, MAX_HASHABLE_FILE_SIZE } from "./file-checksum";
+import { openWithSystem } from "./file-opener";
+import {
+  checkBlobContent,
+  checkFileContent,
+  type ContentTypeCheck,
+} from "./file-sniffer";
+import { decodeFileName, validateFileName } from "./file-utils";
+import { normalizeError, type NormalizedError } from "./normalize-error";
+import { deleteThumbnails } from "./thumbnails";
+import {
+  loadUploadPolicy,
+  validateUploadBatch,
+  validateUploadFile,
+} from "./upload-policy";
+import { runWithConcurrency } from "./upload-scheduler";
 
 /**
  * File metadata.
@@ -30,17 +55,87 @@ export interface FileMetadata {
   uploadedByEmail?: string;
   timestamp: string;
   downloadUrl?: string;
+  contentHash?: string; // SHA-256 (hex), when the backend provides one
+  thumbnailUrl?: string; // Absolute or API-relative, when the backend has one
+  folderId?: string | null; // Containing folder (null = top level)
+  deletedAt?: string; // When it was moved to the trash
+  tags?: string[];
 }
 
 export interface UploadResult {
   success: boolean;
   file?: FileMetadata;
   error?: string;
+  status?: number; // HTTP status of a failed upload, if any
+  cancelled?: boolean; // True when the upload was aborted via its signal
+  rejected?: boolean; // True when the upload policy refused the file (not retryable)
+}
+
+/**
+ * Byte progress of a single upload.
+ */
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+/**
+ * Options for a single upload.
+ * Chunk session fields only apply to large files (chunked mode).
+ */
+export interface UploadOptions {
+  // Name to upload under, already decoded (default: the decoded asset name)
+  fileName?: string;
+  folderId?: string | null; // Folder to upload into (top level when unset)
+  chunkSession?: ChunkedUploadSession | null;
+  onChunkSessionUpdate?: (session: ChunkedUploadSession | null) => void;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal; // Abort to cancel (or pause) the upload
+}
+
+/**
+ * Options for a batch upload.
+ * onFileProgress receives the index of the file within the picker result.
+ */
+export interface MultiUploadOptions {
+  concurrency?: number; // Uploads in flight at once (default 3)
+  onFileProgress?: (index: number, progress: UploadProgress) => void;
+  signal?: AbortSignal; // Abort to cancel every remaining upload
 }
 
+// Default number of parallel uploads in a batch
+export const DEFAULT_UPLOAD_CONCURRENCY = 3;
+// Consecutive 5xx responses after which a batch stops launching uploads
+const MAX_CONSECUTIVE_SERVER_ERRORS = 3;
+
 export interface MultiUploadResult {
   saved: FileMetadata[];
   failed: { name: string; error: string }[];
+  // Files never attempted because the batch stopped early (e.g. server down)
+  skipped: { name: string; reason: string }[];
+  // Files cancelled by the user (in flight or not yet started)
+  cancelled: { name: string }[];
+}
+
+/**
+ * A change made to a file from one screen, so lists on other screens can
+ * show it right away (before their next reload).
+ */
+export type FileChange =
+  | { type: "renamed"; fileId: string; fileName: string }
+  | {
+      type: "trashed" | "restored";
+      fileId: string;
+      fileName: string;
+      file: FileMetadata;
+    };
+
+type FileChangeListener = (change: FileChange) => void;
+
+const fileChangeListeners = new Set<FileChangeListener>();
+
+export function notifyFileChange(change: FileChange): void {
+  fileChangeListeners.forEach((listener) => listener(change));
 }
 
 /**
@@ -65,49 +160,75 @@ export async function pickFile(): Promise<DocumentPicker.DocumentPickerResult> {
 
 /**
  * Upload a single file to the backend.
+ * Large files are sent in resumable chunks; smaller ones in one request.
+ * Files that break the upload policy are rejected before anything is sent.
  */
 export async function uploadFile(
   asset: DocumentPicker.DocumentPickerAsset,
   userId: number,
+  options: UploadOptions = {},
 ): Promise<UploadResult> {
+  // Decode filename in case it comes URL-encoded from the file system
+  const decodedFileName = options.fileName ?? decodeFileName(asset.name);
+
+  // Trust the file's content over its name/picker type when they disagree
+  const content = await checkFileContent(
+    asset.uri,
+    decodedFileName,
+    asset.mimeType,
+  );
+  const mimeType = content.mimeType;
+
+  const rejection = validateUploadFile(
+    { ...asset, name: decodedFileName, mimeType },
+    await loadUploadPolicy(),
+  );
+  if (rejection) {
+    console.warn("🚫 Upload rejected by policy:", asset.name, rejection);
+    return { success: false, error: rejection, rejected: true };
+  }
+
   try {
-    // Decode filename in case it comes URL-encoded from the file system
-    const decodedFileName = decodeURIComponent(asset.name);
+    const fileSize = asset.size ?? 0;
     console.log("📤 Uploading file:", decodedFileName, "UserId:", userId);
-    const formData = new FormData();
-
-    // Create file object for upload
-    const fileToUpload = {
-      uri: asset.uri,
-      type: asset.mimeType || "application/octet-stream",
-      name: decodedFileName,
-    } as any;
-
-    formData.append("file", fileToUpload);
-
-    // API #7: Upload file — Bearer token identifies user, no need for userId
-    const response = await apiClient.post<{
-      status: string;
-      file_id: string;
-    }>("/api/v1/files/upload", formData, {
-      headers: {
-        "Content-Type": "multipart/form-data",
-      },
-      timeout: 60000, // Extended timeout for file uploads
-    });
 
-    console.log("✅ File upload response received:", response.data);
+    const reportProgress = (loaded: number, total: number) =>
+      options.onProgress?.({ loaded, total: total || fileSize });
+
+    let fileId: string;
+    if (shouldUploadInChunks(asset.size)) {
+      fileId = await uploadFileInChunks(asset, fileSize, {
+        fileName: decodedFileName,
+        mimeType,
+        folderId: options.folderId,
+        session: options.chunkSession,
+        onSessionUpdate: options.onChunkSessionUpdate,
+        onProgress: reportProgress,
+        signal: options.signal,
+      });
+    } else {
+      fileId = await uploadFileInSingleRequest(
+        asset,
+        decodedFileName,
+        mimeType,
+        options.folderId ?? null,
+        reportProgress,
+        options.signal,
+      );
+    }
+    reportProgress(fileSize, fileSize);
+
+    console.log("✅ File uploaded:", decodedFileName, "file_id:", fileId);
 
-    // Convert backend response to FileMetadata format
-    // Note: Backend returns file_id as UUID string; adapter will normalize on next getMyFiles call
-    const uploadedFile: FileMetadata = {
-      id: 0, // Placeholder; real ID comes from backend via getMyFiles
+    const uploadedFile = await resolveUploadedFile(fileId, {
+      id: fileId,
       fileName: decodedFileName,
-      fileType: asset.mimeType || "application/octet-stream",
-      fileSize: asset.size || 0,
-      uploadedByUserId: 0, // Populated on next getMyFiles
+      fileType: mimeType,
+      fileSize,
+      uploadedByUserId: userId,
       timestamp: new Date().toISOString(),
-    };
+      folderId: options.folderId ?? null,
+    });
 
     return {
       success: true,
@@ -115,54 +236,161 @@ export async function uploadFile(
     };
   } catch (error: any) {
     const ne = normalizeError(error);
+    if (options.signal?.aborted || ne.code === "ERR_CANCELED") {
+      console.log("⏹️ Upload cancelled:", asset.name);
+      return { success: false, error: "Upload cancelled", cancelled: true };
+    }
     console.error("File upload failed:", ne);
     return {
       success: false,
       error: ne.message || "Upload failed",
+      status: ne.status,
     };
   }
 }
 
+/**
+ * Build the FileMetadata for a just-uploaded file from the server record.
+ * The upload already succeeded, so a failed lookup falls back to what we
+ * know locally (with the real file_id) instead of failing the upload.
+ */
+async function resolveUploadedFile(
+  fileId: string,
+  fallback: FileMetadata,
+): Promise<FileMetadata> {
+  try {
+    const details = await getFileDetailsById(fileId);
+    if (details) {
+      return {
+        ...details,
+        id: details.id || fileId,
+        uploadedByUserId: details.uploadedByUserId || fallback.uploadedByUserId,
+      };
+    }
+  } catch (error) {
+    console.warn("⚠️ Could not load details for uploaded file:", fileId, error);
+  }
+  return fallback;
+}
+
+/**
+ * Upload a file as one multipart POST. Returns the backend file_id.
+ */
+async function uploadFileInSingleRequest(
+  asset: DocumentPicker.DocumentPickerAsset,
+  fileName: string,
+  mimeType: string,
+  folderId: string | null,
+  onProgress?: (loaded: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  const formData = new FormData();
+
+  // Create file object for upload
+  const fileToUpload = {
+    uri: asset.uri,
+    type: mimeType,
+    name: fileName,
+  } as any;
+
+  formData.append("file", fileToUpload);
+  if (folderId) {
+    formData.append("folder_id", folderId);
+  }
+
+  // API #7: Upload file — Bearer token identifies user, no need for userId
+  const response = await apiClient.post<{
+    status: string;
+    file_id: string;
+  }>("/api/v1/files/upload", formData, {
+    headers: {
+      "Content-Type": "multipart/form-data",
+    },
+    timeout: 60000, // Extended timeout for file uploads
+    onUploadProgress: (event) => onProgress?.(event.loaded, event.total ?? 0),
+    signal,
+  });
+
+  console.log("✅ File upload response received:", response.data);
+  return response.data.file_id;
+}
+
 /**
  * Upload multiple files to the backend.
+ * Files that break the upload policy are reported in `failed` without uploading.
+ * Runs a bounded number of uploads in parallel; results keep the picker order.
+ * Stops launching new uploads after repeated server (5xx) errors,
+ * or when options.signal is aborted (remaining files are reported as cancelled).
  */
 export async function uploadMultipleFiles(
   pickerResult: DocumentPicker.DocumentPickerResult,
   userId: number,
+  options: MultiUploadOptions = {},
 ): Promise<MultiUploadResult> {
   if (!pickerResult.assets || pickerResult.assets.length === 0) {
-    return { saved: [], failed: [] };
+    return { saved: [], failed: [], skipped: [], cancelled: [] };
   }
 
+  const assets = pickerResult.assets;
+  const { accepted, rejected } = validateUploadBatch(
+    assets,
+    await loadUploadPolicy(),
+  );
+
+  let consecutiveServerErrors = 0;
+  const outcomes = await runWithConcurrency(
+    accepted,
+    async (asset) => {
+      const pickerIndex = assets.indexOf(asset);
+      const result = await uploadFile(asset, userId, {
+        onProgress: (progress) =>
+          options.onFileProgress?.(pickerIndex, progress),
+        signal: options.signal,
+      });
+      if (result.status && result.status >= 500) {
+        consecutiveServerErrors += 1;
+      } else {
+        consecutiveServerErrors = 0;
+      }
+      return result;
+    },
+    {
+      concurrency: options.concurrency ?? DEFAULT_UPLOAD_CONCURRENCY,
+      shouldStop: () =>
+        !!options.signal?.aborted ||
+        consecutiveServerErrors >= MAX_CONSECUTIVE_SERVER_ERRORS,
+    },
+  );
+
   const saved: FileMetadata[] = [];
-  const failed: { name: string; error: string }[] = [];
-
-  // Upload files sequentially to avoid overwhelming the server
-  for (const asset of pickerResult.assets) {
-    const decodedFileName = decodeURIComponent(asset.name);
-    const result = await uploadFile(asset, userId);
-    if (result.success && result.file) {
-      saved.push(result.file);
+  const failed: { name: string; error: string }[] = rejected.map(
+    ({ name, error }) => ({ name, error }),
+  );
+  const skipped: { name: string; reason: string }[] = [];
+  const cancelled: { name: string }[] = [];
+
+  outcomes.forEach((outcome, index) => {
+    const decodedFileName = decodeFileName(accepted[index].name);
+    if (outcome.status === "skipped" && options.signal?.aborted) {
+      cancelled.push({ name: decodedFileName });
+    } else if (outcome.status === "skipped") {
+      skipped.push({
+        name: decodedFileName,
+        reason: "Server is having trouble - upload not attempted",
+      });
+    } else if (outcome.value.success && outcome.value.file) {
+      saved.push(outcome.value.file);
+    } else if (outcome.value.cancelled) {
+      cancelled.push({ name: decodedFileName });
     } else {
       failed.push({
         name: decodedFileName,
-        error: result.error || "Unknown error",
+        error: outcome.value.error || "Unknown error",
       });
     }
-  }
-
-  // If we uploaded any files, refresh the user's file list from backend
-  if (saved.length > 0) {
-    try {
-      const latestFiles = await getMyFiles();
-      return { saved: latestFiles, failed };
-    } catch (err) {
-      // If refresh fails, return the local saved placeholders so UX continues
-      return { saved, failed };
-    }
-  }
+  });
 
-  return { saved, failed };
+  return { saved, failed, skipped, cancelled };
 }
 
 /**
@@ -174,13 +402,16 @@ export async function getMyFiles(): Promise<FileMetadata[]> {
     // API #6: Get uploaded files — requires Bearer token
     const response = await apiClient.get("/api/v1/files/uploaded");
     console.log("✅ Files retrieved:", response.data?.length || 0, "files");
-    return adaptFileArray(response.data);
+    // Files in the trash are listed separately
+    return adaptFileArray(response.data).filter((file) => !file.deletedAt);
   } catch (error: any) {
     const ne = normalizeError(error);
     console.error("Failed to fetch files:", ne);
     throw {
       message: ne.message || "Failed to load files",
       code: ne.code || "FETCH_ERROR",
+      status: ne.status,
+      attempts: ne.attempts,
       original: ne.original ?? ne,
     };
   }
@@ -209,13 +440,25 @@ export async function getFileDetailsById(
     throw {
       message: ne.message || "Failed to load file details",
       code: ne.code || "FETCH_ERROR",
+      status: ne.status,
+      attempts: ne.attempts,
       original: ne.original ?? ne,
     };
   }
 }
 
 /**
- * Delete a file.
+ * Remove what the device keeps for deleted files (cached copy, playback
+ * position, thumbnail).
+ */
+async function removeLocalFileData(fileIds: string[]): Promise<void> {
+  await removeFromCache(fileIds);
+  await deletePlaybackPositions(fileIds);
+  await deleteThumbnails(fileIds);
+}
+
+/**
+ * Delete a file permanently (files are normally moved to the trash first).
  */
 export async function deleteFile(fileId: string | number): Promise<void> {
   try {
@@ -223,212 +466,409 @@ export async function deleteFile(fileId: string | number): Promise<void> {
     // TODO: Delete endpoint not yet implemented in backend
     // Expected: DELETE /api/v1/files/{fileId}
     await apiClient.delete(`/api/v1/files/${fileId}`);
+    await removeLocalFileData([String(fileId)]);
   } catch (error: any) {
     const ne = normalizeError(error);
     console.error("Failed to delete file:", ne);
     throw {
       message: ne.message || "Failed to delete file",
       code: ne.code || "DELETE_ERROR",
+      status: ne.status,
       original: ne.original ?? ne,
     };
   }
 }
 
 /**
- * Download a file from backend and open it.
- * API #9: Downloads file as binary stream using UUID file_id.
+ * Rename a file. Listeners see the new name immediately and the old one
+ * again if the server refuses it. Returns the updated metadata.
  */
-export async function downloadAndOpenFile(file: FileMetadata): Promise<void> {
-  try {
-    if (!file.id) {
-      throw new Error("Invalid file ID");
-    }
-
-    console.log("📥 Downloading file:", file.id, "(", file.fileName, ")");
-
-    // Construct download URL using API #9 endpoint
-    const downloadUrl = `${apiClient.defaults.baseURL}/api/v1/files/download/${file.id}`;
-    console.log("📍 Download URL:", downloadUrl);
-
-    // Download file to cache directory
-    const localUri = `${cacheDirectory}${file.fileName}`;
-    console.log("💾 Local cache path:", localUri);
-
-    // Get the current authorization token directly from storage
-    // (downloadAsync makes native HTTP requests that bypass axios interceptors)
-    const token = await getToken();
-    if (!token) {
-      throw new Error("No auth token available - please log in again");
-    }
+export async function renameFile(
+  file: FileMetadata,
+  newName: string,
+): Promise<FileMetadata> {
+  const fileId = String(file.id);
+  const fileName = newName.trim();
+  const validation = validateFileName(fileName);
+  if (!validation.valid) {
+    throw {
+      message: validation.error,
+      code: "VALIDATION_ERROR",
+    };
+  }
 
-    console.log("🔐 Token available, initiating download...");
-    const downloadResult = await downloadAsync(downloadUrl, localUri, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
+  notifyFileChange({ type: "renamed", fileId, fileName });
+  try {
+    console.log("✏️ Renaming file:", file.fileName, "→", fileName);
+    // API: Rename file — PATCH /api/v1/files/{fileId}
+    const response = await apiClient.patch(`/api/v1/files/${fileId}`, {
+      file_name: fileName,
     });
+    // Some backends answer 204 without a body
+    const updated = response.data?.file_name
+      ? adaptFileResponse(response.data)
+      : { ...file, fileName };
 
-    console.log("📤 Download result status:", downloadResult.status);
-    if (downloadResult.status !== 200) {
-      throw new Error(`Download failed with status ${downloadResult.status}`);
+    await renameCachedFile(file.id, updated.fileName).catch((err) =>
+      console.warn("⚠️ Could not rename cached copy:", err),
+    );
+    if (updated.fileName !== fileName) {
+      notifyFileChange({ type: "renamed", fileId, fileName: updated.fileName });
     }
-
-    console.log("✅ File downloaded successfully to:", localUri);
-    // Open the downloaded file
-    await openLocalFile(localUri, file.fileType, file.fileName);
+    return updated;
   } catch (error: any) {
+    notifyFileChange({ type: "renamed", fileId, fileName: file.fileName });
     const ne = normalizeError(error);
-    console.error("❌ Failed to download and open file:", ne);
+    console.error("Failed to rename file:", ne);
     throw {
-      message: ne.message || "Failed to open file",
-      code: ne.code || "OPEN_ERROR",
+      message:
+        ne.status === 409
+          ? `A file named "${fileName}" already exists`
+          : ne.message || "Failed to rename file",
+      code: ne.code || "RENAME_ERROR",
+      status: ne.status,
       original: ne.original ?? ne,
     };
   }
 }
 
 /**
- * Open your own uploaded file directly (dashboard).
- * For your own files, streams/opens the file directly without requiring separate download.
+ * Be told about renames, trashing and restoring of files in the app.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToFileChanges(
+  listener: (change: FileChange) => void,
+): () => void {
+  fileChangeListeners.add(listener);
+  return () => {
+    fileChangeListeners.delete(listener);
+  };
+}
+
+// Whose file is being opened: your own upload or one shared with you
+export type OpenFileSource = "owned" | "shared";
+
+// Where the file goes once it is on the device
+// ("none" only makes it available locally)
+export type OpenWithTarget = "default" | "none";
+
+export interface OpenFileResult {
+  localUri: string;
+  content: ContentTypeCheck; // Sniffed content type (warn on mismatch)
+  fromCache: boolean;
+}
+
+/**
+ * Progress of an openFile call, in order:
+ * resolving -> (cache-hit | downloading... -> downloaded) -> [verifying]
+ * -> [opening] -> opened, or failed at any point.
+ */
+export type OpenFileEvent =
+  | { type: "resolving" }
+  | { type: "cache-hit"; localUri: string }
+  | { type: "downloading"; loaded: number; total: number }
+  | { type: "downloaded"; localUri: string }
+  | { type: "verifying" }
+  | { type: "opening" }
+  | { type: "opened"; result: OpenFileResult }
+  | { type: "failed"; error: NormalizedError };
+
+export interface OpenFileOptions {
+  source?: OpenFileSource;
+  forceRefresh?: boolean; // Download again even if a cached copy exists
+  openWith?: OpenWithTarget;
+  verifyIntegrity?: boolean; // Check the local copy before opening it
+  onEvent?: (event: OpenFileEvent) => void;
+}
+
+/**
+ * Check a local copy against the file's size and known content hash.
+ * Returns an error message, or null when the copy looks intact.
+ */
+async function checkLocalCopy(
+  file: FileMetadata,
+  localUri: string,
+): Promise<string | null> {
+  const info = await getInfoAsync(localUri);
+  if (!info.exists) return "The downloaded file is missing";
+  if (file.fileSize > 0 && info.size !== file.fileSize) {
+    return `Expected ${formatFileSize(file.fileSize)} but got ${formatFileSize(info.size)}`;
+  }
+  if (file.contentHash && info.size <= MAX_HASHABLE_FILE_SIZE) {
+    const hash = await hashLocalFile(localUri);
+    if (hash !== file.contentHash.toLowerCase()) {
+      return "The downloaded file does not match its checksum";
+    }
+  }
+  return null;
+}
+
+/**
+ * Get a file onto the device and open it.
+ * API #9: GET /api/v1/files/download/{file_id} (via the download manager,
+ * so progress shows in Downloads and cached copies are reused).
+ * Used for both your own files and files shared with you.
  */
-export async function openMyFile(file: FileMetadata): Promise<void> {
+export async function openFile(
+  file: FileMetadata,
+  options: OpenFileOptions = {},
+): Promise<OpenFileResult> {
+  const {
+    source = "owned",
+    forceRefresh = false,
+    openWith = "default",
+    verifyIntegrity = false,
+    onEvent,
+  } = options;
+
   try {
     if (!file.id) {
       throw new Error("Invalid file ID");
     }
-
     console.log(
-      "📂 Opening your uploaded file:",
+      source === "owned" ? "📂 Opening your file:" : "📥 Opening shared file:",
       file.id,
       "(",
       file.fileName,
       ")",
     );
+    onEvent?.({ type: "resolving" });
+
+    if (Platform.OS === "web") {
+      const result = await openFileInBrowser(
+        file,
+        openWith,
+        verifyIntegrity,
+        onEvent,
+      );
+      console.log("✅ File ready:", file.fileName);
+      onEvent?.({ type: "opened", result });
+      return result;
+    }
 
-    // Construct file stream URL
-    const fileUrl = `${apiClient.defaults.baseURL}/api/v1/files/download/${file.id}`;
-
-    // Get the current authorization token
-    const token = await getToken();
-    if (!token) {
-      throw new Error("Not authenticated");
+    let pinned = false;
+    if (forceRefresh) {
+      // Drop the cached copy but keep the file pinned if it was
+      pinned = (await getCachedFile(file.id))?.pinned ?? false;
+      await removeFromCache([String(file.id)]);
     }
 
-    // Download to cache and open
-    const localUri = `${cacheDirectory}${file.fileName}`;
-    console.log("📥 Retrieving file to local cache...");
+    let localUri = forceRefresh ? null : await getCachedFileUri(file.id);
+    const fromCache = !!localUri;
+    if (localUri) {
+      onEvent?.({ type: "cache-hit", localUri });
+    } else {
+      onEvent?.({ type: "downloading", loaded: 0, total: file.fileSize });
+      localUri = await downloadFile(file, {
+        onProgress: ({ loaded, total }) =>
+          onEvent?.({ type: "downloading", loaded, total }),
+      });
+      onEvent?.({ type: "downloaded", localUri });
+      if (pinned) {
+        await setCachedFilePinned(file.id, true);
+      }
+    }
 
-    const downloadResult = await downloadAsync(fileUrl, localUri, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
+    if (verifyIntegrity) {
+      onEvent?.({ type: "verifying" });
+      const problem = await checkLocalCopy(file, localUri);
+      if (problem) {
+        // Never keep (or open) a bad copy
+        await removeFromCache([String(file.id)]);
+        throw { message: problem, code: "INTEGRITY_ERROR" };
+      }
+    }
 
-    if (downloadResult.status !== 200) {
-      throw new Error(
-        `Failed to retrieve file (status ${downloadResult.status})`,
-      );
+    let content: ContentTypeCheck;
+    if (openWith === "default") {
+      onEvent?.({ type: "opening" });
+      content = await openLocalFile(file.id, file.fileType, file.fileName);
+    } else {
+      content = await checkFileContent(localUri, file.fileName, file.fileType);
     }
 
-    console.log("✅ File ready, opening...");
-    await openLocalFile(localUri, file.fileType, file.fileName);
+    const result = { localUri, content, fromCache };
+    console.log("✅ File ready:", localUri, fromCache ? "(cached)" : "");
+    onEvent?.({ type: "opened", result });
+    return result;
   } catch (error: any) {
     const ne = normalizeError(error);
-    console.error("❌ Failed to open your file:", ne);
-    throw {
-      message: ne.message || "Failed to open file",
+    console.error("❌ Failed to open file:", ne);
+    // The download request carries the token itself, so a 401 here means
+    // the session is over just like for API calls
+    if (ne.status === 401) {
+      await handleTokenExpired();
+    }
+    const failure = {
+      message:
+        ne.message ||
+        (source === "owned"
+          ? "Failed to open file"
+          : "Failed to download shared file"),
       code: ne.code || "OPEN_ERROR",
+      status: ne.status,
       original: ne.original ?? ne,
     };
+    onEvent?.({ type: "failed", error: failure });
+    throw failure;
   }
 }
 
 /**
- * Get proper MIME type for a file.
- * Converts file extensions or partial types to full MIME types.
+ * openFile for web, where there is no file system or offline cache:
+ * the file is fetched into memory and, to open it, handed to the browser
+ * as a download. The result's localUri is a blob URL, which callers of
+ * openWith "none" free with releaseOpenedFile.
  */
-function getMimeType(fileType: string | undefined, fileName?: string): string {
-  if (!fileType && !fileName) {
-    return "application/octet-stream"; // Fallback
+async function openFileInBrowser(
+  file: FileMetadata,
+  openWith: OpenWithTarget,
+  verifyIntegrity: boolean,
+  onEvent?: (event: OpenFileEvent) => void,
+): Promise<OpenFileResult> {
+  onEvent?.({ type: "downloading", loaded: 0, total: file.fileSize });
+  const response = await apiClient.get<Blob>(
+    `/api/v1/files/download/${file.id}`,
+    {
+      responseType: "blob",
+      onDownloadProgress: ({ loaded, total }) =>
+        onEvent?.({
+          type: "downloading",
+          loaded,
+          total: total ?? file.fileSize,
+        }),
+    },
+  );
+  const blob = response.data;
+
+  if (verifyIntegrity) {
+    onEvent?.({ type: "verifying" });
+    if (file.fileSize > 0 && blob.size !== file.fileSize) {
+      throw {
+        message: `Expected ${formatFileSize(file.fileSize)} but got ${formatFileSize(blob.size)}`,
+        code: "INTEGRITY_ERROR",
+      };
+    }
   }
 
-  // Normalize input to lowercase
-  const type = (fileType || "").toLowerCase().trim();
+  const localUri = URL.createObjectURL(blob);
+  onEvent?.({ type: "downloaded", localUri });
+  const content = await checkBlobContent(blob, file.fileName, file.fileType);
+  if (openWith === "default") {
+    onEvent?.({ type: "opening" });
+    await openWithSystem({
+      uri: localUri,
+      mimeType: content.mimeType,
+      fileName: file.fileName,
+    });
+  }
+  return { localUri, content, fromCache: false };
+}
 
-  // If already a full MIME type (contains /), return it
-  if (type.includes("/")) {
-    return type;
+/**
+ * Free the in-memory copy behind an openFile result once it is no longer
+ * shown (web blob URLs). Files on the device stay cached.
+ */
+export function releaseOpenedFile(result: OpenFileResult): void {
+  if (result.localUri.startsWith("blob:")) {
+    URL.revokeObjectURL(result.localUri);
   }
+}
 
-  // If it's just an extension, add the filename extension to match
-  let extension = type;
-  if (!extension && fileName) {
-    const parts = fileName.split(".");
-    extension = parts.length > 1 ? parts[parts.length - 1].toLowerCase() : "";
+/**
+ * Short status text for an open event (shown on Open buttons).
+ */
+export function describeOpenFileEvent(event: OpenFileEvent): string {
+  switch (event.type) {
+    case "resolving":
+    case "cache-hit":
+    case "downloaded":
+      return "Preparing...";
+    case "downloading":
+      return event.total > 0
+        ? `${Math.min(100, Math.floor((event.loaded / event.total) * 100))}%`
+        : "Downloading...";
+    case "verifying":
+      return "Verifying...";
+    case "opening":
+      return "Opening...";
+    case "opened":
+      return "Opened";
+    case "failed":
+      return "Failed";
   }
+}
 
-  // Map common extensions to MIME types
-  const mimeMap: Record<string, string> = {
-    // Text
-    txt: "text/plain",
-    text: "text/plain",
-
-    // Documents
-    pdf: "application/pdf",
-    doc: "application/msword",
-    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    xls: "application/vnd.ms-excel",
-    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-    ppt: "application/vnd.ms-powerpoint",
-    pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
-
-    // Images
-    jpg: "image/jpeg",
-    jpeg: "image/jpeg",
-    png: "image/png",
-    gif: "image/gif",
-    webp: "image/webp",
-    bmp: "image/bmp",
-
-    // Audio
-    mp3: "audio/mpeg",
-    wav: "audio/wav",
-    m4a: "audio/mp4",
-    aac: "audio/aac",
-
-    // Video
-    mp4: "video/mp4",
-    mkv: "video/x-matroska",
-    avi: "video/x-msvideo",
-    mov: "video/quicktime",
-  };
+/**
+ * Open a finished download (Downloads screen).
+ */
+export async function openDownload(
+  item: DownloadItem,
+): Promise<ContentTypeCheck> {
+  return openLocalFile(item.fileId, item.fileType ?? undefined, item.fileName);
+}
 
-  return mimeMap[extension] || type || "application/octet-stream";
+/**
+ * Keep a file available offline (or stop doing so).
+ * Pinning downloads the file first if it is not cached yet.
+ */
+export async function setFileAvailableOffline(
+  file: FileMetadata,
+  enabled: boolean,
+): Promise<void> {
+  try {
+    if (enabled) {
+      await downloadFile(file);
+    }
+    await setCachedFilePinned(file.id, enabled);
+    console.log(
+      enabled ? "📌 Kept offline:" : "📌 No longer kept offline:",
+      file.fileName,
+    );
+  } catch (error: any) {
+    const ne = normalizeError(error);
+    console.error("❌ Failed to update offline availability:", ne);
+    throw {
+      message: ne.message || "Failed to update offline availability",
+      code: ne.code || "OFFLINE_ERROR",
+      original: ne.original ?? ne,
+    };
+  }
 }
 
 /**
- * Open a local file with the default app (Android).
+ * Open the local copy of a file with the system (see file-opener).
+ * The copy is looked up by file ID, so files sharing a name never get mixed up.
+ * The viewer is chosen from the file's content, not just its extension.
  */
 async function openLocalFile(
-  localUri: string,
+  fileId: string | number,
   mimeType: string | undefined,
-  fileName?: string,
-): Promise<void> {
+  fileName: string,
+): Promise<ContentTypeCheck> {
+  const localUri = await getCachedFileUri(fileId);
+  if (!localUri) {
+    throw {
+      message:
+        "File is no longer on this device. Open it again to download it.",
+      code: "FILE_NOT_AVAILABLE",
+    };
+  }
+
   try {
-    // Get proper MIME type
-    const properMimeType = getMimeType(mimeType, fileName);
-    console.log("📋 MIME type:", properMimeType);
-
-    // Convert file:// URI to content:// URI (required for Android 7+)
-    const contentUri = await getContentUriAsync(localUri);
-
-    console.log("🔗 Opening content URI:", contentUri);
-    await IntentLauncher.startActivityAsync("android.intent.action.VIEW", {
-      data: contentUri,
-      flags: 1, // FLAG_GRANT_READ_URI_PERMISSION
-      type: properMimeType,
+    // Get proper MIME type (sniffed from the downloaded bytes)
+    const content = await checkFileContent(localUri, fileName, mimeType);
+    console.log("📋 MIME type:", content.mimeType);
+
+    await openWithSystem({
+      uri: localUri,
+      mimeType: content.mimeType,
+      fileName,
     });
-  } catch (err) {
+    return content;
+  } catch (err: any) {
+    // Keep the opener's message when the platform cannot open files at all
+    if (err?.code === "OPEN_UNAVAILABLE") throw err;
     throw normalizeError({
       message: "Failed to open file",
       code: "OPEN_ERROR",
@@ -448,6 +888,19 @@ export function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i];
 }
 
+/**
+ * Format a duration in seconds to a short string (e.g. "1m 05s").
+ */
+export function formatDuration(seconds: number): string {
+  if (!isFinite(seconds) || seconds < 0) return "--";
+  const total = Math.round(seconds);
+  if (total < 60) return `${total}s`;
+  const minutes = Math.floor(total / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  if (minutes < 60) return `${minutes}m ${secs}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
 /**
  * Format timestamp to human-readable string.
  */
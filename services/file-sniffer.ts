@@ -0,0 +1,376 @@
+/**
+ * Content-based file type detection ("magic bytes").
+ * Reads the first bytes of a local file and matches well-known signatures,
+ * so a renamed file is not classified (or opened) by its extension alone.
+ */
+
+import { EncodingType, readAsStringAsync } from "expo-file-system/legacy";
+import { base64ToBytes } from "./binary-utils";
+import { getMimeType } from "./file-utils";
+
+// Enough bytes for every signature below, including most PE headers
+const SNIFF_LENGTH = 512;
+
+export interface DetectedFileType {
+  mimeType: string;
+  label: string; // Human-readable, e.g. "PNG image"
+}
+
+export interface ContentTypeCheck {
+  declaredMimeType: string; // From the picker/backend, else the extension
+  detected: DetectedFileType | null; // null when no signature matched
+  mimeType: string; // Best type to use (content wins on a mismatch)
+  mismatch: boolean; // Extension/declared type and content disagree
+}
+
+interface FileSignature {
+  bytes: (number | null)[]; // null matches any byte
+  type: DetectedFileType;
+}
+
+// RIFF containers: "RIFF", 4-byte size, then the form type
+function riff(formType: string): (number | null)[] {
+  return [...ascii("RIFF"), null, null, null, null, ...ascii(formType)];
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+const SIGNATURES: FileSignature[] = [
+  {
+    bytes: ascii("%PDF-"),
+    type: { mimeType: "application/pdf", label: "PDF document" },
+  },
+  {
+    bytes: [0x89, ...ascii("PNG"), 0x0d, 0x0a, 0x1a, 0x0a],
+    type: { mimeType: "image/png", label: "PNG image" },
+  },
+  {
+    bytes: [0xff, 0xd8, 0xff],
+    type: { mimeType: "image/jpeg", label: "JPEG image" },
+  },
+  {
+    bytes: ascii("GIF87a"),
+    type: { mimeType: "image/gif", label: "GIF image" },
+  },
+  {
+    bytes: ascii("GIF89a"),
+    type: { mimeType: "image/gif", label: "GIF image" },
+  },
+  {
+    bytes: riff("WEBP"),
+    type: { mimeType: "image/webp", label: "WebP image" },
+  },
+  {
+    bytes: riff("WAVE"),
+    type: { mimeType: "audio/wav", label: "WAV audio" },
+  },
+  {
+    bytes: riff("AVI "),
+    type: { mimeType: "video/x-msvideo", label: "AVI video" },
+  },
+  { bytes: ascii("ID3"), type: { mimeType: "audio/mpeg", label: "MP3 audio" } },
+  { bytes: ascii("OggS"), type: { mimeType: "audio/ogg", label: "Ogg media" } },
+  {
+    bytes: ascii("fLaC"),
+    type: { mimeType: "audio/flac", label: "FLAC audio" },
+  },
+  {
+    bytes: [0x1a, 0x45, 0xdf, 0xa3],
+    type: { mimeType: "video/webm", label: "WebM/Matroska video" },
+  },
+  {
+    bytes: [...ascii("PK"), 0x03, 0x04],
+    type: { mimeType: "application/zip", label: "ZIP archive" },
+  },
+  {
+    bytes: [...ascii("Rar!"), 0x1a, 0x07],
+    type: { mimeType: "application/vnd.rar", label: "RAR archive" },
+  },
+  {
+    bytes: [...ascii("7z"), 0xbc, 0xaf, 0x27, 0x1c],
+    type: { mimeType: "application/x-7z-compressed", label: "7-Zip archive" },
+  },
+  {
+    bytes: [0x1f, 0x8b],
+    type: { mimeType: "application/gzip", label: "GZIP archive" },
+  },
+  {
+    bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+    type: {
+      mimeType: "application/x-ole-storage",
+      label: "Microsoft Office (legacy) document",
+    },
+  },
+  {
+    bytes: [0x7f, ...ascii("ELF")],
+    type: { mimeType: "application/x-executable", label: "executable" },
+  },
+];
+
+const BMP_TYPE: DetectedFileType = {
+  mimeType: "image/bmp",
+  label: "BMP image",
+};
+const PE_TYPE: DetectedFileType = {
+  mimeType: "application/x-msdownload",
+  label: "Windows executable",
+};
+const MP3_FRAME_TYPE: DetectedFileType = {
+  mimeType: "audio/mpeg",
+  label: "MP3 audio",
+};
+
+// BMP info header sizes (BITMAPCOREHEADER ... BITMAPV5HEADER)
+const BMP_HEADER_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+// Matches on fewer than 4 fixed bytes, which ordinary text can start with
+const WEAK_MATCHES = new Set<DetectedFileType>([
+  MP3_FRAME_TYPE,
+  ...SIGNATURES.filter(
+    (signature) => signature.bytes.filter((byte) => byte !== null).length < 4,
+  ).map((signature) => signature.type),
+]);
+
+// ISO base media brands (bytes 8-11 after "ftyp") that are not plain MP4 video
+const FTYP_BRANDS: Record<string, DetectedFileType> = {
+  "qt  ": { mimeType: "video/quicktime", label: "QuickTime video" },
+  "M4A ": { mimeType: "audio/mp4", label: "M4A audio" },
+  "3gp4": { mimeType: "video/3gpp", label: "3GP video" },
+  "3gp5": { mimeType: "video/3gpp", label: "3GP video" },
+  heic: { mimeType: "image/heic", label: "HEIC image" },
+  heix: { mimeType: "image/heic", label: "HEIC image" },
+  mif1: { mimeType: "image/heif", label: "HEIF image" },
+};
+
+// Declared types that legitimately share a detected container format
+const COMPATIBLE_TYPES: Record<string, string[]> = {
+  "application/zip": [
+    "application/x-zip-compressed",
+    "application/vnd.openxmlformats-officedocument.",
+    "application/vnd.oasis.opendocument.",
+    "application/epub+zip",
+    "application/java-archive",
+    "application/vnd.android.package-archive",
+  ],
+  "application/x-ole-storage": ["application/msword", "application/vnd.ms-"],
+  "video/mp4": ["video/", "audio/mp4", "audio/m4a", "audio/x-m4a", "audio/aac"],
+  "video/quicktime": ["video/"],
+  "video/3gpp": ["video/", "audio/3gpp"],
+  "audio/mp4": ["audio/", "video/mp4"],
+  "audio/mpeg": ["audio/mp3"],
+  "audio/ogg": ["audio/", "video/ogg", "application/ogg"],
+  "audio/wav": ["audio/"],
+  "video/webm": ["video/x-matroska", "audio/webm"],
+  "application/gzip": ["application/x-gzip", "application/x-tar"],
+  "application/x-msdownload": [
+    "application/x-msdos-program",
+    "application/octet-stream",
+  ],
+};
+
+const MIME_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+  "audio/mp3": "audio/mpeg",
+  "application/x-pdf": "application/pdf",
+};
+
+function normalizeMimeType(mimeType: string): string {
+  const type = mimeType.toLowerCase().split(";")[0].trim();
+  return MIME_ALIASES[type] ?? type;
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (
+    (bytes[offset] |
+      (bytes[offset + 1] << 8) |
+      (bytes[offset + 2] << 16) |
+      (bytes[offset + 3] << 24)) >>>
+    0
+  );
+}
+
+function matchesAt(
+  bytes: Uint8Array,
+  pattern: (number | null)[],
+  offset = 0,
+): boolean {
+  if (bytes.length < offset + pattern.length) return false;
+  return pattern.every(
+    (expected, i) => expected === null || bytes[offset + i] === expected,
+  );
+}
+
+/**
+ * Detect a file type from its leading bytes.
+ */
+export function detectFileType(bytes: Uint8Array): DetectedFileType | null {
+  // ISO base media (MP4, MOV, M4A, HEIC...): "ftyp" box at offset 4
+  if (matchesAt(bytes, ascii("ftyp"), 4)) {
+    const brand = String.fromCharCode(...bytes.slice(8, 12));
+    return FTYP_BRANDS[brand] ?? { mimeType: "video/mp4", label: "MP4 video" };
+  }
+
+  const signature = SIGNATURES.find((candidate) =>
+    matchesAt(bytes, candidate.bytes),
+  );
+  if (signature) return signature.type;
+
+  // "BM" alone is common in text; require a known info header size too
+  if (
+    matchesAt(bytes, ascii("BM")) &&
+    bytes.length >= 18 &&
+    BMP_HEADER_SIZES.includes(readUint32LE(bytes, 14))
+  ) {
+    return BMP_TYPE;
+  }
+
+  // "MZ" alone is too; require the "PE\0\0" header the offset at 0x3C points to
+  if (matchesAt(bytes, ascii("MZ")) && bytes.length >= 0x40) {
+    const peOffset = readUint32LE(bytes, 0x3c);
+    if (matchesAt(bytes, [...ascii("PE"), 0, 0], peOffset)) return PE_TYPE;
+  }
+
+  // MPEG layer III frame sync without an ID3 tag (e.g. FF FB, FF F3)
+  if (
+    bytes[0] === 0xff &&
+    (bytes[1] & 0xe0) === 0xe0 &&
+    (bytes[1] & 0x06) === 0x02
+  ) {
+    return MP3_FRAME_TYPE;
+  }
+  return null;
+}
+
+/**
+ * Read the first bytes of a local file and detect its type.
+ * Returns null when the file cannot be read or has no known signature.
+ */
+export async function sniffFileType(
+  uri: string,
+): Promise<DetectedFileType | null> {
+  try {
+    const base64 = await readAsStringAsync(uri, {
+      encoding: EncodingType.Base64,
+      position: 0,
+      length: SNIFF_LENGTH,
+    });
+    return detectFileType(base64ToBytes(base64));
+  } catch (error) {
+    console.warn("⚠️ Could not read file header:", uri, error);
+    return null;
+  }
+}
+
+function isCompatible(declared: string, detected: string): boolean {
+  if (declared === detected) return true;
+  // Image decoders sniff content themselves; a .png that is really a JPEG still displays
+  if (declared.startsWith("image/") && detected.startsWith("image/")) {
+    return true;
+  }
+  return (COMPATIBLE_TYPES[detected] ?? []).some((prefix) =>
+    declared.startsWith(prefix),
+  );
+}
+
+// Compare detected content with the declared type / extension
+function compareContent(
+  detected: DetectedFileType | null,
+  fileName: string,
+  declaredType?: string | null,
+): ContentTypeCheck {
+  // Generic types say nothing about the content; fall back to the extension
+  const declared =
+    declaredType &&
+    normalizeMimeType(declaredType) !== "application/octet-stream"
+      ? declaredType
+      : undefined;
+  const declaredMimeType = normalizeMimeType(getMimeType(declared, fileName));
+
+  // A short signature is not enough to say a text file is something else
+  if (
+    !detected ||
+    (declaredMimeType.startsWith("text/") && WEAK_MATCHES.has(detected))
+  ) {
+    return {
+      declaredMimeType,
+      detected: null,
+      mimeType: declaredMimeType,
+      mismatch: false,
+    };
+  }
+
+  // Unknown declared type: nothing to disagree with, use the content type
+  if (declaredMimeType === "application/octet-stream") {
+    return {
+      declaredMimeType,
+      detected,
+      mimeType: detected.mimeType,
+      mismatch: false,
+    };
+  }
+
+  const mismatch = !isCompatible(declaredMimeType, detected.mimeType);
+  if (mismatch) {
+    console.warn(
+      "⚠️ File content does not match its type:",
+      fileName,
+      "declared",
+      declaredMimeType,
+      "detected",
+      detected.mimeType,
+    );
+  }
+  return {
+    declaredMimeType,
+    detected,
+    // Keep the (more specific) declared type when the container matches, e.g. DOCX in ZIP
+    mimeType: mismatch ? detected.mimeType : declaredMimeType,
+    mismatch,
+  };
+}
+
+/**
+ * Compare a local file's content with its declared type / extension.
+ */
+export async function checkFileContent(
+  uri: string,
+  fileName: string,
+  declaredType?: string | null,
+): Promise<ContentTypeCheck> {
+  return compareContent(await sniffFileType(uri), fileName, declaredType);
+}
+
+/**
+ * Same check for downloaded bytes held in memory (web has no local files).
+ */
+export async function checkBlobContent(
+  blob: Blob,
+  fileName: string,
+  declaredType?: string | null,
+): Promise<ContentTypeCheck> {
+  let detected: DetectedFileType | null = null;
+  try {
+    const header = await blob.slice(0, SNIFF_LENGTH).arrayBuffer();
+    detected = detectFileType(new Uint8Array(header));
+  } catch (error) {
+    console.warn("⚠️ Could not read file header:", fileName, error);
+  }
+  return compareContent(detected, fileName, declaredType);
+}
+
+/**
+ * User-facing description of a mismatch, e.g.
+ * "report.pdf" contains PNG image data, which does not match its name.
+ */
+export function describeContentMismatch(
+  check: ContentTypeCheck,
+  fileName: string,
+): string | null {
+  if (!check.mismatch || !check.detected) return null;
+  return `"${fileName}" contains ${check.detected.label} data, which does not match its name.`;
+}
@@ -0,0 +1,86 @@
+/**
+ * File tags.
+ * Tags are free-form labels stored with the file on the server.
+ *
+ *   PATCH /api/v1/files/{file_id}   { tags: string[] } -> file
+ */
+
+import { adaptFileResponse } from "./adapters/file-adapter";
+import apiClient from "./api-client";
+import type { FileMetadata } from "./file-service";
+import { normalizeError } from "./normalize-error";
+
+// Longest tag the server accepts
+const MAX_TAG_LENGTH = 32;
+
+/**
+ * Validate a tag before adding it to files.
+ */
+export function validateTag(tag: string): { valid: boolean; error: string } {
+  const trimmedTag = tag.trim();
+
+  if (!trimmedTag) {
+    return { valid: false, error: "Tag is required" };
+  }
+
+  if (/[,\u0000-\u001f\u007f]/.test(trimmedTag)) {
+    return {
+      valid: false,
+      error: "Tag cannot contain commas or control characters",
+    };
+  }
+
+  if (trimmedTag.length > MAX_TAG_LENGTH) {
+    return {
+      valid: false,
+      error: `Tag cannot be longer than ${MAX_TAG_LENGTH} characters`,
+    };
+  }
+
+  return { valid: true, error: "" };
+}
+
+/**
+ * Add a tag to a file (no-op if it already has it, ignoring case).
+ * Returns the updated metadata.
+ */
+export async function addFileTag(
+  file: FileMetadata,
+  tag: string,
+): Promise<FileMetadata> {
+  const newTag = tag.trim();
+  const validation = validateTag(newTag);
+  if (!validation.valid) {
+    throw {
+      message: validation.error,
+      code: "VALIDATION_ERROR",
+    };
+  }
+
+  const tags = file.tags ?? [];
+  if (
+    tags.some((existing) => existing.toLowerCase() === newTag.toLowerCase())
+  ) {
+    return file;
+  }
+
+  try {
+    console.log("🏷️ Tagging", file.fileName, "with", newTag);
+    const response = await apiClient.patch(`/api/v1/files/${file.id}`, {
+      tags: [...tags, newTag],
+    });
+    // Some backends answer 204 without a body
+    return response.data?.file_name
+      ? adaptFileResponse(response.data)
+      : { ...file, tags: [...tags, newTag] };
+  } catch (error: any) {
+    const ne = normalizeError(error);
+    console.error("Failed to tag file:", ne);
+    throw {
+      message: ne.message || "Failed to tag file",
+      code: ne.code || "TAG_ERROR",
+      status: ne.status,
+      original: ne.original ?? ne,
+    };
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Moving and copying files between folders.
+ * A file whose name is already taken in the destination folder is handled
+ * as the caller decides: kept with a numbered name ("report (1).pdf"),
+ * replacing the existing file (moved to the trash first, and restored if the
+ * move or copy fails), or skipped.
+ *
+ *   PATCH /api/v1/files/{file_id}        { folder_id, file_name? } (move)
+ *   POST  /api/v1/files/{file_id}/copy   { folder_id, file_name }  -> file
+ */
+
+import { adaptFileResponse } from "./adapters/file-adapter";
+import apiClient from "./api-client";
+import { renameCachedFile } from "./file-cache";
+import { getMyFiles, type FileMetadata } from "./file-service";
+import { normalizeError } from "./normalize-error";
+import { moveToTrash, restoreFromTrash } from "./trash-service";
+
+export type FileTransferMode = "move" | "copy";
+
+// What to do when the destination already has a file with the same name
+export type NameCollisionAction = "rename" | "replace" | "skip";
+
+export interface NameCollision {
+  file: FileMetadata;
+  existingFile: FileMetadata;
+  suggestedName: string; // Free name used for "rename"
+}
+
+export interface FileTransferOptions {
+  // Asked once per collision; files are handled one after another
+  onCollision: (collision: NameCollision) => Promise<NameCollisionAction>;
+}
+
+export interface FileTransferResult {
+  transferred: FileMetadata[]; // Updated (moved) or new (copied) files
+  skipped: { name: string }[];
+  failed: { name: string; error: string }[];
+}
+
+function toNameKey(fileName: string): string {
+  // Many file systems the files end up on ignore case
+  return fileName.trim().toLowerCase();
+}
+
+/**
+ * First free name of the form "name (n).ext" among takenNames (lowercased).
+ */
+export function getAvailableFileName(
+  fileName: string,
+  takenNames: Set<string>,
+): string {
+  if (!takenNames.has(toNameKey(fileName))) return fileName;
+
+  const dot = fileName.lastIndexOf(".");
+  const hasExtension = dot > 0;
+  const extension = hasExtension ? fileName.slice(dot) : "";
+  // "report (2).pdf" continues from 2 instead of becoming "report (2) (1).pdf"
+  const match = (hasExtension ? fileName.slice(0, dot) : fileName).match(
+    /^(.*?)(?: \((\d+)\))?$/,
+  );
+  const base = match?.[1] || fileName;
+  let counter = Number(match?.[2] ?? 0) + 1;
+  let candidate = `${base} (${counter})${extension}`;
+  while (takenNames.has(toNameKey(candidate))) {
+    counter += 1;
+    candidate = `${base} (${counter})${extension}`;
+  }
+  return candidate;
+}
+
+async function moveToFolder(
+  file: FileMetadata,
+  folderId: string | null,
+  fileName: string,
+): Promise<FileMetadata> {
+  const response = await apiClient.patch(`/api/v1/files/${file.id}`, {
+    folder_id: folderId,
+    ...(fileName !== file.fileName ? { file_name: fileName } : {}),
+  });
+  // Some backends answer 204 without a body
+  const moved = response.data?.file_name
+    ? adaptFileResponse(response.data)
+    : { ...file, fileName, folderId };
+  if (moved.fileName !== file.fileName) {
+    await renameCachedFile(file.id, moved.fileName).catch((err) =>
+      console.warn("⚠️ Could not rename cached copy:", err),
+    );
+  }
+  return moved;
+}
+
+async function copyToFolder(
+  file: FileMetadata,
+  folderId: string | null,
+  fileName: string,
+): Promise<FileMetadata> {
+  const response = await apiClient.post(`/api/v1/files/${file.id}/copy`, {
+    folder_id: folderId,
+    file_name: fileName,
+  });
+  if (response.data?.file_name) {
+    return adaptFileResponse(response.data);
+  }
+  return {
+    ...file,
+    id: response.data?.file_id ?? response.data?.id,
+    fileName,
+    folderId,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Move or copy files into a folder (null = top level).
+ * Files are handled one at a time so each name collision can be answered;
+ * a failure is reported and the remaining files still go ahead.
+ */
+export async function transferFiles(
+  files: FileMetadata[],
+  folderId: string | null,
+  mode: FileTransferMode,
+  options: FileTransferOptions,
+): Promise<FileTransferResult> {
+  const result: FileTransferResult = {
+    transferred: [],
+    skipped: [],
+    failed: [],
+  };
+
+  let destinationFiles: FileMetadata[];
+  try {
+    destinationFiles = (await getMyFiles()).filter(
+      (file) => (file.folderId ?? null) === folderId,
+    );
+  } catch (error: any) {
+    const ne = normalizeError(error);
+    throw {
+      message: ne.message || `Failed to ${mode} files`,
+      code: ne.code || "TRANSFER_ERROR",
+      status: ne.status,
+      original: ne.original ?? ne,
+    };
+  }
+  // Names in use at the destination, including ones given during this call
+  const byName = new Map(
+    destinationFiles.map((file) => [toNameKey(file.fileName), file]),
+  );
+
+  for (const file of files) {
+    // Already there: moving changes nothing
+    if (mode === "move" && (file.folderId ?? null) === folderId) {
+      result.skipped.push({ name: file.fileName });
+      continue;
+    }
+
+    let fileName = file.fileName;
+    let replaces: FileMetadata | null = null;
+    const existingFile = byName.get(toNameKey(fileName));
+    if (existingFile) {
+      const suggestedName = getAvailableFileName(
+        fileName,
+        new Set(byName.keys()),
+      );
+      // A copy next to its original always gets a new name
+      const action =
+        String(existingFile.id) === String(file.id)
+          ? "rename"
+          : await options.onCollision({ file, existingFile, suggestedName });
+      if (action === "skip") {
+        console.log("⏭️ Skipping name collision:", fileName);
+        result.skipped.push({ name: file.fileName });
+        continue;
+      }
+      if (action === "rename") {
+        fileName = suggestedName;
+      } else {
+        replaces = existingFile;
+      }
+    }
+
+    try {
+      console.log(
+        mode === "move" ? "📦 Moving" : "📄 Copying",
+        file.fileName,
+        "to",
+        folderId ?? "root",
+      );
+      // The server rejects names in use, so the replaced file has to go first
+      if (replaces) {
+        await moveToTrash(replaces);
+      }
+      let transferred: FileMetadata;
+      try {
+        transferred =
+          mode === "move"
+            ? await moveToFolder(file, folderId, fileName)
+            : await copyToFolder(file, folderId, fileName);
+      } catch (error) {
+        if (replaces) {
+          await restoreFromTrash(replaces).catch((err) =>
+            console.warn("⚠️ Could not restore replaced file:", err),
+          );
+        }
+        throw error;
+      }
+      byName.set(toNameKey(transferred.fileName), transferred);
+      result.transferred.push(transferred);
+    } catch (error: any) {
+      const ne = normalizeError(error);
+      console.error(`❌ Failed to ${mode} file:`, file.fileName, ne);
+      if (ne.status === 401) {
+        throw {
+          message: ne.message || "Session expired",
+          code: ne.code || "AUTH_ERROR",
+          status: ne.status,
+          original: ne.original ?? ne,
+        };
+      }
+      result.failed.push({
+        name: file.fileName,
+        error: ne.message || `Failed to ${mode} file`,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * One-line summary of a move or copy for a toast.
+ */
+export function describeTransferResult(
+  result: FileTransferResult,
+  mode: FileTransferMode,
+  destinationName: string,
+): string {
+  const count = result.transferred.length;
+  const verb = mode === "move" ? "Moved" : "Copied";
+  const parts: string[] = [];
+  if (count > 0) {
+    parts.push(
+      `${verb} ${count === 1 ? "1 file" : `${count} files`} to ${destinationName}.`,
+    );
+  }
+  if (result.skipped.length > 0) {
+    parts.push(`${result.skipped.length} skipped.`);
+  }
+  if (result.failed.length === 1 && count === 0) {
+    parts.push(result.failed[0].error);
+  } else if (result.failed.length > 0) {
+    parts.push(`${result.failed.length} failed.`);
+  }
+  return parts.join(" ") || "Nothing to do.";
+}
@@ -60,6 +60,74 @@ export function validateEmail(email: string): {
   return { valid: true, error: "" };
 }
 
+// Longest file name the server accepts
+const MAX_FILE_NAME_LENGTH = 255;
+
+/**
+ * Validate a new name for a file or folder (e.g. when renaming).
+ */
+export function validateFileName(
+  fileName: string,
+  label = "File name",
+): {
+  valid: boolean;
+  error: string;
+} {
+  const trimmedName = fileName.trim();
+
+  if (!trimmedName) {
+    return { valid: false, error: `${label} is required` };
+  }
+
+  if (trimmedName === "." || trimmedName === "..") {
+    return {
+      valid: false,
+      error: `Please enter a valid ${label.toLowerCase()}`,
+    };
+  }
+
+  const illegal = trimmedName.match(/[\u0000-\u001f\u007f/\\:*?"<>|]/);
+  if (illegal) {
+    const character = /[\u0000-\u001f\u007f]/.test(illegal[0])
+      ? "control characters"
+      : `"${illegal[0]}"`;
+    return {
+      valid: false,
+      error: `${label} cannot contain ${character}`,
+    };
+  }
+
+  if (trimmedName.length > MAX_FILE_NAME_LENGTH) {
+    return {
+      valid: false,
+      error: `${label} cannot be longer than ${MAX_FILE_NAME_LENGTH} characters`,
+    };
+  }
+
+  return { valid: true, error: "" };
+}
+
+/**
+ * Decode a picked file's name, which may come URL-encoded from the file
+ * system. Names that are not valid encodings (e.g. "50% off.pdf") are
+ * returned as they are.
+ */
+export function decodeFileName(fileName: string): string {
+  try {
+    return decodeURIComponent(fileName);
+  } catch {
+    return fileName;
+  }
+}
+
+/**
+ * Lowercase extension of a file name without the dot ("" when it has none).
+ */
+export function getFileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : "";
+}
+
 /**
  * Map MIME type or file name to a friendly label for display.
  */
@@ -101,3 +169,252 @@ export function getFriendlyFileLabel(
 
   return "File";
 }
+
+/**
+ * Get proper MIME type for a file.
+ * Converts file extensions or partial types to full MIME types.
+ */
+export function getMimeType(
+  fileType: string | undefined,
+  fileName?: string,
+): string {
+  if (!fileType && !fileName) {
+    return "application/octet-stream"; // Fallback
+  }
+
+  // Normalize input to lowercase
+  const type = (fileType || "").toLowerCase().trim();
+
+  // If already a full MIME type (contains /), return it
+  if (type.includes("/")) {
+    return type;
+  }
+
+  // If it's just an extension, add the filename extension to match
+  let extension = type;
+  if (!extension && fileName) {
+    const parts = fileName.split(".");
+    extension = parts.length > 1 ? parts[parts.length - 1].toLowerCase() : "";
+  }
+
+  // Map common extensions to MIME types
+  const mimeMap: Record<string, string> = {
+    // Text
+    txt: "text/plain",
+    text: "text/plain",
+
+    // Documents
+    pdf: "application/pdf",
+    doc: "application/msword",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    xls: "application/vnd.ms-excel",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ppt: "application/vnd.ms-powerpoint",
+    pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+
+    // Images
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    png: "image/png",
+    gif: "image/gif",
+    webp: "image/webp",
+    bmp: "image/bmp",
+
+    // Audio
+    mp3: "audio/mpeg",
+    wav: "audio/wav",
+    m4a: "audio/mp4",
+    aac: "audio/aac",
+
+    // Video
+    mp4: "video/mp4",
+    mkv: "video/x-matroska",
+    avi: "video/x-msvideo",
+    mov: "video/quicktime",
+  };
+
+  return mimeMap[extension] || type || "application/octet-stream";
+}
+
+export type FileCategory =
+  "documents" | "images" | "videos" | "audio" | "others";
+
+const CATEGORY_EXTENSIONS: Record<Exclude<FileCategory, "others">, string[]> = {
+  documents: ["pdf", "doc", "docx", "xls", "xlsx", "ppt", "pptx", "txt", "csv"],
+  images: ["jpg", "jpeg", "png", "gif", "webp", "bmp"],
+  videos: ["mp4", "mkv", "avi", "mov", "webm"],
+  audio: ["mp3", "wav", "aac", "m4a", "ogg"],
+};
+
+/**
+ * Group a file into a filter category (dashboard/inbox filters).
+ * The MIME type wins when it is specific; the extension is the fallback.
+ */
+export function getFileCategory(
+  fileType: string | undefined,
+  fileName?: string,
+): FileCategory {
+  const type = (fileType || "").toLowerCase();
+  if (type.startsWith("image/")) return "images";
+  if (type.startsWith("video/")) return "videos";
+  if (type.startsWith("audio/")) return "audio";
+  if (
+    type.startsWith("text/") ||
+    type.includes("pdf") ||
+    type.includes("msword") ||
+    type.includes("ms-excel") ||
+    type.includes("ms-powerpoint") ||
+    type.includes("officedocument")
+  ) {
+    return "documents";
+  }
+
+  const extension = fileName?.split(".").pop()?.toLowerCase() || "";
+  const match = (
+    Object.keys(CATEGORY_EXTENSIONS) as (keyof typeof CATEGORY_EXTENSIONS)[]
+  ).find((category) => CATEGORY_EXTENSIONS[category].includes(extension));
+  return match ?? "others";
+}
+
+// How a file can be shown inside the app (null: hand it to another app)
+export type PreviewKind =
+  "image" | "text" | "code" | "csv" | "json" | "markdown";
+
+// Image formats expo-image can decode on every platform
+const PREVIEW_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/bmp",
+  "image/svg+xml",
+];
+
+const PREVIEW_EXTENSIONS: Record<string, PreviewKind> = {
+  jpg: "image",
+  jpeg: "image",
+  png: "image",
+  gif: "image",
+  webp: "image",
+  bmp: "image",
+  svg: "image",
+  txt: "text",
+  log: "text",
+  csv: "csv",
+  tsv: "csv",
+  json: "json",
+  md: "markdown",
+  markdown: "markdown",
+  js: "code",
+  jsx: "code",
+  ts: "code",
+  tsx: "code",
+  py: "code",
+  java: "code",
+  kt: "code",
+  c: "code",
+  h: "code",
+  cpp: "code",
+  cs: "code",
+  go: "code",
+  rs: "code",
+  rb: "code",
+  php: "code",
+  swift: "code",
+  sh: "code",
+  sql: "code",
+  css: "code",
+  html: "code",
+  xml: "code",
+  yml: "code",
+  yaml: "code",
+  toml: "code",
+  ini: "code",
+};
+
+/**
+ * Decide whether a file can be previewed in the app, and how.
+ * The extension decides for text formats (servers often send them as
+ * text/plain or octet-stream); images also match on MIME type.
+ */
+export function getPreviewKind(
+  fileType: string | undefined,
+  fileName?: string,
+): PreviewKind | null {
+  const type = (fileType || "").toLowerCase();
+  const extension = fileName?.includes(".")
+    ? fileName.split(".").pop()!.toLowerCase()
+    : "";
+
+  if (PREVIEW_EXTENSIONS[extension]) return PREVIEW_EXTENSIONS[extension];
+  if (PREVIEW_IMAGE_TYPES.includes(type)) return "image";
+  if (type === "application/json") return "json";
+  if (type === "text/csv") return "csv";
+  if (type === "text/markdown") return "markdown";
+  if (type.startsWith("text/")) return "text";
+  return null;
+}
+
+// Audio and video files play in the in-app media player
+export type MediaKind = "audio" | "video";
+
+const MEDIA_EXTENSIONS: Record<string, MediaKind> = {
+  mp3: "audio",
+  m4a: "audio",
+  aac: "audio",
+  wav: "audio",
+  ogg: "audio",
+  oga: "audio",
+  flac: "audio",
+  opus: "audio",
+  mp4: "video",
+  m4v: "video",
+  mov: "video",
+  webm: "video",
+  mkv: "video",
+  "3gp": "video",
+};
+
+/**
+ * Decide whether a file can be played in the app, and as what.
+ * The MIME type wins when it is audio/* or video/*; the extension is the
+ * fallback for files uploaded as octet-stream.
+ */
+export function getMediaKind(
+  fileType: string | undefined,
+  fileName?: string,
+): MediaKind | null {
+  const type = (fileType || "").toLowerCase();
+  if (type.startsWith("audio/")) return "audio";
+  if (type.startsWith("video/")) return "video";
+
+  const extension = fileName?.includes(".")
+    ? fileName.split(".").pop()!.toLowerCase()
+    : "";
+  return MEDIA_EXTENSIONS[extension] ?? null;
+}
+
+// Longest file name kept for local copies (most file systems allow 255 bytes)
+const MAX_LOCAL_FILE_NAME_LENGTH = 120;
+
+/**
+ * Make a file name safe to use as a single local path segment.
+ * Path separators, reserved and control characters become "_"; long names
+ * are shortened while keeping the extension.
+ */
+export function sanitizeFileName(fileName: string): string {
+  let name = fileName
+    .replace(/[\u0000-\u001f\u007f/\\:*?"<>|]/g, "_")
+    .trim()
+    // No hidden files or "." / ".." segments
+    .replace(/^\.+/, "");
+
+  if (name.length > MAX_LOCAL_FILE_NAME_LENGTH) {
+    const dot = name.lastIndexOf(".");
+    const extension = dot > 0 && name.length - dot <= 16 ? name.slice(dot) : "";
+    name =
+      name.slice(0, MAX_LOCAL_FILE_NAME_LENGTH - extension.length) + extension;
+  }
+
+  return name || "file";
+}
@@ -0,0 +1,226 @@
+/**
+ * Folder service.
+ * Folders are a flat list on the server; nesting comes from each folder's
+ * parent_id, and files point at their folder with folder_id (null = top level).
+ *
+ *   GET    /api/v1/folders           -> all folders of the current user
+ *   POST   /api/v1/folders           { name, parent_id } -> folder
+ *   PATCH  /api/v1/folders/{id}      { name } -> folder
+ *   DELETE /api/v1/folders/{id}      (also deletes everything inside it)
+ *
+ * Deleting a folder moves its files to the trash first; restored files go
+ * back to the top level.
+ */
+
+import {
+  adaptFolderArray,
+  adaptFolderResponse,
+} from "./adapters/folder-adapter";
+import apiClient from "./api-client";
+import { bulkMoveToTrash } from "./bulk-actions";
+import type { FileMetadata } from "./file-service";
+import { validateFileName } from "./file-utils";
+import { normalizeError } from "./normalize-error";
+
+/**
+ * A folder of the current user. parentId is null for top-level folders.
+ */
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  createdAt: string;
+}
+
+export interface FolderDeletionResult {
+  deleted: boolean; // False when some files could not be trashed
+  trashed: FileMetadata[]; // For Undo
+  failed: { name: string; error: string }[];
+}
+
+// Set when the server has no folders endpoint, so it is not asked again
+let foldersUnavailable = false;
+
+// Folder open on the dashboard; the Upload tab uploads into it
+let currentFolderId: string | null = null;
+
+/**
+ * Folder shown on the dashboard (null = top level).
+ */
+export function getCurrentFolderId(): string | null {
+  return currentFolderId;
+}
+
+/**
+ * Remember the folder shown on the dashboard, so new uploads go into it.
+ */
+export function setCurrentFolderId(folderId: string | null): void {
+  currentFolderId = folderId;
+}
+
+/**
+ * Get all folders of the current user.
+ * Returns an empty list when the backend does not support folders.
+ */
+export async function getFolders(): Promise<Folder[]> {
+  if (foldersUnavailable) return [];
+  try {
+    const response = await apiClient.get("/api/v1/folders");
+    return adaptFolderArray(response.data);
+  } catch (error: any) {
+    const ne = normalizeError(error);
+    if (ne.status === 404 || ne.status === 405 || ne.status === 501) {
+      console.log("📁 Server has no folders, showing files only");
+      foldersUnavailable = true;
+      return [];
+    }
+    console.error("Failed to fetch folders:", ne);
+    throw {
+      message: ne.message || "Failed to load folders",
+      code: ne.code || "FETCH_ERROR",
+      status: ne.status,
+      attempts: ne.attempts,
+      original: ne.original ?? ne,
+    };
+  }
+}
+
+function checkFolderName(name: string): string {
+  const folderName = name.trim();
+  const validation = validateFileName(folderName, "Folder name");
+  if (!validation.valid) {
+    throw {
+      message: validation.error,
+      code: "VALIDATION_ERROR",
+    };
+  }
+  return folderName;
+}
+
+function toFolderError(error: any, name: string, fallback: string) {
+  const ne = normalizeError(error);
+  console.error(`❌ ${fallback}:`, ne);
+  return {
+    message:
+      ne.status === 409
+        ? `A folder named "${name}" already exists here`
+        : ne.message || fallback,
+    code: ne.code || "FOLDER_ERROR",
+    status: ne.status,
+    original: ne.original ?? ne,
+  };
+}
+
+/**
+ * Create a folder inside another one (or at the top level).
+ */
+export async function createFolder(
+  name: string,
+  parentId: string | null,
+): Promise<Folder> {
+  const folderName = checkFolderName(name);
+  try {
+    console.log("📁 Creating folder:", folderName, "in", parentId ?? "root");
+    const response = await apiClient.post("/api/v1/folders", {
+      name: folderName,
+      parent_id: parentId,
+    });
+    return adaptFolderResponse(response.data);
+  } catch (error: any) {
+    throw toFolderError(error, folderName, "Failed to create folder");
+  }
+}
+
+/**
+ * Rename a folder. Returns the updated folder.
+ */
+export async function renameFolder(
+  folder: Folder,
+  name: string,
+): Promise<Folder> {
+  const folderName = checkFolderName(name);
+  try {
+    console.log("✏️ Renaming folder:", folder.name, "→", folderName);
+    const response = await apiClient.patch(`/api/v1/folders/${folder.id}`, {
+      name: folderName,
+    });
+    // Some backends answer 204 without a body
+    return response.data?.name || response.data?.folder_name
+      ? adaptFolderResponse(response.data)
+      : { ...folder, name: folderName };
+  } catch (error: any) {
+    throw toFolderError(error, folderName, "Failed to rename folder");
+  }
+}
+
+/**
+ * Delete a folder and the folders in it.
+ * files are the files inside (at any depth). They are moved to the trash
+ * first; if any of them cannot be, the folder is kept, since the server
+ * would delete those files with it.
+ */
+export async function deleteFolder(
+  folderId: string,
+  files: FileMetadata[] = [],
+): Promise<FolderDeletionResult> {
+  try {
+    const { succeeded, failed } = await bulkMoveToTrash(files);
+    if (failed.length > 0) {
+      return { deleted: false, trashed: succeeded, failed };
+    }
+    await apiClient.delete(`/api/v1/folders/${folderId}`);
+    if (currentFolderId === folderId) {
+      currentFolderId = null;
+    }
+    return { deleted: true, trashed: succeeded, failed };
+  } catch (error: any) {
+    const ne = normalizeError(error);
+    console.error("Failed to delete folder:", ne);
+    throw {
+      message: ne.message || "Failed to delete folder",
+      code: ne.code || "DELETE_ERROR",
+      status: ne.status,
+      original: ne.original ?? ne,
+    };
+  }
+}
+
+/**
+ * Folders from the top level down to the given folder (for breadcrumbs).
+ * Empty for the top level or an unknown folder.
+ */
+export function getFolderPath(
+  folders: Folder[],
+  folderId: string | null,
+): Folder[] {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  const path: Folder[] = [];
+  let folder = folderId ? byId.get(folderId) : undefined;
+  // Guard against parent cycles in bad data
+  while (folder && !path.includes(folder)) {
+    path.unshift(folder);
+    folder = folder.parentId ? byId.get(folder.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * IDs of a folder and every folder nested inside it.
+ */
+export function getFolderTreeIds(
+  folders: Folder[],
+  folderId: string,
+): Set<string> {
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId && ids.has(folder.parentId) && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
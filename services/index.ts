@@ -4,8 +4,13 @@
  */
 
 // API Client (for advanced use cases only)
-export { default as apiClient } from "./api-client";
-export type { ApiResponse, PaginatedResponse } from "./api-client";
+export { default as apiClient, subscribeToApiRetries } from "./api-client";
+export type {
+  ApiResponse,
+  ApiRetryEvent,
+  PaginatedResponse,
+  RetryConfig,
+} from "./api-client";
 
 // Auth Service
 export {
@@ -45,19 +50,176 @@ export {
 // File Service
 export {
   deleteFile,
-  downloadAndOpenFile,
+  describeOpenFileEvent,
+  formatDuration,
   formatFileSize,
   formatTimestamp,
   getFileDetailsById,
   getMyFiles,
-  openMyFile,
+  openDownload,
+  openFile,
   pickFile,
+  releaseOpenedFile,
+  renameFile,
+  setFileAvailableOffline,
+  subscribeToFileChanges,
   uploadFile,
   uploadMultipleFiles,
+  type FileChange,
   type FileMetadata,
+  type MultiUploadOptions,
   type MultiUploadResult,
+  type OpenFileEvent,
+  type OpenFileOptions,
+  type OpenFileResult,
+  type OpenFileSource,
+  type OpenWithTarget,
+  type UploadOptions,
+  type UploadProgress,
   type UploadResult,
 } from "./file-service";
+export {
+  CHUNKED_UPLOAD_THRESHOLD,
+  type ChunkedUploadSession,
+} from "./chunked-upload";
+
+// Folders
+export {
+  createFolder,
+  deleteFolder,
+  getCurrentFolderId,
+  getFolderPath,
+  getFolders,
+  getFolderTreeIds,
+  renameFolder,
+  setCurrentFolderId,
+  type Folder,
+  type FolderDeletionResult,
+} from "./folder-service";
+
+// Move / Copy Between Folders
+export {
+  describeTransferResult,
+  getAvailableFileName,
+  transferFiles,
+  type FileTransferMode,
+  type FileTransferOptions,
+  type FileTransferResult,
+  type NameCollision,
+  type NameCollisionAction,
+} from "./file-transfer";
+
+// Trash
+export {
+  getTrash,
+  getTrashExpiry,
+  getTrashRetentionDays,
+  moveToTrash,
+  purgeExpiredTrash,
+  purgeFromTrash,
+  restoreFromTrash,
+  setTrashRetentionDays,
+  TRASH_RETENTION_OPTIONS,
+} from "./trash-service";
+
+// Tags
+export { addFileTag, validateTag } from "./file-tags";
+
+// Bulk Actions
+export {
+  bulkDownload,
+  bulkMoveToTrash,
+  bulkRestoreFromTrash,
+  bulkShare,
+  bulkTag,
+  describeBulkResult,
+  type BulkAction,
+  type BulkActionResult,
+} from "./bulk-actions";
+
+// Duplicate Detection
+export {
+  findDuplicateUploads,
+  hashAsset,
+  type DuplicateAction,
+  type DuplicateCheckResult,
+} from "./duplicate-detection";
+
+// Upload Policy
+export {
+  DEFAULT_UPLOAD_POLICY,
+  getUploadPolicy,
+  loadUploadPolicy,
+  validateUploadBatch,
+  validateUploadFile,
+  type UploadPolicy,
+  type UploadPolicyCheck,
+  type UploadRejection,
+} from "./upload-policy";
+
+// Upload Queue
+export {
+  cancelAllUploads,
+  cancelUpload,
+  clearFinishedUploads,
+  enqueueUploads,
+  getUploadQueueSnapshot,
+  pauseAllUploads,
+  pauseUpload,
+  resumeAllUploads,
+  resumeUpload,
+  resumeUploadQueue,
+  retryFailedUploads,
+  subscribeToUploadQueue,
+  type UploadBatchSummary,
+  type UploadQueueItem,
+  type UploadQueueSnapshot,
+  type UploadRequest,
+  type UploadQueueState,
+} from "./upload-queue";
+
+// Download Manager
+export {
+  cancelDownload,
+  downloadFile,
+  getDownloadsSnapshot,
+  pauseDownload,
+  refreshDownloads,
+  removeDownload,
+  restoreDownloads,
+  resumeDownload,
+  startDownload,
+  subscribeToDownloads,
+  type DownloadFileOptions,
+  type DownloadItem,
+  type DownloadsSnapshot,
+  type DownloadState,
+} from "./download-manager";
+
+// Offline File Cache
+export {
+  CACHE_SIZE_LIMIT_OPTIONS,
+  clearFileCache,
+  DEFAULT_CACHE_SIZE_LIMIT,
+  getCachedFile,
+  getCacheSizeLimit,
+  getFileCacheUsage,
+  setCacheSizeLimit,
+  type FileCacheEntry,
+  type FileCacheUsage,
+  type FileIntegrity,
+} from "./file-cache";
+
+// Thumbnails
+export { canHaveThumbnail, getThumbnail } from "./thumbnails";
+
+// Download Integrity
+export {
+  describeFileIntegrity,
+  getExpectedChecksum,
+  type ChecksumAlgorithm,
+  type ExpectedChecksum,
+} from "./file-checksum";
 
 // Share Service
 export {
@@ -69,4 +231,67 @@ export {
 } from "./share-service";
 
 // File Utilities
-export { getFileIcon, getFriendlyFileLabel, validateEmail } from "./file-utils";
+export {
+  decodeFileName,
+  getFileCategory,
+  getFileExtension,
+  getFileIcon,
+  getFriendlyFileLabel,
+  getMimeType,
+  getMediaKind,
+  getPreviewKind,
+  sanitizeFileName,
+  validateEmail,
+  validateFileName,
+  type FileCategory,
+  type MediaKind,
+  type PreviewKind,
+} from "./file-utils";
+
+// Media Player
+export {
+  formatPlaybackTime,
+  getMediaSource,
+  getResumePosition,
+  PLAYBACK_RATES,
+  saveResumePosition,
+  type MediaSource,
+} from "./media-player";
+
+// Text Preview
+export {
+  loadTextPreview,
+  MAX_TEXT_PREVIEW_BYTES,
+  parseCsv,
+  parseInlineMarkdown,
+  parseMarkdown,
+  tokenizeJson,
+  type JsonToken,
+  type JsonTokenKind,
+  type MarkdownBlock,
+  type MarkdownSpan,
+  type TextPreviewContent,
+} from "./text-preview";
+
+// Save to Device / Send to App
+export {
+  saveFileToDevice,
+  sendFileToApp,
+  type ExportFileOptions,
+  type SaveToDeviceResult,
+  type SaveToDeviceStatus,
+} from "./file-export";
+
+// Platform File Opener
+export { openWithSystem, type SystemOpenRequest } from "./file-opener";
+
+// File Type Sniffing
+export {
+  checkBlobContent,
+  checkFileContent,
+  describeContentMismatch,
+  detectFileType,
+  sniffFileType,
+  type ContentTypeCheck,
+  type DetectedFileType,
+} from "./file-sniffer";
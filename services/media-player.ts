@@ -0,0 +1,116 @@
+/**
+ * In-app audio and video playback.
+ * Media is streamed from the download endpoint with the bearer token (or
+ * played from the offline cache when a copy is already on the device), and
+ * the last position reached in each file is remembered per user.
+ *
+ * API #9: GET /api/v1/files/download/{file_id} (streamed by the player).
+ */
+
+import {
+  getCurrentUser,
+  getPlaybackPosition,
+  getToken,
+  savePlaybackPosition,
+} from "@/storage";
+import apiClient from "./api-client";
+import { getCachedFileUri } from "./file-cache";
+import type { FileMetadata } from "./file-service";
+
+// Speeds offered by the player
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Positions this close to the start or the end are not worth resuming
+const MIN_RESUME_POSITION_SECONDS = 5;
+const FINISHED_MARGIN_SECONDS = 5;
+
+export interface MediaSource {
+  uri: string;
+  // Only set when streaming from the server
+  headers?: Record<string, string>;
+  fromCache: boolean;
+}
+
+/**
+ * Where the player should load a file from: the cached copy when there is
+ * one, otherwise the authenticated download stream.
+ */
+export async function getMediaSource(file: FileMetadata): Promise<MediaSource> {
+  const cachedUri = await getCachedFileUri(file.id);
+  if (cachedUri) {
+    return { uri: cachedUri, fromCache: true };
+  }
+
+  const token = await getToken();
+  if (!token) {
+    throw { message: "Not authenticated", code: "AUTH_ERROR", status: 401 };
+  }
+  return {
+    uri: `${apiClient.defaults.baseURL}/api/v1/files/download/${file.id}`,
+    // The native player makes its own requests, bypassing axios interceptors
+    headers: { Authorization: `Bearer ${token}` },
+    fromCache: false,
+  };
+}
+
+function isFinished(position: number, duration: number | null): boolean {
+  return (
+    !!duration && duration > 0 && position >= duration - FINISHED_MARGIN_SECONDS
+  );
+}
+
+/**
+ * Position (in seconds) to start a file from; 0 when it was never played,
+ * barely started or played to the end.
+ */
+export async function getResumePosition(
+  fileId: string | number,
+): Promise<number> {
+  const user = await getCurrentUser();
+  if (!user) return 0;
+
+  const saved = await getPlaybackPosition(String(fileId), user.id);
+  if (
+    !saved ||
+    saved.position < MIN_RESUME_POSITION_SECONDS ||
+    isFinished(saved.position, saved.duration)
+  ) {
+    return 0;
+  }
+  return saved.position;
+}
+
+/**
+ * Remember how far the current user got in a file.
+ */
+export async function saveResumePosition(
+  fileId: string | number,
+  position: number,
+  duration: number | null,
+): Promise<void> {
+  const user = await getCurrentUser();
+  if (!user || !isFinite(position)) return;
+
+  // Finished files start from the beginning next time
+  const value = isFinished(position, duration) ? 0 : Math.max(0, position);
+  await savePlaybackPosition(
+    String(fileId),
+    user.id,
+    value,
+    duration && isFinite(duration) ? duration : null,
+  );
+}
+
+/**
+ * Format a playback time as a clock (e.g. "3:07" or "1:02:45").
+ */
+export function formatPlaybackTime(seconds: number): string {
+  if (!isFinite(seconds) || seconds < 0) return "0:00";
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
@@ -2,6 +2,7 @@ export interface NormalizedError {
   message: string;
   code?: string;
   status?: number;
+  attempts?: number; // Requests made, including automatic retries
   original?: any;
 }
 
@@ -17,7 +18,11 @@ export function normalizeError(err: any): NormalizedError {
       "An error occurred";
     const code = (response && response.data && response.data.code) || err.code;
     const status = response && response.status;
-    return { message, code, status, original: err };
+    // Set by the api-client retry policy on the final failed attempt
+    const attempts = err.config?.retryAttempt
+      ? err.config.retryAttempt + 1
+      : undefined;
+    return { message, code, status, attempts, original: err };
   }
 
   // If already normalized
@@ -26,6 +31,7 @@ export function normalizeError(err: any): NormalizedError {
       message: err.message,
       code: (err as any).code,
       status: (err as any).status,
+      attempts: (err as any).attempts,
       original: err,
     };
   }
@@ -153,6 +153,8 @@ export async function getSharedWithMe(): Promise<FileMetadata[]> {
     throw {
       message: ne.message || "Failed to load shared files",
       code: ne.code || "FETCH_ERROR",
+      status: ne.status,
+      attempts: ne.attempts,
       original: ne.original ?? ne,
     };
   }
@@ -0,0 +1,255 @@
+/**
+ * Text preview helpers.
+ * Reads the start of a text file and turns it into structures the preview
+ * screen can render: CSV rows, highlighted JSON tokens or Markdown blocks.
+ */
+
+import {
+  EncodingType,
+  getInfoAsync,
+  readAsStringAsync,
+} from "expo-file-system/legacy";
+import { base64ToBytes, bytesToUtf8 } from "./binary-utils";
+
+// Only the start of large files is shown
+export const MAX_TEXT_PREVIEW_BYTES = 512 * 1024; // 512 KB
+const MAX_CSV_ROWS = 500;
+
+export interface TextPreviewContent {
+  text: string;
+  truncated: boolean;
+}
+
+/**
+ * Read a local text file for preview (up to MAX_TEXT_PREVIEW_BYTES).
+ */
+export async function loadTextPreview(
+  localUri: string,
+): Promise<TextPreviewContent> {
+  const info = await getInfoAsync(localUri);
+  const size = info.exists ? info.size : 0;
+  if (size <= MAX_TEXT_PREVIEW_BYTES) {
+    const text = await readAsStringAsync(localUri, {
+      encoding: EncodingType.UTF8,
+    });
+    return { text, truncated: false };
+  }
+
+  // Partial reads are only supported for base64
+  const base64 = await readAsStringAsync(localUri, {
+    encoding: EncodingType.Base64,
+    position: 0,
+    length: MAX_TEXT_PREVIEW_BYTES,
+  });
+  return { text: bytesToUtf8(base64ToBytes(base64)), truncated: true };
+}
+
+/**
+ * Parse CSV (or TSV) text into rows of cells.
+ * Handles quoted cells with embedded delimiters, quotes and newlines.
+ */
+export function parseCsv(
+  text: string,
+  delimiter = text.split("\n", 1)[0].includes("\t") ? "\t" : ",",
+): { rows: string[][]; truncated: boolean } {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+      if (rows.length >= MAX_CSV_ROWS) {
+        return { rows, truncated: i < text.length - 1 };
+      }
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return { rows, truncated: false };
+}
+
+export type JsonTokenKind =
+  "key" | "string" | "number" | "literal" | "punctuation" | "plain";
+
+export interface JsonToken {
+  text: string;
+  kind: JsonTokenKind;
+}
+
+const JSON_TOKEN_PATTERN =
+  /("(?:\\.|[^"\\])*")(\s*:)?|(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|(true|false|null)|([{}[\],:])|(\s+|[^\s"{}[\],:]+)/g;
+
+/**
+ * Pretty-print JSON and split it into tokens for highlighting.
+ * Invalid (or truncated) JSON is tokenized as-is.
+ */
+export function tokenizeJson(text: string): JsonToken[] {
+  let formatted = text;
+  try {
+    formatted = JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    // Keep the original text; it is still highlighted below
+  }
+
+  const tokens: JsonToken[] = [];
+  for (const match of formatted.matchAll(JSON_TOKEN_PATTERN)) {
+    const [, string, colon, number, literal, punctuation, plain] = match;
+    if (string !== undefined) {
+      tokens.push({ text: string, kind: colon ? "key" : "string" });
+      if (colon) tokens.push({ text: colon, kind: "punctuation" });
+    } else if (number !== undefined) {
+      tokens.push({ text: number, kind: "number" });
+    } else if (literal !== undefined) {
+      tokens.push({ text: literal, kind: "literal" });
+    } else if (punctuation !== undefined) {
+      tokens.push({ text: punctuation, kind: "punctuation" });
+    } else {
+      tokens.push({ text: plain, kind: "plain" });
+    }
+  }
+  return tokens;
+}
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "quote"; text: string }
+  | { type: "code"; text: string }
+  | { type: "rule" };
+
+export interface MarkdownSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+/**
+ * Split Markdown into blocks (headings, paragraphs, lists, quotes, code,
+ * rules). Covers the common subset; anything else stays a paragraph.
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.split(/\r?\n/);
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith("```")) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith("```")) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(trimmed);
+    const listItem = /^([-*+]|\d+[.)])\s+(.*)$/.exec(trimmed);
+
+    if (trimmed === "") {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        text: heading[2],
+      });
+    } else if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flushParagraph();
+      blocks.push({ type: "rule" });
+    } else if (trimmed.startsWith(">")) {
+      flushParagraph();
+      const quote = trimmed.replace(/^>\s?/, "");
+      const last = blocks[blocks.length - 1];
+      if (last?.type === "quote") {
+        last.text += " " + quote;
+      } else {
+        blocks.push({ type: "quote", text: quote });
+      }
+    } else if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1]);
+      const last = blocks[blocks.length - 1];
+      if (last?.type === "list" && last.ordered === ordered) {
+        last.items.push(listItem[2]);
+      } else {
+        blocks.push({ type: "list", ordered, items: [listItem[2]] });
+      }
+    } else {
+      paragraph.push(trimmed);
+    }
+  }
+  flushParagraph();
+  return blocks;
+}
+
+const INLINE_PATTERN =
+  /(`[^`]+`)|(\*\*[^*]+\*\*|__[^_]+__)|(\*[^*]+\*|_[^_]+_)/g;
+
+/**
+ * Split a line of Markdown into styled spans (bold, italic, inline code).
+ */
+export function parseInlineMarkdown(text: string): MarkdownSpan[] {
+  const spans: MarkdownSpan[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      spans.push({ text: text.slice(lastIndex, index) });
+    }
+    const [token, code, bold] = match;
+    if (code) {
+      spans.push({ text: token.slice(1, -1), code: true });
+    } else if (bold) {
+      spans.push({ text: token.slice(2, -2), bold: true });
+    } else {
+      spans.push({ text: token.slice(1, -1), italic: true });
+    }
+    lastIndex = index + token.length;
+  }
+
+  if (lastIndex < text.length) {
+    spans.push({ text: text.slice(lastIndex) });
+  }
+  return spans;
+}
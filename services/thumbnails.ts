@@ -0,0 +1,202 @@
+/**
+ * File thumbnails for lists.
+ * Thumbnails come from the server when it offers them; otherwise they are
+ * made on the device from the downloaded copy (images are scaled down,
+ * videos use a frame near the start). Either way they are stored on disk
+ * as thumbnails/<id>.jpg in the cache directory, keyed by file ID.
+ *
+ * Server: GET /api/v1/files/{file_id}/thumbnail (or the file's thumbnail_url).
+ */
+
+import { getToken } from "@/storage";
+import {
+  cacheDirectory,
+  deleteAsync,
+  downloadAsync,
+  getInfoAsync,
+  makeDirectoryAsync,
+  moveAsync,
+} from "expo-file-system/legacy";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import * as VideoThumbnails from "expo-video-thumbnails";
+import { Platform } from "react-native";
+import apiClient from "./api-client";
+import { getCachedFile } from "./file-cache";
+import type { FileMetadata } from "./file-service";
+import { getMediaKind, getPreviewKind } from "./file-utils";
+
+// Width of a generated thumbnail (list rows show them at 48pt)
+const THUMBNAIL_SIZE = 160;
+const THUMBNAIL_QUALITY = 0.7;
+// Where in a video the thumbnail frame is taken from
+const VIDEO_FRAME_TIME_MS = 1000;
+
+const THUMBNAILS_DIRECTORY = `${cacheDirectory}thumbnails/`;
+
+// Set when the server has no thumbnail endpoint, so it is not asked again
+let serverThumbnailsUnavailable = false;
+// Files the server has no thumbnail for (404); local ones may still be made
+const noServerThumbnail = new Set<string>();
+// Files for which no thumbnail could be made this session
+const unavailable = new Set<string>();
+// Thumbnails being fetched or generated, so each is only made once
+const pending = new Map<string, Promise<string | null>>();
+
+function getThumbnailUri(fileId: string): string {
+  return `${THUMBNAILS_DIRECTORY}${fileId.replace(/[^A-Za-z0-9_-]/g, "_")}.jpg`;
+}
+
+/**
+ * Whether a thumbnail can be shown for a file (images and videos).
+ */
+export function canHaveThumbnail(file: FileMetadata): boolean {
+  // SVG cannot be rasterized on the device
+  if (/\.svg$/i.test(file.fileName) || file.fileType === "image/svg+xml") {
+    return false;
+  }
+  return (
+    getPreviewKind(file.fileType, file.fileName) === "image" ||
+    getMediaKind(file.fileType, file.fileName) === "video"
+  );
+}
+
+async function fetchServerThumbnail(
+  file: FileMetadata,
+  target: string,
+): Promise<boolean> {
+  const token = await getToken();
+  if (!token) return false;
+
+  const path = file.thumbnailUrl ?? `/api/v1/files/${file.id}/thumbnail`;
+  const url = /^https?:\/\//.test(path)
+    ? path
+    : `${apiClient.defaults.baseURL}${path}`;
+  const result = await downloadAsync(url, target, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  const contentType =
+    Object.entries(result.headers).find(
+      ([name]) => name.toLowerCase() === "content-type",
+    )?.[1] ?? "";
+  if (result.status === 200 && contentType.startsWith("image/")) {
+    return true;
+  }
+
+  await deleteAsync(target, { idempotent: true });
+  if (result.status === 404) {
+    // Only this file (e.g. a type the server cannot render)
+    noServerThumbnail.add(String(file.id));
+  } else if (
+    // No such endpoint: stop asking (unless the file names its own URL)
+    !file.thumbnailUrl &&
+    [405, 501].includes(result.status) &&
+    !serverThumbnailsUnavailable
+  ) {
+    console.log("🖼️ Server has no thumbnails, generating them locally");
+    serverThumbnailsUnavailable = true;
+  }
+  return false;
+}
+
+async function generateLocalThumbnail(
+  file: FileMetadata,
+  target: string,
+): Promise<boolean> {
+  const cached = await getCachedFile(file.id);
+  if (!cached) return false;
+
+  let source = cached.localUri;
+  let frameUri: string | null = null;
+  if (getMediaKind(file.fileType, file.fileName) === "video") {
+    frameUri = (
+      await VideoThumbnails.getThumbnailAsync(cached.localUri, {
+        time: VIDEO_FRAME_TIME_MS,
+      })
+    ).uri;
+    source = frameUri;
+  }
+
+  try {
+    const context = ImageManipulator.manipulate(source);
+    // Fixed width; rows crop the result to a square
+    context.resize({ width: THUMBNAIL_SIZE });
+    const image = await context.renderAsync();
+    const saved = await image.saveAsync({
+      format: SaveFormat.JPEG,
+      compress: THUMBNAIL_QUALITY,
+    });
+    context.release();
+    image.release();
+    await moveAsync({ from: saved.uri, to: target });
+    return true;
+  } finally {
+    if (frameUri) {
+      await deleteAsync(frameUri, { idempotent: true });
+    }
+  }
+}
+
+async function createThumbnail(file: FileMetadata): Promise<string | null> {
+  const fileId = String(file.id);
+  const target = getThumbnailUri(fileId);
+  await makeDirectoryAsync(THUMBNAILS_DIRECTORY, { intermediates: true });
+
+  try {
+    if (
+      (file.thumbnailUrl || !serverThumbnailsUnavailable) &&
+      !noServerThumbnail.has(fileId) &&
+      (await fetchServerThumbnail(file, target))
+    ) {
+      return target;
+    }
+  } catch (error) {
+    console.warn("⚠️ Could not fetch thumbnail:", file.fileName, error);
+  }
+
+  try {
+    if (await generateLocalThumbnail(file, target)) {
+      return target;
+    }
+  } catch (error) {
+    console.warn("⚠️ Could not generate thumbnail:", file.fileName, error);
+    unavailable.add(fileId);
+  }
+  return null;
+}
+
+/**
+ * Local URI of a file's thumbnail, fetching or generating it if needed.
+ * Null when the file has none (yet): local thumbnails need the file to be
+ * downloaded, so callers may ask again after a download finishes.
+ */
+export async function getThumbnail(file: FileMetadata): Promise<string | null> {
+  // Web has no file system to keep thumbnails in
+  if (Platform.OS === "web" || !canHaveThumbnail(file)) return null;
+
+  const fileId = String(file.id);
+  if (unavailable.has(fileId)) return null;
+
+  const target = getThumbnailUri(fileId);
+  if ((await getInfoAsync(target)).exists) return target;
+
+  let request = pending.get(fileId);
+  if (!request) {
+    request = createThumbnail(file).finally(() => pending.delete(fileId));
+    pending.set(fileId, request);
+  }
+  return request;
+}
+
+/**
+ * Delete the stored thumbnails of files (e.g. after deleting them).
+ */
+export async function deleteThumbnails(fileIds: string[]): Promise<void> {
+  for (const fileId of fileIds) {
+    unavailable.delete(fileId);
+    noServerThumbnail.delete(fileId);
+    await deleteAsync(getThumbnailUri(fileId), { idempotent: true }).catch(
+      (err) => console.warn("⚠️ Could not delete thumbnail:", fileId, err),
+    );
+  }
+}
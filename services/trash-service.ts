@@ -0,0 +1,190 @@
+/**
+ * Trash.
+ * Deleting a file moves it to the trash, where it keeps its folder_id (its
+ * original location) and gets a deleted_at date. From there it can be
+ * restored or deleted for good; files older than the retention period are
+ * purged automatically.
+ *
+ *   POST   /api/v1/files/{file_id}/trash     -> trashed file
+ *   GET    /api/v1/files/trash               -> files in the trash
+ *   POST   /api/v1/files/{file_id}/restore   -> restored file
+ *   DELETE /api/v1/files/{file_id}           (permanent)
+ */
+
+import { getSetting, setSetting } from "@/storage";
+import { adaptFileArray, adaptFileResponse } from "./adapters/file-adapter";
+import apiClient from "./api-client";
+import {
+  deleteFile,
+  notifyFileChange,
+  type FileMetadata,
+} from "./file-service";
+import { normalizeError } from "./normalize-error";
+
+const TRASH_RETENTION_SETTING = "trash_retention_days";
+
+// Choices offered in Profile (0 = keep until emptied by hand)
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0];
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days files stay in the trash before being purged (0 = forever).
+ */
+export async function getTrashRetentionDays(): Promise<number> {
+  const value = await getSetting(TRASH_RETENTION_SETTING);
+  const days = value === null ? NaN : Number(value);
+  return Number.isInteger(days) && days >= 0
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Change how long files stay in the trash. Files that are now too old are
+ * left until the next purgeExpiredTrash, so the caller can confirm first.
+ */
+export async function setTrashRetentionDays(days: number): Promise<void> {
+  await setSetting(TRASH_RETENTION_SETTING, String(days));
+}
+
+/**
+ * When a trashed file will be purged (null = never).
+ */
+export function getTrashExpiry(
+  file: FileMetadata,
+  retentionDays: number,
+): Date | null {
+  if (retentionDays <= 0 || !file.deletedAt) return null;
+  const deletedAt = new Date(file.deletedAt).getTime();
+  if (Number.isNaN(deletedAt)) return null;
+  return new Date(deletedAt + retentionDays * DAY_MS);
+}
+
+/**
+ * Move a file to the trash. Listeners are told so lists can drop it.
+ */
+export async function moveToTrash(file: FileMetadata): Promise<void> {
+  try {
+    console.log("🗑️ Moving to trash:", file.fileName);
+    await apiClient.post(`/api/v1/files/${file.id}/trash`);
+  } catch (error: any) {
+    const ne = normalizeError(error);
+    console.error("Failed to move file to trash:", ne);
+    throw {
+      message: ne.message || "Failed to delete file",
+      code: ne.code || "DELETE_ERROR",
+      status: ne.status,
+      original: ne.original ?? ne,
+    };
+  }
+  notifyFileChange({
+    type: "trashed",
+    fileId: String(file.id),
+    fileName: file.fileName,
+    file,
+  });
+}
+
+/**
+ * Get the files in the trash, most recently deleted first.
+ */
+export async function getTrash(): Promise<FileMetadata[]> {
+  try {
+    const response = await apiClient.get("/api/v1/files/trash");
+    return adaptFileArray(response.data).sort(
+      (a, b) =>
+        new Date(b.deletedAt ?? 0).getTime() -
+        new Date(a.deletedAt ?? 0).getTime(),
+    );
+  } catch (error: any) {
+    const ne = normalizeError(error);
+    console.error("Failed to fetch trash:", ne);
+    throw {
+      message: ne.message || "Failed to load trash",
+      code: ne.code || "FETCH_ERROR",
+      status: ne.status,
+      attempts: ne.attempts,
+      original: ne.original ?? ne,
+    };
+  }
+}
+
+/**
+ * Put a trashed file back where it was. The server moves it to the top
+ * level if its folder no longer exists. Returns the restored file.
+ */
+export async function restoreFromTrash(
+  file: FileMetadata,
+): Promise<FileMetadata> {
+  try {
+    console.log("♻️ Restoring from trash:", file.fileName);
+    const response = await apiClient.post(`/api/v1/files/${file.id}/restore`);
+    // Some backends answer 204 without a body
+    const restored = response.data?.file_name
+      ? adaptFileResponse(response.data)
+      : { ...file, deletedAt: undefined };
+    notifyFileChange({
+      type: "restored",
+      fileId: String(file.id),
+      fileName: restored.fileName,
+      file: restored,
+    });
+    return restored;
+  } catch (error: any) {
+    const ne = normalizeError(error);
+    console.error("Failed to restore file:", ne);
+    throw {
+      message:
+        ne.status === 409
+          ? `A file named "${file.fileName}" already exists there`
+          : ne.message || "Failed to restore file",
+      code: ne.code || "RESTORE_ERROR",
+      status: ne.status,
+      original: ne.original ?? ne,
+    };
+  }
+}
+
+/**
+ * Delete trashed files for good. Returns the files that could not be
+ * deleted; a 401 is thrown.
+ */
+export async function purgeFromTrash(
+  files: FileMetadata[],
+): Promise<{ fileId: string; name: string; error: string }[]> {
+  const failed: { fileId: string; name: string; error: string }[] = [];
+  for (const file of files) {
+    try {
+      await deleteFile(file.id);
+    } catch (error: any) {
+      if (error.status === 401) throw error;
+      failed.push({
+        fileId: String(file.id),
+        name: file.fileName,
+        error: error.message || "Failed to delete file",
+      });
+    }
+  }
+  return failed;
+}
+
+/**
+ * Purge trashed files older than the retention period.
+ * Returns how many files were deleted.
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const retentionDays = await getTrashRetentionDays();
+  if (retentionDays <= 0) return 0;
+
+  const now = Date.now();
+  const expired = (await getTrash()).filter((file) => {
+    const expiry = getTrashExpiry(file, retentionDays);
+    return expiry !== null && expiry.getTime() <= now;
+  });
+  if (expired.length === 0) return 0;
+
+  console.log("🗑️ Purging", expired.length, "expired file(s) from trash");
+  const failed = await purgeFromTrash(expired);
+  return expired.length - failed.length;
+}
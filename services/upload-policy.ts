@@ -0,0 +1,193 @@
+/**
+ * Client-side upload policy.
+ * Picked files are checked against size, count and type limits before any
+ * bytes are sent, so users do not wait for a long upload the server rejects.
+ * The backend can override the defaults with a policy document:
+ *
+ *   GET /api/v1/files/upload-policy
+ *     -> { max_file_size, max_batch_size, allowed_mime_types, blocked_extensions }
+ */
+
+import type { DocumentPickerAsset } from "expo-document-picker";
+import { adaptUploadPolicyResponse } from "./adapters/upload-policy-adapter";
+import apiClient from "./api-client";
+import { decodeFileName } from "./file-utils";
+import { normalizeError } from "./normalize-error";
+
+export interface UploadPolicy {
+  maxFileSize: number; // Bytes per file
+  maxBatchSize: number; // Files per upload batch
+  // Exact types ("application/pdf") or prefixes ending in "*" ("image/*");
+  // an empty list allows every type
+  allowedMimeTypes: string[];
+  blockedExtensions: string[]; // Lowercase, without the leading dot
+}
+
+export const DEFAULT_UPLOAD_POLICY: UploadPolicy = {
+  maxFileSize: 100 * 1024 * 1024, // 100 MB
+  maxBatchSize: 20,
+  allowedMimeTypes: [
+    "image/*",
+    "video/*",
+    "audio/*",
+    "text/*",
+    "application/pdf",
+    "application/rtf",
+    "application/json",
+    "application/msword",
+    "application/vnd.ms-*",
+    "application/vnd.openxmlformats-officedocument.*",
+    "application/vnd.oasis.opendocument.*",
+    "application/zip",
+    "application/x-zip-compressed",
+    "application/x-7z-compressed",
+    "application/vnd.rar",
+    // Pickers report unknown types as octet-stream; extensions still apply
+    "application/octet-stream",
+  ],
+  blockedExtensions: [
+    "exe",
+    "apk",
+    "msi",
+    "bat",
+    "cmd",
+    "com",
+    "scr",
+    "dll",
+    "jar",
+    "vbs",
+    "ps1",
+  ],
+};
+
+export interface UploadRejection {
+  asset: DocumentPickerAsset;
+  name: string;
+  error: string;
+}
+
+export interface UploadPolicyCheck {
+  accepted: DocumentPickerAsset[];
+  rejected: UploadRejection[];
+}
+
+let currentPolicy: UploadPolicy = DEFAULT_UPLOAD_POLICY;
+let policyRequest: Promise<UploadPolicy> | null = null;
+
+/**
+ * Fetch the backend policy (once per app session unless forced).
+ * Falls back to the defaults when the backend does not provide one.
+ */
+export function loadUploadPolicy(forceRefresh = false): Promise<UploadPolicy> {
+  if (!policyRequest || forceRefresh) {
+    policyRequest = (async () => {
+      try {
+        // Optional endpoint: the defaults apply right away if it fails
+        const response = await apiClient.get("/api/v1/files/upload-policy", {
+          retry: false,
+        });
+        currentPolicy = adaptUploadPolicyResponse(
+          response.data ?? {},
+          DEFAULT_UPLOAD_POLICY,
+        );
+        console.log("📋 Upload policy loaded from backend");
+      } catch (error: any) {
+        const ne = normalizeError(error);
+        console.warn(
+          "⚠️ Upload policy unavailable, using defaults:",
+          ne.message,
+        );
+        currentPolicy = DEFAULT_UPLOAD_POLICY;
+        // A backend without the endpoint keeps the defaults for the session;
+        // other failures (offline, server errors) try again on the next upload
+        if (ne.status !== 404 && ne.status !== 405) {
+          policyRequest = null;
+        }
+      }
+      return currentPolicy;
+    })();
+  }
+  return policyRequest;
+}
+
+/**
+ * Policy currently in effect (defaults until the backend policy loads).
+ */
+export function getUploadPolicy(): UploadPolicy {
+  return currentPolicy;
+}
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : "";
+}
+
+function isMimeTypeAllowed(mimeType: string, allowed: string[]): boolean {
+  if (allowed.length === 0) return true;
+  const type = mimeType.toLowerCase();
+  return allowed.some((pattern) =>
+    pattern.endsWith("*")
+      ? type.startsWith(pattern.slice(0, -1))
+      : type === pattern,
+  );
+}
+
+/**
+ * Check one file against the policy (asset.name already decoded).
+ * Returns a user-facing rejection reason, or null if the file is allowed.
+ */
+export function validateUploadFile(
+  asset: DocumentPickerAsset,
+  policy: UploadPolicy = currentPolicy,
+): string | null {
+  const extension = getExtension(asset.name);
+  if (extension && policy.blockedExtensions.includes(extension)) {
+    return `.${extension} files are not allowed`;
+  }
+
+  const mimeType = asset.mimeType || "application/octet-stream";
+  if (!isMimeTypeAllowed(mimeType, policy.allowedMimeTypes)) {
+    return `File type ${mimeType} is not allowed`;
+  }
+
+  if ((asset.size ?? 0) > policy.maxFileSize) {
+    const limitMb = Math.round(policy.maxFileSize / (1024 * 1024));
+    return `File is larger than the ${limitMb} MB limit`;
+  }
+
+  if (asset.size === 0) {
+    return "File is empty";
+  }
+
+  return null;
+}
+
+/**
+ * Split picked files into accepted and rejected ones.
+ * Files past the batch limit are rejected in picker order.
+ */
+export function validateUploadBatch(
+  assets: DocumentPickerAsset[],
+  policy: UploadPolicy = currentPolicy,
+): UploadPolicyCheck {
+  const accepted: DocumentPickerAsset[] = [];
+  const rejected: UploadRejection[] = [];
+
+  assets.forEach((asset) => {
+    const name = decodeFileName(asset.name);
+    const reason = validateUploadFile({ ...asset, name }, policy);
+    if (reason) {
+      rejected.push({ asset, name, error: reason });
+    } else if (accepted.length >= policy.maxBatchSize) {
+      rejected.push({
+        asset,
+        name,
+        error: `Only ${policy.maxBatchSize} files can be uploaded at once`,
+      });
+    } else {
+      accepted.push(asset);
+    }
+  });
+
+  return { accepted, rejected };
+}
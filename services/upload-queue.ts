@@ -0,0 +1,627 @@
+/**
+ * Upload queue service.
+ * Persists picked files in SQLite and uploads them a few at a time,
+ * so pending uploads survive app restarts and resume on next launch.
+ */
+
+import {
+  deleteFinishedUploads,
+  deleteUploadQueueRecords,
+  getCurrentUser,
+  getQueuedUploads,
+  getUploadQueueRecord,
+  getUploadQueueRecords,
+  insertUploadQueueRecords,
+  requeueFailedUploads,
+  resetInterruptedUploads,
+  saveFileHash,
+  updateUploadQueueRecord,
+  type UploadQueueRecord,
+  type UploadQueueState,
+} from "@/storage";
+import type { DocumentPickerAsset } from "expo-document-picker";
+import {
+  copyAsync,
+  deleteAsync,
+  documentDirectory,
+  makeDirectoryAsync,
+} from "expo-file-system/legacy";
+import { abandonUploadSession } from "./chunked-upload";
+import {
+  DEFAULT_UPLOAD_CONCURRENCY,
+  getFileDetailsById,
+  uploadFile,
+  type UploadProgress,
+} from "./file-service";
+import { moveToTrash } from "./trash-service";
+import { decodeFileName } from "./file-utils";
+import { runWithConcurrency } from "./upload-scheduler";
+
+export type UploadQueueItem = UploadQueueRecord;
+export type { UploadQueueState };
+
+/**
+ * A file to add to the queue.
+ */
+export interface UploadRequest {
+  asset: DocumentPickerAsset;
+  contentHash?: string | null; // Cached for duplicate detection once uploaded
+  replacesFileId?: string | null; // Trashed after the new file is uploaded
+  rejection?: string | null; // Upload policy violation; recorded as failed
+}
+
+export interface UploadBatchSummary {
+  batchId: string;
+  savedCount: number;
+  failedCount: number;
+  cancelledCount: number;
+  failures: { name: string; error: string }[];
+  completedAt: string;
+}
+
+export interface UploadQueueSnapshot {
+  items: UploadQueueItem[];
+  counts: Record<UploadQueueState, number>;
+  // Live byte progress of in-flight uploads, keyed by queue item ID
+  progress: Record<number, UploadProgress>;
+  isProcessing: boolean;
+  // Set when processing stopped early (e.g. repeated server errors)
+  pausedReason: string | null;
+  lastCompletedBatch: UploadBatchSummary | null;
+}
+
+type UploadQueueListener = (snapshot: UploadQueueSnapshot) => void;
+
+// Attempts per file before it is marked as failed
+const MAX_UPLOAD_ATTEMPTS = 3;
+// Base delay before retrying a failed attempt (multiplied by attempt count)
+const RETRY_DELAY_MS = 2000;
+// Queued files are copied here so the OS cannot purge them before upload
+const QUEUE_DIRECTORY = documentDirectory
+  ? `${documentDirectory}upload-queue/`
+  : null;
+// Consecutive 5xx responses after which the queue stops launching uploads
+const MAX_CONSECUTIVE_SERVER_ERRORS = 3;
+// Minimum interval between progress notifications to listeners
+const PROGRESS_THROTTLE_MS = 250;
+
+const listeners = new Set<UploadQueueListener>();
+let snapshot: UploadQueueSnapshot = {
+  items: [],
+  counts: emptyCounts(),
+  progress: {},
+  isProcessing: false,
+  pausedReason: null,
+  lastCompletedBatch: null,
+};
+let isProcessing = false;
+let rerunRequested = false;
+let consecutiveServerErrors = 0;
+
+// In-flight uploads, and why the user asked one of them to stop
+const activeControllers = new Map<number, AbortController>();
+const stopIntents = new Map<number, "pause" | "cancel">();
+
+// States that keep a batch open (files still to be uploaded)
+const PENDING_STATES: UploadQueueState[] = ["queued", "uploading", "paused"];
+
+function emptyCounts(): Record<UploadQueueState, number> {
+  return {
+    queued: 0,
+    uploading: 0,
+    paused: 0,
+    done: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+}
+let lastProgressEmit = 0;
+
+function emit(next: Partial<UploadQueueSnapshot>) {
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+async function refreshSnapshot(): Promise<void> {
+  const items = await getUploadQueueRecords();
+  const counts = emptyCounts();
+  items.forEach((item) => {
+    counts[item.state] += 1;
+  });
+  emit({ items, counts, isProcessing });
+}
+
+function setItemProgress(
+  itemId: number,
+  progress: UploadProgress | null,
+  force = false,
+) {
+  const next = { ...snapshot.progress };
+  if (progress) {
+    next[itemId] = progress;
+  } else {
+    delete next[itemId];
+  }
+  snapshot = { ...snapshot, progress: next };
+
+  const now = Date.now();
+  if (force || now - lastProgressEmit >= PROGRESS_THROTTLE_MS) {
+    lastProgressEmit = now;
+    emit({});
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Copy a picked file into the queue directory.
+ * Falls back to the original URI when copying is not possible (e.g. web).
+ */
+async function persistAsset(
+  asset: DocumentPickerAsset,
+  batchId: string,
+  index: number,
+): Promise<string> {
+  if (!QUEUE_DIRECTORY) return asset.uri;
+
+  try {
+    await makeDirectoryAsync(QUEUE_DIRECTORY, { intermediates: true });
+    const safeName = asset.name.replace(/[^\w.-]/g, "_");
+    const target = `${QUEUE_DIRECTORY}${batchId}-${index}-${safeName}`;
+    await copyAsync({ from: asset.uri, to: target });
+    return target;
+  } catch (err) {
+    console.warn("⚠️ Could not copy file into upload queue:", asset.name, err);
+    return asset.uri;
+  }
+}
+
+async function removeQueuedCopy(uri: string): Promise<void> {
+  if (!QUEUE_DIRECTORY || !uri.startsWith(QUEUE_DIRECTORY)) return;
+  try {
+    await deleteAsync(uri, { idempotent: true });
+  } catch (err) {
+    console.warn("⚠️ Could not remove queued file copy:", uri, err);
+  }
+}
+
+function toPickerAsset(item: UploadQueueItem): DocumentPickerAsset {
+  return {
+    uri: item.uri,
+    name: item.name,
+    mimeType: item.mimeType ?? undefined,
+    size: item.size ?? undefined,
+    lastModified: new Date(item.createdAt).getTime(),
+  };
+}
+
+async function reportBatchIfComplete(batchId: string): Promise<void> {
+  const batchItems = (await getUploadQueueRecords()).filter(
+    (item) => item.batchId === batchId,
+  );
+  const pending = batchItems.some((item) =>
+    PENDING_STATES.includes(item.state),
+  );
+  if (pending) return;
+
+  const countState = (state: UploadQueueState) =>
+    batchItems.filter((item) => item.state === state).length;
+  emit({
+    lastCompletedBatch: {
+      batchId,
+      savedCount: countState("done"),
+      failedCount: countState("failed"),
+      cancelledCount: countState("cancelled"),
+      failures: batchItems
+        .filter((item) => item.state === "failed")
+        .map((item) => ({
+          name: item.name,
+          error: item.error || "Upload failed",
+        })),
+      completedAt: new Date().toISOString(),
+    },
+  });
+
+  // Uploaded and cancelled files need no further work; keep failures for retry
+  await deleteUploadQueueRecords(
+    batchItems
+      .filter((item) => item.state === "done" || item.state === "cancelled")
+      .map((item) => item.id),
+  );
+  await refreshSnapshot();
+}
+
+/**
+ * Mark an item cancelled and release what it holds
+ * (local file copy, server-side chunk session).
+ */
+async function finalizeCancelledItem(item: UploadQueueItem): Promise<void> {
+  await updateUploadQueueRecord(item.id, {
+    state: "cancelled",
+    error: null,
+    uploadSessionId: null,
+    uploadedBytes: 0,
+  });
+  if (item.uploadSessionId) {
+    void abandonUploadSession(item.uploadSessionId);
+  }
+  await removeQueuedCopy(item.uri);
+}
+
+/**
+ * Post-upload bookkeeping: cache the content hash and move the file this
+ * upload replaces to the trash, where it can be restored (best effort - the
+ * upload itself already succeeded).
+ */
+async function finishSavedUpload(
+  item: UploadQueueItem,
+  fileId: string,
+): Promise<void> {
+  try {
+    if (item.contentHash) {
+      await saveFileHash(item.userId, fileId, item.contentHash);
+    }
+    if (item.replacesFileId) {
+      // Only the ID is queued; listeners need the metadata to offer Undo
+      const replaced = await getFileDetailsById(item.replacesFileId);
+      if (replaced) {
+        await moveToTrash(replaced);
+        console.log("🔁 [uploadQueue] Replaced file", item.replacesFileId);
+      }
+    }
+  } catch (err) {
+    console.warn("⚠️ [uploadQueue] Post-upload cleanup failed:", err);
+  }
+}
+
+async function runQueueItem(queuedItem: UploadQueueItem): Promise<void> {
+  // The item may have been paused or cancelled while waiting for a slot
+  const item = await getUploadQueueRecord(queuedItem.id);
+  if (!item || item.state !== "queued") return;
+
+  const controller = new AbortController();
+  activeControllers.set(item.id, controller);
+
+  await updateUploadQueueRecord(item.id, { state: "uploading", error: null });
+  setItemProgress(
+    item.id,
+    { loaded: item.uploadedBytes, total: item.size ?? 0 },
+    true,
+  );
+  await refreshSnapshot();
+
+  console.log(
+    "📤 [uploadQueue] Uploading",
+    item.name,
+    "attempt",
+    item.attempts + 1,
+  );
+  const result = await uploadFile(toPickerAsset(item), item.userId, {
+    // Queued names are decoded already
+    fileName: item.name,
+    folderId: item.folderId,
+    // Resume a chunked upload from the offset the server last confirmed
+    chunkSession: item.uploadSessionId
+      ? { uploadId: item.uploadSessionId, offset: item.uploadedBytes }
+      : null,
+    onChunkSessionUpdate: (session) => {
+      updateUploadQueueRecord(item.id, {
+        uploadSessionId: session?.uploadId ?? null,
+        uploadedBytes: session?.offset ?? 0,
+      }).catch((err) =>
+        console.warn("⚠️ [uploadQueue] Could not save upload offset:", err),
+      );
+    },
+    onProgress: (progress) => setItemProgress(item.id, progress),
+    signal: controller.signal,
+  });
+  setItemProgress(item.id, null, true);
+  activeControllers.delete(item.id);
+  const stopIntent = stopIntents.get(item.id);
+  stopIntents.delete(item.id);
+
+  if (result.status && result.status >= 500) {
+    consecutiveServerErrors += 1;
+  } else if (!result.cancelled) {
+    consecutiveServerErrors = 0;
+  }
+
+  if (result.cancelled) {
+    if (stopIntent === "pause") {
+      // Keep the chunk session so resuming continues from the last offset
+      await updateUploadQueueRecord(item.id, { state: "paused" });
+    } else {
+      const latest = (await getUploadQueueRecord(item.id)) ?? item;
+      await finalizeCancelledItem(latest);
+    }
+  } else if (result.success) {
+    const fileId = result.file?.id ? String(result.file.id) : null;
+    await updateUploadQueueRecord(item.id, { state: "done", fileId });
+    await removeQueuedCopy(item.uri);
+    if (fileId) {
+      await finishSavedUpload(item, fileId);
+    }
+  } else {
+    // Only failures count as attempts (pausing and resuming does not)
+    const attempts = item.attempts + 1;
+    // Policy rejections will not succeed on retry
+    const exhausted = result.rejected || attempts >= MAX_UPLOAD_ATTEMPTS;
+    await updateUploadQueueRecord(item.id, {
+      state: exhausted ? "failed" : "queued",
+      attempts,
+      error: result.error || "Upload failed",
+    });
+    if (!exhausted) {
+      await delay(RETRY_DELAY_MS * attempts);
+    }
+  }
+
+  await refreshSnapshot();
+  await reportBatchIfComplete(item.batchId);
+}
+
+// Unexpected errors fail the item instead of leaving it "uploading"
+async function uploadQueueItem(queuedItem: UploadQueueItem): Promise<void> {
+  try {
+    await runQueueItem(queuedItem);
+  } catch (err: any) {
+    console.error("❌ [uploadQueue] Upload crashed:", queuedItem.name, err);
+    activeControllers.delete(queuedItem.id);
+    stopIntents.delete(queuedItem.id);
+    setItemProgress(queuedItem.id, null, true);
+    try {
+      await updateUploadQueueRecord(queuedItem.id, {
+        state: "failed",
+        error: err?.message || "Upload failed",
+      });
+      await refreshSnapshot();
+      await reportBatchIfComplete(queuedItem.batchId);
+    } catch (cleanupErr) {
+      console.warn(
+        "⚠️ [uploadQueue] Could not mark upload failed:",
+        cleanupErr,
+      );
+    }
+  }
+}
+
+async function runQueue(): Promise<void> {
+  // Only upload files queued by the logged-in user
+  const user = await getCurrentUser();
+  if (!user) {
+    console.log("📝 [uploadQueue] No logged-in user, queue paused");
+    return;
+  }
+
+  const shouldStop = () =>
+    consecutiveServerErrors >= MAX_CONSECUTIVE_SERVER_ERRORS;
+
+  // Failed attempts go back to "queued", so keep going until none are left
+  let queued = await getQueuedUploads(user.id);
+  while (queued.length > 0) {
+    await runWithConcurrency(queued, uploadQueueItem, {
+      concurrency: DEFAULT_UPLOAD_CONCURRENCY,
+      shouldStop,
+    });
+    if (shouldStop()) {
+      console.warn("🚫 [uploadQueue] Repeated server errors, pausing queue");
+      emit({ pausedReason: "Server is having trouble. Uploads paused." });
+      return;
+    }
+    queued = await getQueuedUploads(user.id);
+  }
+}
+
+/**
+ * Process queued uploads until none are left.
+ * Calls made while processing is already running are coalesced.
+ */
+async function processQueue(): Promise<void> {
+  if (isProcessing) {
+    rerunRequested = true;
+    return;
+  }
+
+  isProcessing = true;
+  consecutiveServerErrors = 0;
+  emit({ isProcessing, pausedReason: null });
+  try {
+    do {
+      rerunRequested = false;
+      await runQueue();
+    } while (rerunRequested);
+  } catch (err) {
+    console.error("❌ [uploadQueue] Processing failed:", err);
+  } finally {
+    isProcessing = false;
+    await refreshSnapshot().catch(() => emit({ isProcessing }));
+  }
+}
+
+/**
+ * Add picked files to the persistent upload queue and start uploading,
+ * into the given folder (top level when null).
+ * Returns the batch ID shared by all files of this pick.
+ */
+export async function enqueueUploads(
+  uploads: UploadRequest[],
+  userId: number,
+  folderId: string | null = null,
+): Promise<string> {
+  const batchId = Date.now().toString();
+  const records = await Promise.all(
+    uploads.map(async (upload, index) => ({
+      batchId,
+      userId,
+      // Rejected files are never uploaded, so there is no need to keep a copy
+      uri: upload.rejection
+        ? upload.asset.uri
+        : await persistAsset(upload.asset, batchId, index),
+      name: decodeFileName(upload.asset.name),
+      mimeType: upload.asset.mimeType ?? null,
+      size: upload.asset.size ?? null,
+      contentHash: upload.contentHash ?? null,
+      replacesFileId: upload.replacesFileId ?? null,
+      folderId,
+      error: upload.rejection ?? null,
+    })),
+  );
+
+  await insertUploadQueueRecords(records);
+  console.log("🗂️ [uploadQueue] Queued", records.length, "file(s)");
+  await refreshSnapshot();
+  // A batch made only of rejected files is already complete
+  await reportBatchIfComplete(batchId);
+
+  void processQueue();
+  return batchId;
+}
+
+/**
+ * Resume the queue after app launch.
+ * Uploads that were in flight when the app was killed are re-queued.
+ */
+export async function resumeUploadQueue(): Promise<void> {
+  try {
+    await resetInterruptedUploads();
+    await refreshSnapshot();
+  } catch (err) {
+    console.error("❌ [uploadQueue] Failed to restore queue:", err);
+    return;
+  }
+  void processQueue();
+}
+
+/**
+ * Re-queue every failed upload of the logged-in user.
+ */
+export async function retryFailedUploads(): Promise<void> {
+  const user = await getCurrentUser();
+  if (!user) return;
+  await requeueFailedUploads(user.id);
+  await refreshSnapshot();
+  void processQueue();
+}
+
+/**
+ * Remove the logged-in user's finished (done, failed and cancelled) uploads
+ * from the queue.
+ */
+export async function clearFinishedUploads(): Promise<void> {
+  const user = await getCurrentUser();
+  if (!user) return;
+  const finished = snapshot.items.filter(
+    (item) =>
+      item.userId === user.id &&
+      (item.state === "done" ||
+        item.state === "failed" ||
+        item.state === "cancelled"),
+  );
+  await deleteFinishedUploads(user.id);
+  await Promise.all(finished.map((item) => removeQueuedCopy(item.uri)));
+  await refreshSnapshot();
+}
+
+/**
+ * Pause one upload. An in-flight upload is aborted; large (chunked)
+ * uploads later resume from the last confirmed offset.
+ */
+export async function pauseUpload(itemId: number): Promise<void> {
+  const controller = activeControllers.get(itemId);
+  if (controller) {
+    stopIntents.set(itemId, "pause");
+    controller.abort();
+    return;
+  }
+
+  const item = await getUploadQueueRecord(itemId);
+  if (item?.state === "queued") {
+    await updateUploadQueueRecord(itemId, { state: "paused" });
+    await refreshSnapshot();
+  }
+}
+
+/**
+ * Resume a paused upload.
+ */
+export async function resumeUpload(itemId: number): Promise<void> {
+  const item = await getUploadQueueRecord(itemId);
+  if (item?.state !== "paused") return;
+  await updateUploadQueueRecord(itemId, { state: "queued" });
+  await refreshSnapshot();
+  void processQueue();
+}
+
+/**
+ * Cancel one upload, whether in flight, queued or paused.
+ */
+export async function cancelUpload(itemId: number): Promise<void> {
+  const controller = activeControllers.get(itemId);
+  if (controller) {
+    stopIntents.set(itemId, "cancel");
+    controller.abort();
+    return;
+  }
+
+  const item = await getUploadQueueRecord(itemId);
+  if (!item || (item.state !== "queued" && item.state !== "paused")) return;
+  await finalizeCancelledItem(item);
+  await refreshSnapshot();
+  await reportBatchIfComplete(item.batchId);
+}
+
+/**
+ * Pause every queued or in-flight upload.
+ */
+export async function pauseAllUploads(): Promise<void> {
+  const items = snapshot.items.filter(
+    (item) => item.state === "queued" || item.state === "uploading",
+  );
+  await Promise.all(items.map((item) => pauseUpload(item.id)));
+}
+
+/**
+ * Resume every paused upload.
+ */
+export async function resumeAllUploads(): Promise<void> {
+  const items = snapshot.items.filter((item) => item.state === "paused");
+  for (const item of items) {
+    await updateUploadQueueRecord(item.id, { state: "queued" });
+  }
+  await refreshSnapshot();
+  void processQueue();
+}
+
+/**
+ * Cancel every pending upload (queued, paused or in flight).
+ */
+export async function cancelAllUploads(): Promise<void> {
+  const items = snapshot.items.filter((item) =>
+    PENDING_STATES.includes(item.state),
+  );
+  await Promise.all(items.map((item) => cancelUpload(item.id)));
+}
+
+/**
+ * Current queue state (last known snapshot).
+ */
+export function getUploadQueueSnapshot(): UploadQueueSnapshot {
+  return snapshot;
+}
+
+/**
+ * Subscribe to queue state changes.
+ * The listener is called immediately with the current snapshot.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToUploadQueue(
+  listener: UploadQueueListener,
+): () => void {
+  listeners.add(listener);
+  listener(snapshot);
+  return () => {
+    listeners.delete(listener);
+  };
+}
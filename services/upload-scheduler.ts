@@ -0,0 +1,50 @@
+/**
+ * Small bounded-concurrency scheduler for upload work.
+ * Runs at most `concurrency` tasks at once and keeps results in input order.
+ */
+
+export interface SchedulerOptions {
+  concurrency: number;
+  // Checked before each task is launched; return true to stop launching work
+  shouldStop?: () => boolean;
+}
+
+export type ScheduledResult<R> =
+  { status: "completed"; value: R } | { status: "skipped" };
+
+/**
+ * Run `worker` for every item with a concurrency limit.
+ * Items not started because `shouldStop` returned true are reported as skipped.
+ * Workers are expected to handle their own errors; a thrown error rejects the run.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: SchedulerOptions,
+): Promise<ScheduledResult<R>[]> {
+  const results: ScheduledResult<R>[] = items.map(() => ({
+    status: "skipped",
+  }));
+  const concurrency = Math.max(1, Math.floor(options.concurrency));
+  let nextIndex = 0;
+  let stopped = false;
+
+  async function runLane(): Promise<void> {
+    while (!stopped && nextIndex < items.length) {
+      if (options.shouldStop?.()) {
+        stopped = true;
+        return;
+      }
+      const index = nextIndex++;
+      const value = await worker(items[index], index);
+      results[index] = { status: "completed", value };
+    }
+  }
+
+  const lanes = Array.from(
+    { length: Math.min(concurrency, items.length) },
+    runLane,
+  );
+  await Promise.all(lanes);
+  return results;
+}
@@ -0,0 +1,127 @@
+/**
+ * Local SQLite database.
+ * Holds device-local state only (e.g. the upload queue, downloads, the file
+ * cache, media playback positions); the backend remains the source of truth
+ * for users, files and shares.
+ */
+
+import * as SQLite from "expo-sqlite";
+
+const DATABASE_NAME = "file-upload-app.db";
+
+// Schema migrations, applied in order. MIGRATIONS[n] upgrades the schema
+// from version n to n + 1 (tracked with PRAGMA user_version).
+// Never edit an existing entry - append a new one instead.
+const MIGRATIONS: string[] = [
+  `CREATE TABLE IF NOT EXISTS upload_queue (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    batch_id TEXT NOT NULL,
+    user_id INTEGER NOT NULL,
+    uri TEXT NOT NULL,
+    name TEXT NOT NULL,
+    mime_type TEXT,
+    size INTEGER,
+    state TEXT NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    file_id TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_upload_queue_state ON upload_queue (state);`,
+  // Chunked upload session per queued file (resumable large uploads)
+  `ALTER TABLE upload_queue ADD COLUMN upload_session_id TEXT;
+  ALTER TABLE upload_queue ADD COLUMN uploaded_bytes INTEGER NOT NULL DEFAULT 0;`,
+  // Content hashes for duplicate detection
+  `ALTER TABLE upload_queue ADD COLUMN content_hash TEXT;
+  ALTER TABLE upload_queue ADD COLUMN replaces_file_id TEXT;
+  CREATE TABLE IF NOT EXISTS file_hashes (
+    file_id TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    sha256 TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_file_hashes_user ON file_hashes (user_id);`,
+  // Download manager (resumable downloads)
+  `CREATE TABLE IF NOT EXISTS downloads (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_id TEXT NOT NULL,
+    user_id INTEGER NOT NULL,
+    file_name TEXT NOT NULL,
+    file_type TEXT,
+    local_uri TEXT NOT NULL,
+    state TEXT NOT NULL DEFAULT 'downloading',
+    bytes_written INTEGER NOT NULL DEFAULT 0,
+    total_bytes INTEGER NOT NULL DEFAULT 0,
+    resume_data TEXT,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_downloads_file ON downloads (file_id);`,
+  // Offline file cache (LRU) and device settings
+  `CREATE TABLE IF NOT EXISTS file_cache (
+    file_id TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    file_name TEXT NOT NULL,
+    local_uri TEXT NOT NULL,
+    size INTEGER NOT NULL DEFAULT 0,
+    etag TEXT,
+    pinned INTEGER NOT NULL DEFAULT 0,
+    last_accessed_at TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_file_cache_access ON file_cache (last_accessed_at);
+  CREATE TABLE IF NOT EXISTS app_settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );`,
+  // Last playback position per media file
+  `CREATE TABLE IF NOT EXISTS playback_positions (
+    file_id TEXT NOT NULL,
+    user_id INTEGER NOT NULL,
+    position REAL NOT NULL,
+    duration REAL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (file_id, user_id)
+  );`,
+  // Download integrity: expected size and how a cached copy was verified
+  `ALTER TABLE downloads ADD COLUMN expected_size INTEGER;
+  ALTER TABLE file_cache ADD COLUMN integrity TEXT;`,
+  // Folder a queued file is uploaded into (null = top level)
+  `ALTER TABLE upload_queue ADD COLUMN folder_id TEXT;`,
+];
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+async function migrate(db: SQLite.SQLiteDatabase): Promise<void> {
+  const row = await db.getFirstAsync<{ user_version: number }>(
+    "PRAGMA user_version",
+  );
+  const currentVersion = row?.user_version ?? 0;
+
+  for (let version = currentVersion; version < MIGRATIONS.length; version++) {
+    console.log("🗄️ Migrating database to version", version + 1);
+    await db.withTransactionAsync(async () => {
+      await db.execAsync(MIGRATIONS[version]);
+      await db.execAsync(`PRAGMA user_version = ${version + 1}`);
+    });
+  }
+}
+
+// Get the shared database connection (opened and migrated on first use)
+export function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!databasePromise) {
+    databasePromise = (async () => {
+      const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await db.execAsync("PRAGMA journal_mode = WAL");
+      await migrate(db);
+      return db;
+    })().catch((error) => {
+      // Allow the next caller to retry opening the database
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
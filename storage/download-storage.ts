@@ -0,0 +1,203 @@
+/**
+ * Download records (SQLite).
+ * Tracks resumable downloads so they survive app restarts.
+ */
+
+import { getDatabase } from "./database";
+
+export type DownloadState =
+  "downloading" | "paused" | "done" | "failed" | "cancelled";
+
+export interface DownloadRecord {
+  id: number;
+  fileId: string;
+  userId: number;
+  fileName: string;
+  fileType: string | null;
+  localUri: string;
+  state: DownloadState;
+  bytesWritten: number;
+  totalBytes: number;
+  expectedSize: number | null; // Size the server reported for the file
+  resumeData: string | null; // Native resume state saved when paused
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewDownloadRecord {
+  fileId: string;
+  userId: number;
+  fileName: string;
+  fileType?: string | null;
+  localUri: string;
+  totalBytes?: number;
+  expectedSize?: number | null;
+}
+
+export type DownloadRecordUpdate = Partial<
+  Pick<
+    DownloadRecord,
+    | "state"
+    | "bytesWritten"
+    | "totalBytes"
+    | "resumeData"
+    | "error"
+    | "localUri"
+  >
+>;
+
+interface DownloadRow {
+  id: number;
+  file_id: string;
+  user_id: number;
+  file_name: string;
+  file_type: string | null;
+  local_uri: string;
+  state: DownloadState;
+  bytes_written: number;
+  total_bytes: number;
+  expected_size: number | null;
+  resume_data: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Column names for each updatable field
+const UPDATE_COLUMNS: Record<keyof DownloadRecordUpdate, string> = {
+  state: "state",
+  bytesWritten: "bytes_written",
+  totalBytes: "total_bytes",
+  resumeData: "resume_data",
+  error: "error",
+  localUri: "local_uri",
+};
+
+function toRecord(row: DownloadRow): DownloadRecord {
+  return {
+    id: row.id,
+    fileId: row.file_id,
+    userId: row.user_id,
+    fileName: row.file_name,
+    fileType: row.file_type,
+    localUri: row.local_uri,
+    state: row.state,
+    bytesWritten: row.bytes_written,
+    totalBytes: row.total_bytes,
+    expectedSize: row.expected_size,
+    resumeData: row.resume_data,
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Add a download in the "downloading" state; returns its ID
+export async function insertDownloadRecord(
+  record: NewDownloadRecord,
+): Promise<number> {
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+  const result = await db.runAsync(
+    `INSERT INTO downloads
+      (file_id, user_id, file_name, file_type, local_uri, state, total_bytes, expected_size, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, 'downloading', ?, ?, ?, ?)`,
+    record.fileId,
+    record.userId,
+    record.fileName,
+    record.fileType ?? null,
+    record.localUri,
+    record.totalBytes ?? 0,
+    record.expectedSize ?? null,
+    now,
+    now,
+  );
+  return result.lastInsertRowId;
+}
+
+// Get all downloads, newest first
+export async function getDownloadRecords(): Promise<DownloadRecord[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<DownloadRow>(
+    "SELECT * FROM downloads ORDER BY id DESC",
+  );
+  return rows.map(toRecord);
+}
+
+// Get a single download by ID
+export async function getDownloadRecord(
+  id: number,
+): Promise<DownloadRecord | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<DownloadRow>(
+    "SELECT * FROM downloads WHERE id = ?",
+    id,
+  );
+  return row ? toRecord(row) : null;
+}
+
+// Get the latest download of a file for a user
+export async function getDownloadByFileId(
+  fileId: string,
+  userId: number,
+): Promise<DownloadRecord | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<DownloadRow>(
+    "SELECT * FROM downloads WHERE file_id = ? AND user_id = ? ORDER BY id DESC LIMIT 1",
+    fileId,
+    userId,
+  );
+  return row ? toRecord(row) : null;
+}
+
+// Update selected fields of a download
+export async function updateDownloadRecord(
+  id: number,
+  update: DownloadRecordUpdate,
+): Promise<void> {
+  const keys = Object.keys(update) as (keyof DownloadRecordUpdate)[];
+  if (keys.length === 0) return;
+
+  const assignments = keys.map((key) => `${UPDATE_COLUMNS[key]} = ?`);
+  const values = keys.map((key) => update[key] ?? null);
+
+  const db = await getDatabase();
+  await db.runAsync(
+    `UPDATE downloads SET ${assignments.join(", ")}, updated_at = ? WHERE id = ?`,
+    ...values,
+    new Date().toISOString(),
+    id,
+  );
+}
+
+// Downloads that were in flight when the app was killed
+export async function getInterruptedDownloads(): Promise<DownloadRecord[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<DownloadRow>(
+    "SELECT * FROM downloads WHERE state = 'downloading' ORDER BY id ASC",
+  );
+  return rows.map(toRecord);
+}
+
+// Remove downloads by ID
+export async function deleteDownloadRecords(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await getDatabase();
+  await db.runAsync(
+    `DELETE FROM downloads WHERE id IN (${ids.map(() => "?").join(", ")})`,
+    ...ids,
+  );
+}
+
+// Remove all downloads of the given files
+export async function deleteDownloadsForFiles(
+  fileIds: string[],
+): Promise<void> {
+  if (fileIds.length === 0) return;
+  const db = await getDatabase();
+  await db.runAsync(
+    `DELETE FROM downloads WHERE file_id IN (${fileIds.map(() => "?").join(", ")})`,
+    ...fileIds,
+  );
+}
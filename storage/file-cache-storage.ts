@@ -0,0 +1,149 @@
+/**
+ * Offline file cache entries (SQLite).
+ * One entry per downloaded file, keyed by file_id, with the metadata
+ * needed for LRU eviction and "keep available offline" pins.
+ */
+
+import { getDatabase } from "./database";
+
+// How a cached copy was checked after downloading
+// ("size": only the size was known; "md5"/"sha256": a server checksum matched)
+export type FileIntegrity = "size" | "md5" | "sha256";
+
+export interface FileCacheEntry {
+  fileId: string;
+  userId: number;
+  fileName: string;
+  localUri: string;
+  size: number;
+  etag: string | null;
+  integrity: FileIntegrity | null; // null when the copy was not verified
+  pinned: boolean;
+  lastAccessedAt: string;
+  createdAt: string;
+}
+
+export interface NewFileCacheEntry {
+  fileId: string;
+  userId: number;
+  fileName: string;
+  localUri: string;
+  size: number;
+  etag?: string | null;
+  integrity?: FileIntegrity | null;
+}
+
+interface FileCacheRow {
+  file_id: string;
+  user_id: number;
+  file_name: string;
+  local_uri: string;
+  size: number;
+  etag: string | null;
+  integrity: FileIntegrity | null;
+  pinned: number;
+  last_accessed_at: string;
+  created_at: string;
+}
+
+function toEntry(row: FileCacheRow): FileCacheEntry {
+  return {
+    fileId: row.file_id,
+    userId: row.user_id,
+    fileName: row.file_name,
+    localUri: row.local_uri,
+    size: row.size,
+    etag: row.etag,
+    integrity: row.integrity,
+    pinned: row.pinned === 1,
+    lastAccessedAt: row.last_accessed_at,
+    createdAt: row.created_at,
+  };
+}
+
+// Add or replace a cache entry (keeps the pin of an existing entry, and its
+// integrity when the new one was not verified)
+export async function saveFileCacheEntry(
+  entry: NewFileCacheEntry,
+): Promise<void> {
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+  await db.runAsync(
+    `INSERT INTO file_cache
+      (file_id, user_id, file_name, local_uri, size, etag, integrity, last_accessed_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (file_id) DO UPDATE SET
+       user_id = excluded.user_id,
+       file_name = excluded.file_name,
+       local_uri = excluded.local_uri,
+       size = excluded.size,
+       etag = excluded.etag,
+       integrity = COALESCE(excluded.integrity, file_cache.integrity),
+       last_accessed_at = excluded.last_accessed_at`,
+    entry.fileId,
+    entry.userId,
+    entry.fileName,
+    entry.localUri,
+    entry.size,
+    entry.etag ?? null,
+    entry.integrity ?? null,
+    now,
+    now,
+  );
+}
+
+// Get the cache entry of a file for a user
+export async function getFileCacheEntry(
+  fileId: string,
+  userId: number,
+): Promise<FileCacheEntry | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<FileCacheRow>(
+    "SELECT * FROM file_cache WHERE file_id = ? AND user_id = ?",
+    fileId,
+    userId,
+  );
+  return row ? toEntry(row) : null;
+}
+
+// Get all cache entries, least recently used first
+export async function getFileCacheEntries(): Promise<FileCacheEntry[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<FileCacheRow>(
+    "SELECT * FROM file_cache ORDER BY last_accessed_at ASC",
+  );
+  return rows.map(toEntry);
+}
+
+// Record that a cached file was used
+export async function touchFileCacheEntry(fileId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    "UPDATE file_cache SET last_accessed_at = ? WHERE file_id = ?",
+    new Date().toISOString(),
+    fileId,
+  );
+}
+
+// Pin or unpin a cached file (pinned files are never evicted)
+export async function setFileCachePinned(
+  fileId: string,
+  pinned: boolean,
+): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    "UPDATE file_cache SET pinned = ? WHERE file_id = ?",
+    pinned ? 1 : 0,
+    fileId,
+  );
+}
+
+// Remove cache entries by file ID
+export async function deleteFileCacheEntries(fileIds: string[]): Promise<void> {
+  if (fileIds.length === 0) return;
+  const db = await getDatabase();
+  await db.runAsync(
+    `DELETE FROM file_cache WHERE file_id IN (${fileIds.map(() => "?").join(", ")})`,
+    ...fileIds,
+  );
+}
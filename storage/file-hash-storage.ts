@@ -0,0 +1,49 @@
+/**
+ * Local cache of content hashes (SHA-256) for the user's uploaded files.
+ * The backend does not always return a hash, so hashes computed at upload
+ * time are remembered here by file_id for duplicate detection.
+ */
+
+import { getDatabase } from "./database";
+
+export interface StoredFileHash {
+  fileId: string;
+  sha256: string;
+}
+
+// Remember the content hash of an uploaded file
+export async function saveFileHash(
+  userId: number,
+  fileId: string,
+  sha256: string,
+): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    `INSERT OR REPLACE INTO file_hashes (file_id, user_id, sha256, updated_at)
+     VALUES (?, ?, ?, ?)`,
+    fileId,
+    userId,
+    sha256,
+    new Date().toISOString(),
+  );
+}
+
+// Get all known hashes for a user's files
+export async function getFileHashes(userId: number): Promise<StoredFileHash[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ file_id: string; sha256: string }>(
+    "SELECT file_id, sha256 FROM file_hashes WHERE user_id = ?",
+    userId,
+  );
+  return rows.map((row) => ({ fileId: row.file_id, sha256: row.sha256 }));
+}
+
+// Forget hashes for files that no longer exist
+export async function deleteFileHashes(fileIds: string[]): Promise<void> {
+  if (fileIds.length === 0) return;
+  const db = await getDatabase();
+  await db.runAsync(
+    `DELETE FROM file_hashes WHERE file_id IN (${fileIds.map(() => "?").join(", ")})`,
+    ...fileIds,
+  );
+}
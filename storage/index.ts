@@ -1,6 +1,9 @@
 /**
- * Storage index - Token storage only (no SQLite for core data).
- * Backend is now the source of truth for all data.
+ * Storage index - Token storage and device-local persistence.
+ * Backend is the source of truth for users, files and shares;
+ * SQLite only holds local state such as the pending upload queue,
+ * cached content hashes, resumable downloads, the offline file cache,
+ * media playback positions and device settings.
  */
 
 export {
@@ -14,6 +17,63 @@ export {
   type StoredUser,
 } from "./token-storage";
 
-// Note: SQLite database exports removed.
-// Backend APIs are now the source of truth for users, files, and shares.
-// SQLite can be re-added later as an optional offline cache if needed.
+export { getDatabase } from "./database";
+
+export {
+  deleteFinishedUploads,
+  deleteUploadQueueRecords,
+  getQueuedUploads,
+  getUploadQueueRecord,
+  getUploadQueueRecords,
+  insertUploadQueueRecords,
+  requeueFailedUploads,
+  resetInterruptedUploads,
+  updateUploadQueueRecord,
+  type NewUploadQueueRecord,
+  type UploadQueueRecord,
+  type UploadQueueRecordUpdate,
+  type UploadQueueState,
+} from "./upload-queue-storage";
+
+export {
+  deleteFileHashes,
+  getFileHashes,
+  saveFileHash,
+  type StoredFileHash,
+} from "./file-hash-storage";
+
+export {
+  deleteDownloadRecords,
+  deleteDownloadsForFiles,
+  getDownloadByFileId,
+  getDownloadRecord,
+  getDownloadRecords,
+  getInterruptedDownloads,
+  insertDownloadRecord,
+  updateDownloadRecord,
+  type DownloadRecord,
+  type DownloadRecordUpdate,
+  type DownloadState,
+  type NewDownloadRecord,
+} from "./download-storage";
+
+export {
+  deleteFileCacheEntries,
+  getFileCacheEntries,
+  getFileCacheEntry,
+  saveFileCacheEntry,
+  setFileCachePinned,
+  touchFileCacheEntry,
+  type FileCacheEntry,
+  type FileIntegrity,
+  type NewFileCacheEntry,
+} from "./file-cache-storage";
+
+export {
+  deletePlaybackPositions,
+  getPlaybackPosition,
+  savePlaybackPosition,
+  type PlaybackPosition,
+} from "./playback-storage";
+
+export { getSetting, setSetting } from "./settings-storage";
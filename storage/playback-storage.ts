@@ -0,0 +1,79 @@
+/**
+ * Media playback positions (SQLite).
+ * The last position a user reached in each audio or video file, so
+ * playback can pick up where it left off.
+ */
+
+import { getDatabase } from "./database";
+
+export interface PlaybackPosition {
+  fileId: string;
+  userId: number;
+  position: number;
+  duration: number | null;
+  updatedAt: string;
+}
+
+interface PlaybackPositionRow {
+  file_id: string;
+  user_id: number;
+  position: number;
+  duration: number | null;
+  updated_at: string;
+}
+
+function toPosition(row: PlaybackPositionRow): PlaybackPosition {
+  return {
+    fileId: row.file_id,
+    userId: row.user_id,
+    position: row.position,
+    duration: row.duration,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Get the saved position of a file for a user
+export async function getPlaybackPosition(
+  fileId: string,
+  userId: number,
+): Promise<PlaybackPosition | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<PlaybackPositionRow>(
+    "SELECT * FROM playback_positions WHERE file_id = ? AND user_id = ?",
+    fileId,
+    userId,
+  );
+  return row ? toPosition(row) : null;
+}
+
+// Save (or replace) the position of a file for a user
+export async function savePlaybackPosition(
+  fileId: string,
+  userId: number,
+  position: number,
+  duration: number | null,
+): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    `INSERT OR REPLACE INTO playback_positions
+      (file_id, user_id, position, duration, updated_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    fileId,
+    userId,
+    position,
+    duration,
+    new Date().toISOString(),
+  );
+}
+
+// Remove saved positions by file ID (all users)
+export async function deletePlaybackPositions(
+  fileIds: string[],
+): Promise<void> {
+  if (fileIds.length === 0) return;
+  const db = await getDatabase();
+  await db.runAsync(
+    `DELETE FROM playback_positions WHERE file_id IN (${fileIds.map(() => "?").join(", ")})`,
+    ...fileIds,
+  );
+}
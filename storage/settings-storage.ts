@@ -0,0 +1,26 @@
+/**
+ * Device settings (SQLite key/value).
+ * Values are stored as strings; callers parse them.
+ */
+
+import { getDatabase } from "./database";
+
+// Get a setting, or null when it was never set
+export async function getSetting(key: string): Promise<string | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ value: string }>(
+    "SELECT value FROM app_settings WHERE key = ?",
+    key,
+  );
+  return row?.value ?? null;
+}
+
+// Save a setting
+export async function setSetting(key: string, value: string): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    "INSERT OR REPLACE INTO app_settings (key, value) VALUES (?, ?)",
+    key,
+    value,
+  );
+}
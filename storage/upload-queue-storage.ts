@@ -0,0 +1,227 @@
+import { getDatabase } from "./database";
+
+export type UploadQueueState =
+  "queued" | "uploading" | "paused" | "done" | "failed" | "cancelled";
+
+export interface UploadQueueRecord {
+  id: number;
+  batchId: string;
+  userId: number;
+  uri: string;
+  name: string;
+  mimeType: string | null;
+  size: number | null;
+  state: UploadQueueState;
+  attempts: number;
+  error: string | null;
+  fileId: string | null;
+  uploadSessionId: string | null; // Chunked upload session (large files)
+  uploadedBytes: number; // Bytes confirmed by the server for the session
+  contentHash: string | null; // SHA-256 computed when the file was picked
+  replacesFileId: string | null; // Existing file to trash once uploaded
+  folderId: string | null; // Folder to upload into (null = top level)
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewUploadQueueRecord {
+  batchId: string;
+  userId: number;
+  uri: string;
+  name: string;
+  mimeType?: string | null;
+  size?: number | null;
+  contentHash?: string | null;
+  replacesFileId?: string | null;
+  folderId?: string | null;
+  error?: string | null; // Inserted as "failed" when set (e.g. rejected up front)
+}
+
+export type UploadQueueRecordUpdate = Partial<
+  Pick<
+    UploadQueueRecord,
+    | "state"
+    | "attempts"
+    | "error"
+    | "fileId"
+    | "uri"
+    | "uploadSessionId"
+    | "uploadedBytes"
+  >
+>;
+
+interface UploadQueueRow {
+  id: number;
+  batch_id: string;
+  user_id: number;
+  uri: string;
+  name: string;
+  mime_type: string | null;
+  size: number | null;
+  state: UploadQueueState;
+  attempts: number;
+  error: string | null;
+  file_id: string | null;
+  upload_session_id: string | null;
+  uploaded_bytes: number;
+  content_hash: string | null;
+  replaces_file_id: string | null;
+  folder_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Column names for each updatable field
+const UPDATE_COLUMNS: Record<keyof UploadQueueRecordUpdate, string> = {
+  state: "state",
+  attempts: "attempts",
+  error: "error",
+  fileId: "file_id",
+  uri: "uri",
+  uploadSessionId: "upload_session_id",
+  uploadedBytes: "uploaded_bytes",
+};
+
+function toRecord(row: UploadQueueRow): UploadQueueRecord {
+  return {
+    id: row.id,
+    batchId: row.batch_id,
+    userId: row.user_id,
+    uri: row.uri,
+    name: row.name,
+    mimeType: row.mime_type,
+    size: row.size,
+    state: row.state,
+    attempts: row.attempts,
+    error: row.error,
+    fileId: row.file_id,
+    uploadSessionId: row.upload_session_id,
+    uploadedBytes: row.uploaded_bytes,
+    contentHash: row.content_hash,
+    replacesFileId: row.replaces_file_id,
+    folderId: row.folder_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Add files to the upload queue in the "queued" state (or "failed" with an error)
+export async function insertUploadQueueRecords(
+  records: NewUploadQueueRecord[],
+): Promise<void> {
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+  await db.withTransactionAsync(async () => {
+    for (const record of records) {
+      await db.runAsync(
+        `INSERT INTO upload_queue
+          (batch_id, user_id, uri, name, mime_type, size, content_hash, replaces_file_id, folder_id, state, error, attempts, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)`,
+        record.batchId,
+        record.userId,
+        record.uri,
+        record.name,
+        record.mimeType ?? null,
+        record.size ?? null,
+        record.contentHash ?? null,
+        record.replacesFileId ?? null,
+        record.folderId ?? null,
+        record.error ? "failed" : "queued",
+        record.error ?? null,
+        now,
+        now,
+      );
+    }
+  });
+}
+
+// Get all queue records, oldest first
+export async function getUploadQueueRecords(): Promise<UploadQueueRecord[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<UploadQueueRow>(
+    "SELECT * FROM upload_queue ORDER BY id ASC",
+  );
+  return rows.map(toRecord);
+}
+
+// Get a single record by ID
+export async function getUploadQueueRecord(
+  id: number,
+): Promise<UploadQueueRecord | null> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<UploadQueueRow>(
+    "SELECT * FROM upload_queue WHERE id = ?",
+    id,
+  );
+  return row ? toRecord(row) : null;
+}
+
+// Get all queued records for a user, oldest first
+export async function getQueuedUploads(
+  userId: number,
+): Promise<UploadQueueRecord[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<UploadQueueRow>(
+    "SELECT * FROM upload_queue WHERE state = 'queued' AND user_id = ? ORDER BY id ASC",
+    userId,
+  );
+  return rows.map(toRecord);
+}
+
+// Update selected fields of a queue record
+export async function updateUploadQueueRecord(
+  id: number,
+  update: UploadQueueRecordUpdate,
+): Promise<void> {
+  const keys = Object.keys(update) as (keyof UploadQueueRecordUpdate)[];
+  if (keys.length === 0) return;
+
+  const assignments = keys.map((key) => `${UPDATE_COLUMNS[key]} = ?`);
+  const values = keys.map((key) => update[key] ?? null);
+
+  const db = await getDatabase();
+  await db.runAsync(
+    `UPDATE upload_queue SET ${assignments.join(", ")}, updated_at = ? WHERE id = ?`,
+    ...values,
+    new Date().toISOString(),
+    id,
+  );
+}
+
+// Put uploads interrupted by an app kill back into the queue
+export async function resetInterruptedUploads(): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    "UPDATE upload_queue SET state = 'queued', updated_at = ? WHERE state = 'uploading'",
+    new Date().toISOString(),
+  );
+}
+
+// Re-queue failed uploads (attempt counter starts over)
+export async function requeueFailedUploads(userId: number): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    "UPDATE upload_queue SET state = 'queued', attempts = 0, error = NULL, updated_at = ? WHERE state = 'failed' AND user_id = ?",
+    new Date().toISOString(),
+    userId,
+  );
+}
+
+// Remove specific records
+export async function deleteUploadQueueRecords(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await getDatabase();
+  await db.runAsync(
+    `DELETE FROM upload_queue WHERE id IN (${ids.map(() => "?").join(", ")})`,
+    ...ids,
+  );
+}
+
+// Remove a user's finished (done, failed or cancelled) records
+export async function deleteFinishedUploads(userId: number): Promise<void> {
+  const db = await getDatabase();
+  await db.runAsync(
+    "DELETE FROM upload_queue WHERE state IN ('done', 'failed', 'cancelled') AND user_id = ?",
+    userId,
+  );
+}